@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { ASR_SAMPLE_RATE } from "../../shared/socketEvents";
+import { createEndpointer } from "./endpointer";
+
+// 100 ms chunks, like clients send
+const CHUNK_SAMPLES = ASR_SAMPLE_RATE / 10;
+
+const voiced = () => new Int16Array(CHUNK_SAMPLES).fill(3000);
+const silent = () => new Int16Array(CHUNK_SAMPLES);
+
+// Feeds `count` chunks and collects every event they produce
+function feed(
+  endpointer: ReturnType<typeof createEndpointer>,
+  chunk: () => Int16Array,
+  count: number
+) {
+  return Array.from({ length: count }, () => endpointer.push(chunk())).flat();
+}
+
+describe("createEndpointer", () => {
+  it("ignores silence", () => {
+    const endpointer = createEndpointer();
+    expect(feed(endpointer, silent, 20)).toEqual([]);
+    expect(endpointer.speaking).toBe(false);
+    expect(endpointer.positionMs).toBe(2000);
+    expect(endpointer.flush()).toBeNull();
+  });
+
+  it("starts an utterance at the first voiced chunk", () => {
+    const endpointer = createEndpointer();
+    feed(endpointer, silent, 3);
+    expect(endpointer.push(voiced())).toEqual([{ type: "start", atMs: 300 }]);
+    expect(endpointer.speaking).toBe(true);
+    expect(feed(endpointer, voiced, 5)).toEqual([]);
+  });
+
+  it("ends the utterance after enough silence, at the last voiced chunk", () => {
+    const endpointer = createEndpointer();
+    feed(endpointer, silent, 2);
+    feed(endpointer, voiced, 10);
+    // Short pauses don't end it
+    expect(feed(endpointer, silent, 6)).toEqual([]);
+    expect(endpointer.push(silent())).toEqual([{ type: "end", startMs: 200, endMs: 1200 }]);
+    expect(endpointer.speaking).toBe(false);
+    expect(endpointer.lastVoicedMs).toBe(1200);
+  });
+
+  it("keeps one utterance across a short pause", () => {
+    const endpointer = createEndpointer();
+    const events = [
+      ...feed(endpointer, voiced, 5),
+      ...feed(endpointer, silent, 3),
+      ...feed(endpointer, voiced, 5),
+      ...feed(endpointer, silent, 7),
+    ];
+    expect(events).toEqual([
+      { type: "start", atMs: 0 },
+      { type: "end", startMs: 0, endMs: 1300 },
+    ]);
+  });
+
+  it("cuts long utterances and starts the next one with the next voiced chunk", () => {
+    const endpointer = createEndpointer();
+    const events = feed(endpointer, voiced, 201);
+    expect(events).toEqual([
+      { type: "start", atMs: 0 },
+      { type: "end", startMs: 0, endMs: 20_000 },
+      { type: "start", atMs: 20_000 },
+    ]);
+  });
+
+  it("ends the utterance in progress when flushed", () => {
+    const endpointer = createEndpointer();
+    feed(endpointer, voiced, 4);
+    feed(endpointer, silent, 2);
+    expect(endpointer.flush()).toEqual({ type: "end", startMs: 0, endMs: 400 });
+    expect(endpointer.flush()).toBeNull();
+  });
+});
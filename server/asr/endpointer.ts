@@ -0,0 +1,83 @@
+import { ASR_SAMPLE_RATE } from "../../shared/socketEvents";
+
+// RMS level, as a fraction of full scale, that counts as speech
+const SPEECH_LEVEL = Number(process.env.ASR_SPEECH_LEVEL) || 0.015;
+// Silence this long ends an utterance
+const END_SILENCE_MS = 700;
+// Longer utterances are cut so recognizers get bounded input
+const MAX_UTTERANCE_MS = 20_000;
+
+export type EndpointEvent =
+  | { type: "start"; atMs: number }
+  | { type: "end"; startMs: number; endMs: number };
+
+const samplesToMs = (samples: number) => (samples * 1000) / ASR_SAMPLE_RATE;
+
+/**
+ * Energy-based utterance detection over a PCM stream. Each chunk is voiced
+ * or silent as a whole, so boundaries are as fine as the chunks clients send.
+ */
+export function createEndpointer() {
+  let position = 0;
+  let utteranceStart: number | null = null;
+  let lastVoiced = 0;
+
+  const finish = (): EndpointEvent => {
+    const event: EndpointEvent = {
+      type: "end",
+      startMs: samplesToMs(utteranceStart!),
+      endMs: samplesToMs(lastVoiced),
+    };
+    utteranceStart = null;
+    return event;
+  };
+
+  return {
+    /** Feeds a chunk; returns the boundaries it crossed */
+    push(pcm: Int16Array): EndpointEvent[] {
+      let sum = 0;
+      for (const sample of pcm) sum += sample * sample;
+      const level = Math.sqrt(sum / Math.max(1, pcm.length)) / 32768;
+
+      const chunkStart = position;
+      position += pcm.length;
+
+      const events: EndpointEvent[] = [];
+      if (level >= SPEECH_LEVEL) {
+        if (utteranceStart === null) {
+          utteranceStart = chunkStart;
+          events.push({ type: "start", atMs: samplesToMs(chunkStart) });
+        }
+        lastVoiced = position;
+        if (samplesToMs(position - utteranceStart) >= MAX_UTTERANCE_MS) {
+          events.push(finish());
+        }
+      } else if (
+        utteranceStart !== null &&
+        samplesToMs(position - lastVoiced) >= END_SILENCE_MS
+      ) {
+        events.push(finish());
+      }
+      return events;
+    },
+
+    /** Ends the utterance in progress, if any, e.g. when the stream stops */
+    flush(): EndpointEvent | null {
+      return utteranceStart === null ? null : finish();
+    },
+
+    get speaking() {
+      return utteranceStart !== null;
+    },
+
+    // Milliseconds of audio seen so far
+    get positionMs() {
+      return samplesToMs(position);
+    },
+
+    // Where the last voiced chunk ended
+    get lastVoicedMs() {
+      return samplesToMs(lastVoiced);
+    },
+  };
+}
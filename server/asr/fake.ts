@@ -0,0 +1,75 @@
+import type { WordTiming } from "../../shared/socketEvents";
+import { createEndpointer, type EndpointEvent } from "./endpointer";
+import type { AsrEngine, AsrListener } from "./types";
+
+// One scripted word per this much voiced audio
+const FAKE_WORD_MS = 400;
+
+const FAKE_SCRIPT = [
+  "the", "quick", "brown", "fox", "jumps", "over", "the", "lazy", "dog",
+  "testing", "one", "two", "three",
+];
+
+/**
+ * Deterministic stand-in for a real recognizer: voiced audio becomes words
+ * from a fixed script, one per FAKE_WORD_MS, so the same audio always gives
+ * the same captions. Every fifth word is reported with low confidence.
+ */
+export function createFakeEngine(): AsrEngine {
+  return {
+    name: "fake",
+    createStream(_options, listener: AsrListener) {
+      const endpointer = createEndpointer();
+      let nextWord = 0;
+      let words: WordTiming[] = [];
+      let utteranceStart = 0;
+
+      const addWord = (atMs: number) => {
+        const offset = atMs - utteranceStart;
+        words.push({
+          word: FAKE_SCRIPT[nextWord % FAKE_SCRIPT.length],
+          startMs: Math.round(offset),
+          endMs: Math.round(offset + FAKE_WORD_MS),
+          confidence: nextWord % 5 === 4 ? 0.4 : 0.95,
+        });
+        nextWord++;
+      };
+
+      const handle = (event: EndpointEvent) => {
+        if (event.type === "start") {
+          utteranceStart = event.atMs;
+          words = [];
+          return;
+        }
+        if (words.length === 0) addWord(event.startMs);
+        const confidence =
+          words.reduce((sum, word) => sum + word.confidence!, 0) / words.length;
+        listener.onFinal(
+          { text: words.map((word) => word.word).join(" "), confidence, words },
+          event.startMs,
+          event.endMs
+        );
+        words = [];
+      };
+
+      return {
+        write(pcm) {
+          endpointer.push(pcm).forEach(handle);
+          if (!endpointer.speaking) return;
+
+          const due = Math.floor((endpointer.lastVoicedMs - utteranceStart) / FAKE_WORD_MS);
+          if (due > words.length) {
+            while (words.length < due) {
+              addWord(utteranceStart + words.length * FAKE_WORD_MS);
+            }
+            listener.onPartial(words.map((word) => word.word).join(" "));
+          }
+        },
+        async end() {
+          const event = endpointer.flush();
+          if (event) handle(event);
+        },
+      };
+    },
+  };
+}
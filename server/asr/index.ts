@@ -0,0 +1,34 @@
+import dotenv from "dotenv";
+import { createFakeEngine } from "./fake";
+import { createWhisperEngine } from "./whisper";
+import type { AsrEngine } from "./types";
+
+export type * from "./types";
+
+dotenv.config();
+
+/**
+ * ASR_ENGINE picks the server-side recognizer: "whisper" for a whisper.cpp
+ * server at WHISPER_SERVER_URL, or "fake" for the deterministic test
+ * engine. Without it server-side transcription is off and clients use the
+ * browser's own recognizer.
+ */
+function createAsrEngine(): AsrEngine | null {
+  const engine = process.env.ASR_ENGINE;
+  switch (engine) {
+    case "whisper":
+      return createWhisperEngine(
+        process.env.WHISPER_SERVER_URL || "http://127.0.0.1:8080"
+      );
+    case "fake":
+      return createFakeEngine();
+    case undefined:
+    case "":
+      return null;
+    default:
+      console.warn(`Unknown ASR_ENGINE "${engine}", server-side transcription is off`);
+      return null;
+  }
+}
+
+export const asrEngine = createAsrEngine();
@@ -0,0 +1,40 @@
+import type { WordTiming } from "../../shared/socketEvents";
+
+export interface AsrResult {
+  text: string;
+  // 0..1, when the engine gives one
+  confidence?: number;
+  // Milliseconds from the start of the utterance
+  words?: WordTiming[];
+}
+
+export interface AsrListener {
+  // Best guess so far for the utterance being spoken
+  onPartial(text: string): void;
+  // The utterance ended. Offsets are milliseconds of audio since the
+  // stream started.
+  onFinal(result: AsrResult, startMs: number, endMs: number): void;
+  onError(error: unknown): void;
+}
+
+export interface AsrStreamOptions {
+  // BCP 47 tag, e.g. en-US; engines may only use the language part
+  language?: string;
+}
+
+/**
+ * One speaker's audio. Engines find utterance boundaries themselves and
+ * report through the listener given to createStream.
+ */
+export interface AsrStream {
+  // 16-bit mono PCM at ASR_SAMPLE_RATE
+  write(pcm: Int16Array): void;
+  // Finishes the utterance in progress; resolves once its final result
+  // has been reported
+  end(): Promise<void>;
+}
+
+export interface AsrEngine {
+  name: string;
+  createStream(options: AsrStreamOptions, listener: AsrListener): AsrStream;
+}
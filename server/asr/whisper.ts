@@ -0,0 +1,161 @@
+import { ASR_SAMPLE_RATE, type WordTiming } from "../../shared/socketEvents";
+import { createEndpointer, type EndpointEvent } from "./endpointer";
+import type { AsrEngine, AsrListener, AsrResult } from "./types";
+
+// Re-transcribe the utterance for a fresh partial after this much new audio
+const PARTIAL_INTERVAL_MS = 1500;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// The parts of whisper.cpp's verbose_json response we read
+interface WhisperResponse {
+  text?: string;
+  segments?: {
+    words?: { word: string; start: number; end: number; probability?: number }[];
+  }[];
+}
+
+// 16-bit mono PCM wrapped in a WAV header
+function toWav(pcm: Int16Array): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, index) => header.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, "RIFF");
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, ASR_SAMPLE_RATE, true);
+  header.setUint32(28, ASR_SAMPLE_RATE * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeText(36, "data");
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header.buffer, pcm.slice().buffer], { type: "audio/wav" });
+}
+
+const concat = (chunks: Int16Array[]) => {
+  const pcm = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pcm;
+};
+
+/**
+ * Recognizer backed by a local whisper.cpp server (its `whisper-server`
+ * example, started with a model of your choice). Utterances are cut by the
+ * endpointer and sent to /inference as WAV; partials re-send the utterance
+ * so far while it is still being spoken.
+ */
+export function createWhisperEngine(serverUrl: string): AsrEngine {
+  const transcribe = async (pcm: Int16Array, language?: string): Promise<AsrResult> => {
+    const form = new FormData();
+    form.append("file", toWav(pcm), "audio.wav");
+    form.append("response_format", "verbose_json");
+    form.append("temperature", "0");
+    // whisper wants the bare language, "en" rather than "en-US"
+    form.append("language", language?.split("-")[0].toLowerCase() ?? "auto");
+
+    const res = await fetch(new URL("/inference", serverUrl), {
+      method: "POST",
+      body: form,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`whisper server responded ${res.status}: ${await res.text()}`);
+    }
+
+    const data = (await res.json()) as WhisperResponse;
+    const words: WordTiming[] = (data.segments ?? [])
+      .flatMap((segment) => segment.words ?? [])
+      .map((word) => ({
+        word: word.word.trim(),
+        startMs: Math.max(0, Math.round(word.start * 1000)),
+        endMs: Math.max(0, Math.round(word.end * 1000)),
+        confidence: word.probability,
+      }))
+      .filter((word) => word.word.length > 0);
+    const scored = words.filter((word) => word.confidence !== undefined);
+
+    return {
+      text: (data.text ?? "").trim(),
+      confidence: scored.length
+        ? scored.reduce((sum, word) => sum + word.confidence!, 0) / scored.length
+        : undefined,
+      words: words.length ? words : undefined,
+    };
+  };
+
+  return {
+    name: "whisper",
+    createStream({ language }, listener: AsrListener) {
+      const endpointer = createEndpointer();
+      let chunks: Int16Array[] = [];
+      let utterance = 0;
+      let lastPartialMs = 0;
+      let partialInFlight = false;
+      // Finals are transcribed one after another so they arrive in order
+      let finals = Promise.resolve();
+
+      const requestPartial = () => {
+        const current = utterance;
+        partialInFlight = true;
+        lastPartialMs = endpointer.positionMs;
+        transcribe(concat(chunks), language)
+          .then((result) => {
+            // Drop partials for an utterance that has already ended
+            if (current === utterance && result.text) listener.onPartial(result.text);
+          })
+          .catch((error) => console.warn("whisper partial failed:", error))
+          .finally(() => {
+            partialInFlight = false;
+          });
+      };
+
+      const handle = (event: EndpointEvent) => {
+        if (event.type === "start") {
+          lastPartialMs = event.atMs;
+          return;
+        }
+        const pcm = concat(chunks);
+        chunks = [];
+        utterance++;
+        finals = finals
+          .then(() => transcribe(pcm, language))
+          .then((result) => listener.onFinal(result, event.startMs, event.endMs))
+          .catch((error) => listener.onError(error));
+      };
+
+      return {
+        write(pcm) {
+          const events = endpointer.push(pcm);
+          // The chunk that opens an utterance belongs to it; trailing
+          // silence after one ends does not
+          if (endpointer.speaking || events.some((event) => event.type === "start")) {
+            chunks.push(pcm);
+          }
+          events.forEach(handle);
+
+          if (
+            endpointer.speaking &&
+            !partialInFlight &&
+            endpointer.positionMs - lastPartialMs >= PARTIAL_INTERVAL_MS
+          ) {
+            requestPartial();
+          }
+        },
+        end() {
+          const event = endpointer.flush();
+          if (event) handle(event);
+          return finals;
+        },
+      };
+    },
+  };
+}
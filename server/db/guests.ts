@@ -0,0 +1,5 @@
+/**
+ * What a guest is renamed to once their session has ended, freeing their
+ * display name. Short enough for display_name's 30 characters.
+ */
+export const expiredGuestName = (userId: string) => `Guest ${userId.slice(0, 8)}`;
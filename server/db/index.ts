@@ -1,29 +1,81 @@
-import { createClient } from "@supabase/supabase-js";
 import dotenv from "dotenv";
+import pg from "pg";
+import { createSupabaseStore } from "./supabase";
+import { applyMigrations, createPostgresStore } from "./postgres";
+import { createMemoryStore } from "./memory";
+import type { Store } from "./types";
+
+export type * from "./types";
 
 dotenv.config();
 
-if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_KEY) {
-  throw new Error("Missing Supabase environment variables");
+type Driver = "supabase" | "postgres" | "memory";
+
+/**
+ * DB_DRIVER picks the backend explicitly. Without it we use Supabase when
+ * its credentials are set, then DATABASE_URL, and otherwise fall back to
+ * the in-memory store so the server can run offline.
+ */
+function resolveDriver(): Driver {
+  const driver = process.env.DB_DRIVER;
+  if (driver === "supabase" || driver === "postgres" || driver === "memory") {
+    return driver;
+  }
+  if (driver) {
+    console.warn(`Unknown DB_DRIVER "${driver}", picking one from the environment`);
+  }
+  if (process.env.VITE_SUPABASE_URL && process.env.SUPABASE_KEY) {
+    return "supabase";
+  }
+  if (process.env.DATABASE_URL) {
+    return "postgres";
+  }
+  return "memory";
+}
+
+function createStore(driver: Driver): Store {
+  switch (driver) {
+    case "supabase":
+      if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_KEY) {
+        throw new Error("Missing Supabase environment variables");
+      }
+      return createSupabaseStore(
+        process.env.VITE_SUPABASE_URL,
+        process.env.SUPABASE_KEY
+      );
+    case "postgres":
+      return createPostgresStore(pgPool());
+    case "memory":
+      return createMemoryStore();
+  }
 }
 
-export const supabase = createClient(
-  process.env.VITE_SUPABASE_URL,
-  process.env.SUPABASE_KEY
-);
+let pool: pg.Pool | null = null;
 
-// Test database connection
-async function testConnection() {
+function pgPool() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("Missing DATABASE_URL environment variable");
+  }
+  pool ??= new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  return pool;
+}
+
+export const driver = resolveDriver();
+export const db = createStore(driver);
+
+/**
+ * Prepares the selected backend. For Postgres this applies pending files
+ * from supabase/migrations unless DB_AUTO_MIGRATE=false.
+ */
+export async function initDb() {
   try {
-    const { data, error } = await supabase
-      .from("users")
-      .select("count")
-      .single();
-    if (error) throw error;
-    console.log("Database connected successfully");
+    if (driver === "postgres" && process.env.DB_AUTO_MIGRATE !== "false") {
+      const ran = await applyMigrations(pgPool());
+      if (ran.length > 0) console.log("Applied migrations:", ran.join(", "));
+    }
+    await db.users.findByDisplayName("");
+    console.log(`Database connected successfully (${driver})`);
   } catch (error) {
     console.error("Database connection error:", error);
   }
 }
-
-testConnection();
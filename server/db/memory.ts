@@ -0,0 +1,567 @@
+import { randomUUID } from "crypto";
+import type {
+  InviteUseRow,
+  MessageEditRow,
+  MessageReactionRow,
+  MessageRow,
+  MessageTranslationRow,
+  MessageSearchHit,
+  RoomBanRow,
+  RoomMuteRow,
+  RoomInviteRow,
+  RoomLobbyRow,
+  RoomMemberRow,
+  RoomRow,
+  SpeechSegmentRow,
+  Store,
+  UserRow,
+} from "./types";
+
+import { expiredGuestName } from "./guests";
+import { buildSnippet, matchSearchTerms } from "../utils/search";
+
+// Same shape as a Postgres unique_violation so callers can treat them alike
+function uniqueViolation(message: string) {
+  return Object.assign(new Error(message), { code: "23505" });
+}
+
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at);
+
+/**
+ * Process-local store for running the server offline and in tests.
+ * Everything is lost when the process exits.
+ */
+export function createMemoryStore(): Store {
+  const users = new Map<string, UserRow>();
+  const rooms = new Map<string, RoomRow>();
+  const roomMembers: RoomMemberRow[] = [];
+  const roomBans: RoomBanRow[] = [];
+  const roomMutes: RoomMuteRow[] = [];
+  const roomInvites: RoomInviteRow[] = [];
+  const roomLobby: RoomLobbyRow[] = [];
+  const inviteUses: InviteUseRow[] = [];
+  const messages: MessageRow[] = [];
+  const messageEdits: MessageEditRow[] = [];
+  const messageReactions: MessageReactionRow[] = [];
+  const messageTranslations: MessageTranslationRow[] = [];
+  const speechSegments: SpeechSegmentRow[] = [];
+
+  const displayNameOf = (userId: string) =>
+    users.get(userId)?.display_name || "Unknown User";
+
+  return {
+    users: {
+      async findById(id) {
+        return users.get(id) ?? null;
+      },
+
+      async findByDisplayName(displayName) {
+        for (const user of users.values()) {
+          if (user.display_name === displayName) return user;
+        }
+        return null;
+      },
+
+      async create({ displayName, passwordHash, guestExpiresAt = null }) {
+        if (await this.findByDisplayName(displayName)) {
+          throw uniqueViolation("Display name already taken");
+        }
+        const user: UserRow = {
+          id: randomUUID(),
+          display_name: displayName,
+          password_hash: passwordHash,
+          guest_expires_at: guestExpiresAt,
+          created_at: new Date().toISOString(),
+          speech_language: null,
+        };
+        users.set(user.id, user);
+        return user;
+      },
+
+      async releaseGuestName(displayName, now) {
+        const user = await this.findByDisplayName(displayName);
+        if (user?.guest_expires_at && user.guest_expires_at < now) {
+          user.display_name = expiredGuestName(user.id);
+        }
+      },
+
+      async claimLegacyAccount(displayName, passwordHash) {
+        const user = await this.findByDisplayName(displayName);
+        if (!user || user.password_hash || user.guest_expires_at) return null;
+        user.password_hash = passwordHash;
+        return user;
+      },
+
+      async setSpeechLanguage(id, language) {
+        const user = users.get(id);
+        if (!user) throw new Error(`User ${id} not found`);
+        user.speech_language = language;
+        return user;
+      },
+    },
+
+    rooms: {
+      async create({
+        code,
+        creatorId,
+        qrCode,
+        passphraseHash = null,
+        lobbyEnabled = false,
+        inviteOnly = false,
+      }) {
+        if (rooms.has(code)) {
+          throw uniqueViolation("Room code already exists");
+        }
+        const room: RoomRow = {
+          code,
+          creator_id: creatorId,
+          qr_code: qrCode,
+          created_at: new Date().toISOString(),
+          active: true,
+          locked: false,
+          last_active_at: new Date().toISOString(),
+          media_mode: "auto",
+          passphrase_hash: passphraseHash,
+          lobby_enabled: lobbyEnabled,
+          invite_only: inviteOnly,
+        };
+        rooms.set(code, room);
+        return room;
+      },
+
+      async findByCode(code) {
+        return rooms.get(code) ?? null;
+      },
+
+      async setActive(code, active) {
+        const room = rooms.get(code);
+        if (room) room.active = active;
+      },
+
+      async setLocked(code, locked) {
+        const room = rooms.get(code);
+        if (room) room.locked = locked;
+      },
+
+      async setMediaMode(code, mode) {
+        const room = rooms.get(code);
+        if (room) room.media_mode = mode;
+      },
+
+      async touch(code) {
+        const room = rooms.get(code);
+        if (room) room.last_active_at = new Date().toISOString();
+      },
+
+      async listCodesForUser(userId) {
+        const codes = new Set<string>();
+        rooms.forEach((room) => {
+          if (room.creator_id === userId) codes.add(room.code);
+        });
+        roomMembers.forEach((member) => {
+          if (member.user_id === userId) codes.add(member.room_code);
+        });
+        messages.forEach((message) => {
+          if (message.user_id === userId) codes.add(message.room_code);
+        });
+        return Array.from(codes);
+      },
+
+      async listIdle(before) {
+        return Array.from(rooms.values()).filter(
+          (room) => room.active && room.last_active_at < before
+        );
+      },
+    },
+
+    roomMembers: {
+      async find(roomCode, userId) {
+        return (
+          roomMembers.find(
+            (member) =>
+              member.room_code === roomCode && member.user_id === userId
+          ) ?? null
+        );
+      },
+
+      async add(roomCode, userId, role = "participant") {
+        if (await this.find(roomCode, userId)) return;
+        roomMembers.push({
+          id: randomUUID(),
+          room_code: roomCode,
+          user_id: userId,
+          role,
+          joined_at: new Date().toISOString(),
+        });
+      },
+
+      async remove(roomCode, userId) {
+        const index = roomMembers.findIndex(
+          (member) => member.room_code === roomCode && member.user_id === userId
+        );
+        if (index !== -1) roomMembers.splice(index, 1);
+      },
+
+      async setRole(roomCode, userId, role) {
+        const member = await this.find(roomCode, userId);
+        if (member) member.role = role;
+      },
+
+      async list(roomCode) {
+        return roomMembers
+          .filter((member) => member.room_code === roomCode)
+          .map((member) => ({
+            id: member.user_id,
+            displayName: displayNameOf(member.user_id),
+            role: member.role,
+            muted: roomMutes.some(
+              (mute) => mute.room_code === roomCode && mute.user_id === member.user_id
+            ),
+          }));
+      },
+    },
+
+    roomBans: {
+      async ban(roomCode, userId, bannedBy) {
+        if (await this.isBanned(roomCode, userId)) return;
+        roomBans.push({
+          room_code: roomCode,
+          user_id: userId,
+          banned_by: bannedBy,
+          created_at: new Date().toISOString(),
+        });
+      },
+
+      async isBanned(roomCode, userId) {
+        return roomBans.some(
+          (ban) => ban.room_code === roomCode && ban.user_id === userId
+        );
+      },
+    },
+
+    roomMutes: {
+      async mute(roomCode, userId, mutedBy) {
+        if (await this.find(roomCode, userId)) return;
+        roomMutes.push({
+          room_code: roomCode,
+          user_id: userId,
+          muted_by: mutedBy,
+          created_at: new Date().toISOString(),
+        });
+      },
+
+      async unmute(roomCode, userId) {
+        const index = roomMutes.findIndex(
+          (mute) => mute.room_code === roomCode && mute.user_id === userId
+        );
+        if (index === -1) return false;
+        roomMutes.splice(index, 1);
+        return true;
+      },
+
+      async find(roomCode, userId) {
+        return (
+          roomMutes.find((mute) => mute.room_code === roomCode && mute.user_id === userId) ??
+          null
+        );
+      },
+    },
+
+    roomInvites: {
+      async add(roomCode, userIds, invitedBy) {
+        for (const userId of userIds) {
+          if (await this.isInvited(roomCode, userId)) continue;
+          roomInvites.push({
+            room_code: roomCode,
+            user_id: userId,
+            invited_by: invitedBy,
+            created_at: new Date().toISOString(),
+          });
+        }
+      },
+
+      async isInvited(roomCode, userId) {
+        return roomInvites.some(
+          (invite) => invite.room_code === roomCode && invite.user_id === userId
+        );
+      },
+    },
+
+    roomLobby: {
+      async add(roomCode, userId) {
+        if (await this.has(roomCode, userId)) return;
+        roomLobby.push({
+          room_code: roomCode,
+          user_id: userId,
+          requested_at: new Date().toISOString(),
+        });
+      },
+
+      async remove(roomCode, userId) {
+        const index = roomLobby.findIndex(
+          (entry) => entry.room_code === roomCode && entry.user_id === userId
+        );
+        if (index === -1) return false;
+        roomLobby.splice(index, 1);
+        return true;
+      },
+
+      async has(roomCode, userId) {
+        return roomLobby.some(
+          (entry) => entry.room_code === roomCode && entry.user_id === userId
+        );
+      },
+
+      async list(roomCode) {
+        return roomLobby
+          .filter((entry) => entry.room_code === roomCode)
+          .sort((a, b) => a.requested_at.localeCompare(b.requested_at))
+          .map((entry) => ({
+            id: entry.user_id,
+            displayName: displayNameOf(entry.user_id),
+            requestedAt: entry.requested_at,
+          }));
+      },
+    },
+
+    inviteUses: {
+      async redeem(inviteId, roomCode, userId, maxUses) {
+        const uses = inviteUses.filter((use) => use.invite_id === inviteId);
+        if (uses.some((use) => use.user_id === userId)) return true;
+        if (maxUses !== null && uses.length >= maxUses) return false;
+        inviteUses.push({
+          invite_id: inviteId,
+          room_code: roomCode,
+          user_id: userId,
+          used_at: new Date().toISOString(),
+        });
+        return true;
+      },
+
+      async count(inviteId) {
+        return inviteUses.filter((use) => use.invite_id === inviteId).length;
+      },
+    },
+
+    messages: {
+      // The in-process fallback: scans every message in the given rooms
+      async search({ terms, roomCodes, speakerId, from, to, limit }) {
+        const hits: MessageSearchHit[] = [];
+        const candidates = messages
+          .filter(
+            (message) =>
+              roomCodes.includes(message.room_code) &&
+              (!speakerId || message.user_id === speakerId) &&
+              (!from || message.created_at >= from) &&
+              (!to || message.created_at <= to)
+          )
+          .sort(byCreatedAt)
+          .reverse();
+
+        for (const message of candidates) {
+          const ranges = matchSearchTerms(message.content, terms);
+          if (!ranges) continue;
+          hits.push({
+            ...message,
+            display_name: displayNameOf(message.user_id),
+            snippet: buildSnippet(message.content, ranges),
+          });
+          if (hits.length === limit) break;
+        }
+        return hits;
+      },
+
+      async listPage(roomCode, { before, after, limit }) {
+        const all = await this.listByRoom(roomCode);
+        const cursor = before ?? after;
+        const index = cursor
+          ? all.findIndex((message) => message.id === cursor)
+          : all.length;
+        if (index === -1) return { messages: [], hasMore: false };
+
+        if (after) {
+          const newer = all.slice(index + 1);
+          return { messages: newer.slice(0, limit), hasMore: newer.length > limit };
+        }
+        const older = all.slice(0, index);
+        return {
+          messages: older.slice(Math.max(0, older.length - limit)),
+          hasMore: older.length > limit,
+        };
+      },
+
+      async listByRoom(roomCode) {
+        return messages
+          .filter((message) => message.room_code === roomCode)
+          .sort(byCreatedAt)
+          .map((message) => ({
+            ...message,
+            display_name: displayNameOf(message.user_id),
+          }));
+      },
+
+      async create({ roomCode, userId, content, kind = "typed", speech = {} }) {
+        const message: MessageRow = {
+          id: randomUUID(),
+          room_code: roomCode,
+          user_id: userId,
+          content,
+          created_at: new Date().toISOString(),
+          edited_at: null,
+          deleted_at: null,
+          kind,
+          confidence: speech.confidence ?? null,
+          language: speech.language ?? null,
+          utterance_start_at: speech.utteranceStart ?? null,
+          utterance_end_at: speech.utteranceEnd ?? null,
+          word_timings: speech.words ?? null,
+        };
+        messages.push(message);
+        return message;
+      },
+
+      async findById(id) {
+        return messages.find((message) => message.id === id) ?? null;
+      },
+
+      async edit(id, content) {
+        const message = messages.find((row) => row.id === id);
+        if (!message) throw new Error(`Message ${id} not found`);
+        const editedAt = new Date().toISOString();
+        messageEdits.push({
+          id: randomUUID(),
+          message_id: id,
+          previous_content: message.content,
+          edited_at: editedAt,
+        });
+        message.content = content;
+        message.edited_at = editedAt;
+        message.word_timings = null;
+        return message;
+      },
+
+      async softDelete(id) {
+        const message = messages.find((row) => row.id === id);
+        if (!message) throw new Error(`Message ${id} not found`);
+        const deletedAt = new Date().toISOString();
+        messageEdits.push({
+          id: randomUUID(),
+          message_id: id,
+          previous_content: message.content,
+          edited_at: deletedAt,
+        });
+        message.content = "";
+        message.deleted_at = deletedAt;
+        message.word_timings = null;
+        return message;
+      },
+
+      async listEdits(messageId) {
+        return messageEdits
+          .filter((row) => row.message_id === messageId)
+          .sort((a, b) => a.edited_at.localeCompare(b.edited_at));
+      },
+    },
+
+    messageReactions: {
+      async add(messageId, userId, emoji) {
+        if (await this.has(messageId, userId, emoji)) return;
+        messageReactions.push({
+          message_id: messageId,
+          user_id: userId,
+          emoji,
+          created_at: new Date().toISOString(),
+        });
+      },
+
+      async remove(messageId, userId, emoji) {
+        const index = messageReactions.findIndex(
+          (row) =>
+            row.message_id === messageId && row.user_id === userId && row.emoji === emoji
+        );
+        if (index !== -1) messageReactions.splice(index, 1);
+      },
+
+      async has(messageId, userId, emoji) {
+        return messageReactions.some(
+          (row) =>
+            row.message_id === messageId && row.user_id === userId && row.emoji === emoji
+        );
+      },
+
+      async listForMessages(messageIds) {
+        return messageReactions
+          .filter((row) => messageIds.includes(row.message_id))
+          .sort(byCreatedAt);
+      },
+    },
+
+    messageTranslations: {
+      async listForMessages(messageIds, language) {
+        return messageTranslations.filter(
+          (row) => messageIds.includes(row.message_id) && row.language === language
+        );
+      },
+
+      async save(messageId, language, content) {
+        const existing = messageTranslations.find(
+          (row) => row.message_id === messageId && row.language === language
+        );
+        if (existing) {
+          existing.content = content;
+          return;
+        }
+        messageTranslations.push({
+          message_id: messageId,
+          language,
+          content,
+          created_at: new Date().toISOString(),
+        });
+      },
+
+      async deleteForMessage(messageId) {
+        for (let i = messageTranslations.length - 1; i >= 0; i--) {
+          if (messageTranslations[i].message_id === messageId) {
+            messageTranslations.splice(i, 1);
+          }
+        }
+      },
+    },
+
+    speechSegments: {
+      async saveFinal({ roomCode, speakerId, segmentId, seq, content, createdAt }) {
+        const existing = speechSegments.find(
+          (segment) =>
+            segment.room_code === roomCode &&
+            segment.speaker_id === speakerId &&
+            segment.segment_id === segmentId
+        );
+        if (existing) {
+          existing.seq = seq;
+          existing.content = content;
+          return;
+        }
+        speechSegments.push({
+          id: randomUUID(),
+          room_code: roomCode,
+          speaker_id: speakerId,
+          segment_id: segmentId,
+          seq,
+          content,
+          created_at: createdAt,
+        });
+      },
+
+      async listByRoom(roomCode) {
+        return speechSegments
+          .filter((segment) => segment.room_code === roomCode)
+          .sort(byCreatedAt)
+          .map((segment) => ({
+            ...segment,
+            display_name: displayNameOf(segment.speaker_id),
+          }));
+      },
+    },
+  };
+}
@@ -0,0 +1,609 @@
+import pg from "pg";
+import { readdir, readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { expiredGuestName } from "./guests";
+import type { Store } from "./types";
+import {
+  HEADLINE_START,
+  HEADLINE_STOP,
+  parseHeadline,
+  toTsQuery,
+} from "../utils/search";
+
+// Return timestamps as ISO strings, matching what Supabase hands back
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, (value) =>
+  new Date(value).toISOString()
+);
+
+const MIGRATIONS_DIR = fileURLToPath(
+  new URL("../../supabase/migrations", import.meta.url)
+);
+
+/**
+ * Applies every file in supabase/migrations that has not run yet, in
+ * filename order. Applied files are tracked in schema_migrations.
+ */
+export async function applyMigrations(pool: pg.Pool): Promise<string[]> {
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`
+  );
+  const { rows } = await pool.query<{ name: string }>(
+    "SELECT name FROM schema_migrations"
+  );
+  const applied = new Set(rows.map((row) => row.name));
+
+  const files = (await readdir(MIGRATIONS_DIR))
+    .filter((file) => file.endsWith(".sql"))
+    .sort();
+  const ran: string[] = [];
+
+  for (const file of files) {
+    if (applied.has(file)) continue;
+    const sql = await readFile(`${MIGRATIONS_DIR}/${file}`, "utf8");
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(sql);
+      await client.query("INSERT INTO schema_migrations (name) VALUES ($1)", [
+        file,
+      ]);
+      await client.query("COMMIT");
+      ran.push(file);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return ran;
+}
+
+export function createPostgresStore(pool: pg.Pool): Store {
+  return {
+    users: {
+      async findById(id) {
+        const { rows } = await pool.query("SELECT * FROM users WHERE id = $1", [
+          id,
+        ]);
+        return rows[0] ?? null;
+      },
+
+      async findByDisplayName(displayName) {
+        const { rows } = await pool.query(
+          "SELECT * FROM users WHERE display_name = $1",
+          [displayName]
+        );
+        return rows[0] ?? null;
+      },
+
+      async create({ displayName, passwordHash, guestExpiresAt = null }) {
+        const { rows } = await pool.query(
+          `INSERT INTO users (display_name, password_hash, guest_expires_at)
+           VALUES ($1, $2, $3) RETURNING *`,
+          [displayName, passwordHash, guestExpiresAt]
+        );
+        return rows[0];
+      },
+
+      async releaseGuestName(displayName, now) {
+        const { rows } = await pool.query(
+          `SELECT id FROM users
+           WHERE display_name = $1 AND guest_expires_at < $2`,
+          [displayName, now]
+        );
+        if (!rows[0]) return;
+        await pool.query("UPDATE users SET display_name = $2 WHERE id = $1", [
+          rows[0].id,
+          expiredGuestName(rows[0].id),
+        ]);
+      },
+
+      // One statement, so two registrations can't both claim the account
+      async claimLegacyAccount(displayName, passwordHash) {
+        const { rows } = await pool.query(
+          `UPDATE users SET password_hash = $2
+           WHERE display_name = $1 AND password_hash IS NULL AND guest_expires_at IS NULL
+           RETURNING *`,
+          [displayName, passwordHash]
+        );
+        return rows[0] ?? null;
+      },
+
+      async setSpeechLanguage(id, language) {
+        const { rows } = await pool.query(
+          "UPDATE users SET speech_language = $2 WHERE id = $1 RETURNING *",
+          [id, language]
+        );
+        if (!rows[0]) throw new Error(`User ${id} not found`);
+        return rows[0];
+      },
+    },
+
+    rooms: {
+      async create({
+        code,
+        creatorId,
+        qrCode,
+        passphraseHash = null,
+        lobbyEnabled = false,
+        inviteOnly = false,
+      }) {
+        const { rows } = await pool.query(
+          `INSERT INTO rooms
+             (code, creator_id, qr_code, passphrase_hash, lobby_enabled, invite_only)
+           VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+          [code, creatorId, qrCode, passphraseHash, lobbyEnabled, inviteOnly]
+        );
+        return rows[0];
+      },
+
+      async findByCode(code) {
+        const { rows } = await pool.query(
+          "SELECT * FROM rooms WHERE code = $1",
+          [code]
+        );
+        return rows[0] ?? null;
+      },
+
+      async setActive(code, active) {
+        await pool.query("UPDATE rooms SET active = $2 WHERE code = $1", [
+          code,
+          active,
+        ]);
+      },
+
+      async setLocked(code, locked) {
+        await pool.query("UPDATE rooms SET locked = $2 WHERE code = $1", [
+          code,
+          locked,
+        ]);
+      },
+
+      async setMediaMode(code, mode) {
+        await pool.query("UPDATE rooms SET media_mode = $2 WHERE code = $1", [
+          code,
+          mode,
+        ]);
+      },
+
+      async touch(code) {
+        await pool.query(
+          "UPDATE rooms SET last_active_at = now() WHERE code = $1",
+          [code]
+        );
+      },
+
+      async listCodesForUser(userId) {
+        const { rows } = await pool.query<{ code: string }>(
+          `SELECT code FROM rooms WHERE creator_id = $1
+           UNION SELECT room_code FROM room_members WHERE user_id = $1
+           UNION SELECT room_code FROM messages WHERE user_id = $1`,
+          [userId]
+        );
+        return rows.map((row) => row.code);
+      },
+
+      async listIdle(before) {
+        const { rows } = await pool.query(
+          "SELECT * FROM rooms WHERE active AND last_active_at < $1",
+          [before]
+        );
+        return rows;
+      },
+    },
+
+    roomMembers: {
+      async find(roomCode, userId) {
+        const { rows } = await pool.query(
+          "SELECT * FROM room_members WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return rows[0] ?? null;
+      },
+
+      async add(roomCode, userId, role = "participant") {
+        await pool.query(
+          `INSERT INTO room_members (room_code, user_id, role) VALUES ($1, $2, $3)
+           ON CONFLICT (room_code, user_id) DO NOTHING`,
+          [roomCode, userId, role]
+        );
+      },
+
+      async remove(roomCode, userId) {
+        await pool.query(
+          "DELETE FROM room_members WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+      },
+
+      async setRole(roomCode, userId, role) {
+        await pool.query(
+          "UPDATE room_members SET role = $3 WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId, role]
+        );
+      },
+
+      async list(roomCode) {
+        const { rows } = await pool.query(
+          `SELECT u.id, u.display_name AS "displayName", rm.role,
+             EXISTS (
+               SELECT 1 FROM room_mutes m
+               WHERE m.room_code = rm.room_code AND m.user_id = rm.user_id
+             ) AS muted
+           FROM room_members rm JOIN users u ON u.id = rm.user_id
+           WHERE rm.room_code = $1
+           ORDER BY rm.joined_at ASC`,
+          [roomCode]
+        );
+        return rows;
+      },
+    },
+
+    roomBans: {
+      async ban(roomCode, userId, bannedBy) {
+        await pool.query(
+          `INSERT INTO room_bans (room_code, user_id, banned_by) VALUES ($1, $2, $3)
+           ON CONFLICT (room_code, user_id) DO NOTHING`,
+          [roomCode, userId, bannedBy]
+        );
+      },
+
+      async isBanned(roomCode, userId) {
+        const { rowCount } = await pool.query(
+          "SELECT 1 FROM room_bans WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+    },
+
+    roomMutes: {
+      async mute(roomCode, userId, mutedBy) {
+        await pool.query(
+          `INSERT INTO room_mutes (room_code, user_id, muted_by) VALUES ($1, $2, $3)
+           ON CONFLICT (room_code, user_id) DO NOTHING`,
+          [roomCode, userId, mutedBy]
+        );
+      },
+
+      async unmute(roomCode, userId) {
+        const { rowCount } = await pool.query(
+          "DELETE FROM room_mutes WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+
+      async find(roomCode, userId) {
+        const { rows } = await pool.query(
+          "SELECT * FROM room_mutes WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return rows[0] ?? null;
+      },
+    },
+
+    roomInvites: {
+      async add(roomCode, userIds, invitedBy) {
+        if (userIds.length === 0) return;
+        await pool.query(
+          `INSERT INTO room_invites (room_code, user_id, invited_by)
+           SELECT $1, unnest($2::uuid[]), $3
+           ON CONFLICT (room_code, user_id) DO NOTHING`,
+          [roomCode, userIds, invitedBy]
+        );
+      },
+
+      async isInvited(roomCode, userId) {
+        const { rowCount } = await pool.query(
+          "SELECT 1 FROM room_invites WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+    },
+
+    roomLobby: {
+      async add(roomCode, userId) {
+        await pool.query(
+          `INSERT INTO room_lobby (room_code, user_id) VALUES ($1, $2)
+           ON CONFLICT (room_code, user_id) DO NOTHING`,
+          [roomCode, userId]
+        );
+      },
+
+      async remove(roomCode, userId) {
+        const { rowCount } = await pool.query(
+          "DELETE FROM room_lobby WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+
+      async has(roomCode, userId) {
+        const { rowCount } = await pool.query(
+          "SELECT 1 FROM room_lobby WHERE room_code = $1 AND user_id = $2",
+          [roomCode, userId]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+
+      async list(roomCode) {
+        const { rows } = await pool.query(
+          `SELECT u.id, u.display_name AS "displayName", l.requested_at AS "requestedAt"
+           FROM room_lobby l JOIN users u ON u.id = l.user_id
+           WHERE l.room_code = $1
+           ORDER BY l.requested_at ASC`,
+          [roomCode]
+        );
+        return rows;
+      },
+    },
+
+    inviteUses: {
+      // Uses of one invite are counted under a lock on it, so concurrent
+      // joins can't both take its last use
+      async redeem(inviteId, roomCode, userId, maxUses) {
+        const client = await pool.connect();
+        try {
+          await client.query("BEGIN");
+          await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [inviteId]);
+          const { rows } = await client.query(
+            `SELECT COUNT(*)::int AS uses, BOOL_OR(user_id = $2) AS used
+             FROM invite_uses WHERE invite_id = $1`,
+            [inviteId, userId]
+          );
+          const { uses, used } = rows[0];
+          const redeemed = used === true || maxUses === null || uses < maxUses;
+          if (redeemed && !used) {
+            await client.query(
+              `INSERT INTO invite_uses (invite_id, room_code, user_id) VALUES ($1, $2, $3)
+               ON CONFLICT (invite_id, user_id) DO NOTHING`,
+              [inviteId, roomCode, userId]
+            );
+          }
+          await client.query("COMMIT");
+          return redeemed;
+        } catch (error) {
+          await client.query("ROLLBACK");
+          throw error;
+        } finally {
+          client.release();
+        }
+      },
+
+      async count(inviteId) {
+        const { rows } = await pool.query(
+          "SELECT COUNT(*)::int AS uses FROM invite_uses WHERE invite_id = $1",
+          [inviteId]
+        );
+        return rows[0].uses;
+      },
+    },
+
+    messages: {
+      async listByRoom(roomCode) {
+        const { rows } = await pool.query(
+          `SELECT m.*, COALESCE(u.display_name, 'Unknown User') AS display_name
+           FROM messages m LEFT JOIN users u ON u.id = m.user_id
+           WHERE m.room_code = $1
+           ORDER BY m.created_at ASC`,
+          [roomCode]
+        );
+        return rows;
+      },
+
+      async search({ terms, roomCodes, speakerId, from, to, limit }) {
+        const { rows } = await pool.query(
+          `SELECT m.*, COALESCE(u.display_name, 'Unknown User') AS display_name,
+                  ts_headline('simple', m.content, q.query, $7) AS headline
+           FROM messages m
+           LEFT JOIN users u ON u.id = m.user_id,
+           to_tsquery('simple', $1) AS q(query)
+           WHERE to_tsvector('simple', m.content) @@ q.query
+             AND m.room_code = ANY($2)
+             AND ($3::uuid IS NULL OR m.user_id = $3)
+             AND ($4::timestamptz IS NULL OR m.created_at >= $4)
+             AND ($5::timestamptz IS NULL OR m.created_at <= $5)
+           ORDER BY m.created_at DESC
+           LIMIT $6`,
+          [
+            toTsQuery(terms),
+            roomCodes,
+            speakerId ?? null,
+            from ?? null,
+            to ?? null,
+            limit,
+            `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, ` +
+              "MinWords=15, MaxWords=35, ShortWord=0",
+          ]
+        );
+        return rows.map(({ headline, ...message }) => ({
+          ...message,
+          snippet: parseHeadline(headline),
+        }));
+      },
+
+      async listPage(roomCode, { before, after, limit }) {
+        // Keyset on (created_at, id); fetch one extra row to learn hasMore
+        const cursor = before ?? after;
+        const newer = Boolean(after);
+        const { rows } = await pool.query(
+          `SELECT m.*, COALESCE(u.display_name, 'Unknown User') AS display_name
+           FROM messages m LEFT JOIN users u ON u.id = m.user_id
+           WHERE m.room_code = $1
+             ${
+               cursor
+                 ? `AND (m.created_at, m.id) ${newer ? ">" : "<"}
+                    (SELECT created_at, id FROM messages
+                     WHERE id = $3 AND room_code = $1)`
+                 : ""
+             }
+           ORDER BY m.created_at ${newer ? "ASC" : "DESC"}, m.id ${newer ? "ASC" : "DESC"}
+           LIMIT $2`,
+          cursor ? [roomCode, limit + 1, cursor] : [roomCode, limit + 1]
+        );
+        const page = rows.slice(0, limit);
+        return {
+          messages: newer ? page : page.reverse(),
+          hasMore: rows.length > limit,
+        };
+      },
+
+      async create({ roomCode, userId, content, kind = "typed", speech = {} }) {
+        const { rows } = await pool.query(
+          `INSERT INTO messages
+             (room_code, user_id, content, kind, confidence, language,
+              utterance_start_at, utterance_end_at, word_timings)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+          [
+            roomCode,
+            userId,
+            content,
+            kind,
+            speech.confidence ?? null,
+            speech.language ?? null,
+            speech.utteranceStart ?? null,
+            speech.utteranceEnd ?? null,
+            speech.words ? JSON.stringify(speech.words) : null,
+          ]
+        );
+        return rows[0];
+      },
+
+      async findById(id) {
+        const { rows } = await pool.query("SELECT * FROM messages WHERE id = $1", [
+          id,
+        ]);
+        return rows[0] ?? null;
+      },
+
+      async edit(id, content) {
+        // The CTE reads the row before the update changes it
+        const { rows } = await pool.query(
+          `WITH previous AS (
+             INSERT INTO message_edits (message_id, previous_content)
+             SELECT id, content FROM messages WHERE id = $1
+           )
+           UPDATE messages SET content = $2, edited_at = now(), word_timings = NULL
+           WHERE id = $1 RETURNING *`,
+          [id, content]
+        );
+        return rows[0];
+      },
+
+      async softDelete(id) {
+        const { rows } = await pool.query(
+          `WITH previous AS (
+             INSERT INTO message_edits (message_id, previous_content)
+             SELECT id, content FROM messages WHERE id = $1
+           )
+           UPDATE messages SET content = '', deleted_at = now(), word_timings = NULL
+           WHERE id = $1 RETURNING *`,
+          [id]
+        );
+        return rows[0];
+      },
+
+      async listEdits(messageId) {
+        const { rows } = await pool.query(
+          `SELECT * FROM message_edits WHERE message_id = $1
+           ORDER BY edited_at ASC`,
+          [messageId]
+        );
+        return rows;
+      },
+    },
+
+    messageReactions: {
+      async add(messageId, userId, emoji) {
+        await pool.query(
+          `INSERT INTO message_reactions (message_id, user_id, emoji)
+           VALUES ($1, $2, $3) ON CONFLICT DO NOTHING`,
+          [messageId, userId, emoji]
+        );
+      },
+
+      async remove(messageId, userId, emoji) {
+        await pool.query(
+          `DELETE FROM message_reactions
+           WHERE message_id = $1 AND user_id = $2 AND emoji = $3`,
+          [messageId, userId, emoji]
+        );
+      },
+
+      async has(messageId, userId, emoji) {
+        const { rowCount } = await pool.query(
+          `SELECT 1 FROM message_reactions
+           WHERE message_id = $1 AND user_id = $2 AND emoji = $3`,
+          [messageId, userId, emoji]
+        );
+        return (rowCount ?? 0) > 0;
+      },
+
+      async listForMessages(messageIds) {
+        const { rows } = await pool.query(
+          `SELECT * FROM message_reactions WHERE message_id = ANY($1)
+           ORDER BY created_at ASC`,
+          [messageIds]
+        );
+        return rows;
+      },
+    },
+
+    messageTranslations: {
+      async listForMessages(messageIds, language) {
+        const { rows } = await pool.query(
+          `SELECT * FROM message_translations
+           WHERE message_id = ANY($1) AND language = $2`,
+          [messageIds, language]
+        );
+        return rows;
+      },
+
+      async save(messageId, language, content) {
+        await pool.query(
+          `INSERT INTO message_translations (message_id, language, content)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (message_id, language) DO UPDATE SET content = EXCLUDED.content`,
+          [messageId, language, content]
+        );
+      },
+
+      async deleteForMessage(messageId) {
+        await pool.query(`DELETE FROM message_translations WHERE message_id = $1`, [
+          messageId,
+        ]);
+      },
+    },
+
+    speechSegments: {
+      async saveFinal({ roomCode, speakerId, segmentId, seq, content, createdAt }) {
+        await pool.query(
+          `INSERT INTO speech_segments
+             (room_code, speaker_id, segment_id, seq, content, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (room_code, speaker_id, segment_id)
+           DO UPDATE SET seq = EXCLUDED.seq, content = EXCLUDED.content`,
+          [roomCode, speakerId, segmentId, seq, content, createdAt]
+        );
+      },
+
+      async listByRoom(roomCode) {
+        const { rows } = await pool.query(
+          `SELECT s.*, COALESCE(u.display_name, 'Unknown User') AS display_name
+           FROM speech_segments s LEFT JOIN users u ON u.id = s.speaker_id
+           WHERE s.room_code = $1
+           ORDER BY s.created_at ASC`,
+          [roomCode]
+        );
+        return rows;
+      },
+    },
+  };
+}
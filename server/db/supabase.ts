@@ -0,0 +1,752 @@
+import { createClient } from "@supabase/supabase-js";
+import type {
+  MessageRow,
+  MessageWithAuthor,
+  RoomParticipant,
+  RoomRole,
+  SpeechSegmentRow,
+  SpeechSegmentWithSpeaker,
+  Store,
+  WaitingUser,
+} from "./types";
+
+import { expiredGuestName } from "./guests";
+import { buildSnippet, matchSearchTerms, toTsQuery } from "../utils/search";
+
+// Embedded user rows come back as an object for many-to-one joins
+type WithUser<T> = T & { users: { display_name: string } | null };
+
+// PostgREST caps the rows one request returns, so reads of a whole room
+// go a page at a time
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, fetching `page(from, to)` until one comes back
+ * short. The query must have a total order, or rows can be skipped.
+ */
+async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function createSupabaseStore(url: string, key: string): Store {
+  const supabase = createClient(url, key);
+
+  // PostgREST has no transactions, so the old content is copied into the
+  // history first; a failed update leaves an extra history row at worst
+  const replaceContent = async (
+    id: string,
+    changes: Partial<
+      Pick<MessageRow, "content" | "edited_at" | "deleted_at" | "word_timings">
+    >
+  ): Promise<MessageRow> => {
+    const { data: current, error: readError } = await supabase
+      .from("messages")
+      .select("content")
+      .eq("id", id)
+      .single();
+    if (readError) throw readError;
+
+    const { error: historyError } = await supabase
+      .from("message_edits")
+      .insert([{ message_id: id, previous_content: current.content }]);
+    if (historyError) throw historyError;
+
+    const { data, error } = await supabase
+      .from("messages")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  };
+
+  return {
+    users: {
+      async findById(id) {
+        const { data, error } = await supabase
+          .from("users")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async findByDisplayName(displayName) {
+        const { data, error } = await supabase
+          .from("users")
+          .select("*")
+          .eq("display_name", displayName)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async create({ displayName, passwordHash, guestExpiresAt = null }) {
+        const { data, error } = await supabase
+          .from("users")
+          .insert([
+            {
+              display_name: displayName,
+              password_hash: passwordHash,
+              guest_expires_at: guestExpiresAt,
+            },
+          ])
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+
+      async releaseGuestName(displayName, now) {
+        const { data, error } = await supabase
+          .from("users")
+          .select("id")
+          .eq("display_name", displayName)
+          .lt("guest_expires_at", now)
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) return;
+        const { error: renameError } = await supabase
+          .from("users")
+          .update({ display_name: expiredGuestName(data.id) })
+          .eq("id", data.id);
+        if (renameError) throw renameError;
+      },
+
+      async claimLegacyAccount(displayName, passwordHash) {
+        const { data, error } = await supabase
+          .from("users")
+          .update({ password_hash: passwordHash })
+          .eq("display_name", displayName)
+          .is("password_hash", null)
+          .is("guest_expires_at", null)
+          .select()
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async setSpeechLanguage(id, language) {
+        const { data, error } = await supabase
+          .from("users")
+          .update({ speech_language: language })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    rooms: {
+      async create({
+        code,
+        creatorId,
+        qrCode,
+        passphraseHash = null,
+        lobbyEnabled = false,
+        inviteOnly = false,
+      }) {
+        const { data, error } = await supabase
+          .from("rooms")
+          .insert([
+            {
+              code,
+              creator_id: creatorId,
+              qr_code: qrCode,
+              passphrase_hash: passphraseHash,
+              lobby_enabled: lobbyEnabled,
+              invite_only: inviteOnly,
+            },
+          ])
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+
+      async findByCode(code) {
+        const { data, error } = await supabase
+          .from("rooms")
+          .select("*")
+          .eq("code", code)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async setActive(code, active) {
+        const { error } = await supabase
+          .from("rooms")
+          .update({ active })
+          .eq("code", code);
+        if (error) throw error;
+      },
+
+      async setLocked(code, locked) {
+        const { error } = await supabase
+          .from("rooms")
+          .update({ locked })
+          .eq("code", code);
+        if (error) throw error;
+      },
+
+      async setMediaMode(code, mode) {
+        const { error } = await supabase
+          .from("rooms")
+          .update({ media_mode: mode })
+          .eq("code", code);
+        if (error) throw error;
+      },
+
+      async touch(code) {
+        const { error } = await supabase
+          .from("rooms")
+          .update({ last_active_at: new Date().toISOString() })
+          .eq("code", code);
+        if (error) throw error;
+      },
+
+      async listCodesForUser(userId) {
+        const [created, joined, posted] = await Promise.all([
+          supabase.from("rooms").select("room_code:code").eq("creator_id", userId),
+          supabase.from("room_members").select("room_code").eq("user_id", userId),
+          supabase.from("messages").select("room_code").eq("user_id", userId),
+        ]);
+        const codes = new Set<string>();
+        for (const { data, error } of [created, joined, posted]) {
+          if (error) throw error;
+          data.forEach((row) => codes.add(row.room_code));
+        }
+        return Array.from(codes);
+      },
+
+      async listIdle(before) {
+        const { data, error } = await supabase
+          .from("rooms")
+          .select("*")
+          .eq("active", true)
+          .lt("last_active_at", before);
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    roomMembers: {
+      async find(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_members")
+          .select("*")
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async add(roomCode, userId, role = "participant") {
+        const { error } = await supabase
+          .from("room_members")
+          .upsert([{ room_code: roomCode, user_id: userId, role }], {
+            onConflict: "room_code,user_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      },
+
+      async remove(roomCode, userId) {
+        const { error } = await supabase
+          .from("room_members")
+          .delete()
+          .eq("room_code", roomCode)
+          .eq("user_id", userId);
+        if (error) throw error;
+      },
+
+      async setRole(roomCode, userId, role) {
+        const { error } = await supabase
+          .from("room_members")
+          .update({ role })
+          .eq("room_code", roomCode)
+          .eq("user_id", userId);
+        if (error) throw error;
+      },
+
+      async list(roomCode): Promise<RoomParticipant[]> {
+        const { data, error } = await supabase
+          .from("room_members")
+          .select("role, user:users(id, display_name)")
+          .eq("room_code", roomCode)
+          .order("joined_at", { ascending: true });
+        if (error) throw error;
+
+        const { data: mutes, error: mutesError } = await supabase
+          .from("room_mutes")
+          .select("user_id")
+          .eq("room_code", roomCode);
+        if (mutesError) throw mutesError;
+        const mutedIds = new Set(mutes.map((mute) => mute.user_id as string));
+
+        const members = data as unknown as {
+          role: RoomRole;
+          user: { id: string; display_name: string };
+        }[];
+        return members.map((member) => ({
+          id: member.user.id,
+          displayName: member.user.display_name,
+          role: member.role,
+          muted: mutedIds.has(member.user.id),
+        }));
+      },
+    },
+
+    roomBans: {
+      async ban(roomCode, userId, bannedBy) {
+        const { error } = await supabase
+          .from("room_bans")
+          .upsert([{ room_code: roomCode, user_id: userId, banned_by: bannedBy }], {
+            onConflict: "room_code,user_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      },
+
+      async isBanned(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_bans")
+          .select("user_id")
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data !== null;
+      },
+    },
+
+    roomMutes: {
+      async mute(roomCode, userId, mutedBy) {
+        const { error } = await supabase
+          .from("room_mutes")
+          .upsert([{ room_code: roomCode, user_id: userId, muted_by: mutedBy }], {
+            onConflict: "room_code,user_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      },
+
+      async unmute(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_mutes")
+          .delete()
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .select("user_id");
+        if (error) throw error;
+        return data.length > 0;
+      },
+
+      async find(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_mutes")
+          .select("*")
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    roomInvites: {
+      async add(roomCode, userIds, invitedBy) {
+        if (userIds.length === 0) return;
+        const { error } = await supabase.from("room_invites").upsert(
+          userIds.map((userId) => ({
+            room_code: roomCode,
+            user_id: userId,
+            invited_by: invitedBy,
+          })),
+          { onConflict: "room_code,user_id", ignoreDuplicates: true }
+        );
+        if (error) throw error;
+      },
+
+      async isInvited(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_invites")
+          .select("user_id")
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data !== null;
+      },
+    },
+
+    roomLobby: {
+      async add(roomCode, userId) {
+        const { error } = await supabase
+          .from("room_lobby")
+          .upsert([{ room_code: roomCode, user_id: userId }], {
+            onConflict: "room_code,user_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      },
+
+      async remove(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_lobby")
+          .delete()
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .select("user_id");
+        if (error) throw error;
+        return data.length > 0;
+      },
+
+      async has(roomCode, userId) {
+        const { data, error } = await supabase
+          .from("room_lobby")
+          .select("user_id")
+          .eq("room_code", roomCode)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data !== null;
+      },
+
+      async list(roomCode): Promise<WaitingUser[]> {
+        const { data, error } = await supabase
+          .from("room_lobby")
+          .select("requested_at, user:users(id, display_name)")
+          .eq("room_code", roomCode)
+          .order("requested_at", { ascending: true });
+        if (error) throw error;
+
+        const entries = data as unknown as {
+          requested_at: string;
+          user: { id: string; display_name: string };
+        }[];
+        return entries.map((entry) => ({
+          id: entry.user.id,
+          displayName: entry.user.display_name,
+          requestedAt: entry.requested_at,
+        }));
+      },
+    },
+
+    inviteUses: {
+      // Without transactions the count and insert can race, so concurrent
+      // joins may overshoot maxUses; the postgres store locks instead
+      async redeem(inviteId, roomCode, userId, maxUses) {
+        const { data: used, error: usedError } = await supabase
+          .from("invite_uses")
+          .select("user_id")
+          .eq("invite_id", inviteId)
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (usedError) throw usedError;
+        if (used) return true;
+
+        if (maxUses !== null) {
+          const { count, error: countError } = await supabase
+            .from("invite_uses")
+            .select("*", { count: "exact", head: true })
+            .eq("invite_id", inviteId);
+          if (countError) throw countError;
+          if ((count ?? 0) >= maxUses) return false;
+        }
+
+        const { error } = await supabase
+          .from("invite_uses")
+          .upsert([{ invite_id: inviteId, room_code: roomCode, user_id: userId }], {
+            onConflict: "invite_id,user_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+        return true;
+      },
+
+      async count(inviteId) {
+        const { count, error } = await supabase
+          .from("invite_uses")
+          .select("*", { count: "exact", head: true })
+          .eq("invite_id", inviteId);
+        if (error) throw error;
+        return count ?? 0;
+      },
+    },
+
+    messages: {
+      async listByRoom(roomCode): Promise<MessageWithAuthor[]> {
+        const data = await fetchAllPages((from, to) =>
+          supabase
+            .from("messages")
+            .select("*, users(display_name)")
+            .eq("room_code", roomCode)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+        );
+
+        return (data as WithUser<MessageRow>[]).map(
+          ({ users, ...message }) => ({
+            ...message,
+            display_name: users?.display_name || "Unknown User",
+          })
+        );
+      },
+
+      // PostgREST can't call ts_headline, so snippets are cut in process
+      async search({ terms, roomCodes, speakerId, from, to, limit }) {
+        let query = supabase
+          .from("messages")
+          .select("*, users(display_name)")
+          .in("room_code", roomCodes)
+          .textSearch("content", toTsQuery(terms), { config: "simple" });
+        if (speakerId) query = query.eq("user_id", speakerId);
+        if (from) query = query.gte("created_at", from);
+        if (to) query = query.lte("created_at", to);
+
+        const { data, error } = await query
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+
+        return (data as WithUser<MessageRow>[]).map(({ users, ...message }) => ({
+          ...message,
+          display_name: users?.display_name || "Unknown User",
+          snippet: buildSnippet(
+            message.content,
+            matchSearchTerms(message.content, terms) ?? []
+          ),
+        }));
+      },
+
+      async listPage(roomCode, { before, after, limit }) {
+        const cursorId = before ?? after;
+        const newer = Boolean(after);
+
+        let query = supabase
+          .from("messages")
+          .select("*, users(display_name)")
+          .eq("room_code", roomCode);
+
+        if (cursorId) {
+          const { data: cursor, error } = await supabase
+            .from("messages")
+            .select("id, created_at")
+            .eq("id", cursorId)
+            .eq("room_code", roomCode)
+            .maybeSingle();
+          if (error) throw error;
+          if (!cursor) return { messages: [], hasMore: false };
+
+          // Keyset on (created_at, id)
+          const op = newer ? "gt" : "lt";
+          query = query.or(
+            `created_at.${op}."${cursor.created_at}",` +
+              `and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`
+          );
+        }
+
+        // Fetch one extra row to learn whether there is more to page through
+        const { data, error } = await query
+          .order("created_at", { ascending: newer })
+          .order("id", { ascending: newer })
+          .limit(limit + 1);
+        if (error) throw error;
+
+        const page = (data as WithUser<MessageRow>[])
+          .slice(0, limit)
+          .map(({ users, ...message }) => ({
+            ...message,
+            display_name: users?.display_name || "Unknown User",
+          }));
+        return {
+          messages: newer ? page : page.reverse(),
+          hasMore: data.length > limit,
+        };
+      },
+
+      async create({ roomCode, userId, content, kind = "typed", speech = {} }) {
+        const { data, error } = await supabase
+          .from("messages")
+          .insert([
+            {
+              room_code: roomCode,
+              user_id: userId,
+              content,
+              kind,
+              confidence: speech.confidence ?? null,
+              language: speech.language ?? null,
+              utterance_start_at: speech.utteranceStart ?? null,
+              utterance_end_at: speech.utteranceEnd ?? null,
+              word_timings: speech.words ?? null,
+            },
+          ])
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      },
+
+      async findById(id) {
+        const { data, error } = await supabase
+          .from("messages")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+        if (error) throw error;
+        return data;
+      },
+
+      async edit(id, content) {
+        return replaceContent(id, {
+          content,
+          edited_at: new Date().toISOString(),
+          word_timings: null,
+        });
+      },
+
+      async softDelete(id) {
+        return replaceContent(id, {
+          content: "",
+          deleted_at: new Date().toISOString(),
+          word_timings: null,
+        });
+      },
+
+      async listEdits(messageId) {
+        const { data, error } = await supabase
+          .from("message_edits")
+          .select("*")
+          .eq("message_id", messageId)
+          .order("edited_at", { ascending: true });
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    messageReactions: {
+      async add(messageId, userId, emoji) {
+        const { error } = await supabase
+          .from("message_reactions")
+          .upsert([{ message_id: messageId, user_id: userId, emoji }], {
+            onConflict: "message_id,user_id,emoji",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      },
+
+      async remove(messageId, userId, emoji) {
+        const { error } = await supabase
+          .from("message_reactions")
+          .delete()
+          .eq("message_id", messageId)
+          .eq("user_id", userId)
+          .eq("emoji", emoji);
+        if (error) throw error;
+      },
+
+      async has(messageId, userId, emoji) {
+        const { count, error } = await supabase
+          .from("message_reactions")
+          .select("*", { count: "exact", head: true })
+          .eq("message_id", messageId)
+          .eq("user_id", userId)
+          .eq("emoji", emoji);
+        if (error) throw error;
+        return (count ?? 0) > 0;
+      },
+
+      async listForMessages(messageIds) {
+        const { data, error } = await supabase
+          .from("message_reactions")
+          .select("*")
+          .in("message_id", messageIds)
+          .order("created_at", { ascending: true });
+        if (error) throw error;
+        return data;
+      },
+    },
+
+    messageTranslations: {
+      async listForMessages(messageIds, language) {
+        const { data, error } = await supabase
+          .from("message_translations")
+          .select("*")
+          .in("message_id", messageIds)
+          .eq("language", language);
+        if (error) throw error;
+        return data;
+      },
+
+      async save(messageId, language, content) {
+        const { error } = await supabase
+          .from("message_translations")
+          .upsert([{ message_id: messageId, language, content }], {
+            onConflict: "message_id,language",
+          });
+        if (error) throw error;
+      },
+
+      async deleteForMessage(messageId) {
+        const { error } = await supabase
+          .from("message_translations")
+          .delete()
+          .eq("message_id", messageId);
+        if (error) throw error;
+      },
+    },
+
+    speechSegments: {
+      async saveFinal({ roomCode, speakerId, segmentId, seq, content, createdAt }) {
+        const { error } = await supabase.from("speech_segments").upsert(
+          [
+            {
+              room_code: roomCode,
+              speaker_id: speakerId,
+              segment_id: segmentId,
+              seq,
+              content,
+              created_at: createdAt,
+            },
+          ],
+          { onConflict: "room_code,speaker_id,segment_id" }
+        );
+        if (error) throw error;
+      },
+
+      async listByRoom(roomCode): Promise<SpeechSegmentWithSpeaker[]> {
+        const data = await fetchAllPages((from, to) =>
+          supabase
+            .from("speech_segments")
+            .select("*, users(display_name)")
+            .eq("room_code", roomCode)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+        );
+
+        return (data as WithUser<SpeechSegmentRow>[]).map(
+          ({ users, ...segment }) => ({
+            ...segment,
+            display_name: users?.display_name || "Unknown User",
+          })
+        );
+      },
+    },
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Storage contracts shared by every backend (Supabase, Postgres, in-memory).
+ * Row types mirror the tables in supabase/migrations.
+ */
+
+export interface UserRow {
+  id: string;
+  display_name: string;
+  // Null for accounts created before password login existed, and guests
+  password_hash: string | null;
+  // When a guest's session ends; null for regular accounts
+  guest_expires_at: string | null;
+  created_at: string;
+  // BCP 47 tag; null means DEFAULT_SPEECH_LANGUAGE
+  speech_language: string | null;
+}
+
+export type RoomRole = "host" | "cohost" | "participant";
+
+export type MediaModeSetting = "auto" | "mesh" | "sfu";
+
+export interface RoomRow {
+  code: string;
+  creator_id: string;
+  qr_code: string;
+  created_at: string;
+  active: boolean;
+  // Locked rooms accept no new members
+  locked: boolean;
+  // Last time someone joined or the room emptied out
+  last_active_at: string;
+  media_mode: MediaModeSetting;
+  // Scrypt hash of the passphrase joiners must give; null when open
+  passphrase_hash: string | null;
+  // Joiners wait in room_lobby until a host or co-host admits them
+  lobby_enabled: boolean;
+  // Only users in room_invites may join
+  invite_only: boolean;
+}
+
+export interface RoomMemberRow {
+  id: string;
+  room_code: string;
+  user_id: string;
+  role: RoomRole;
+  joined_at: string;
+}
+
+export interface RoomBanRow {
+  room_code: string;
+  user_id: string;
+  banned_by: string;
+  created_at: string;
+}
+
+export interface RoomMuteRow {
+  room_code: string;
+  user_id: string;
+  muted_by: string;
+  created_at: string;
+}
+
+export interface RoomInviteRow {
+  room_code: string;
+  user_id: string;
+  invited_by: string;
+  created_at: string;
+}
+
+export interface RoomLobbyRow {
+  room_code: string;
+  user_id: string;
+  requested_at: string;
+}
+
+export interface InviteUseRow {
+  invite_id: string;
+  room_code: string;
+  user_id: string;
+  used_at: string;
+}
+
+export type MessageKind = "typed" | "speech_final" | "system";
+
+export interface WordTiming {
+  word: string;
+  // Milliseconds from the start of the utterance
+  startMs: number;
+  endMs: number;
+  confidence?: number;
+}
+
+export interface MessageRow {
+  id: string;
+  room_code: string;
+  user_id: string;
+  // Empty once the message is deleted
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  kind: MessageKind;
+  // Speech only: what the recognizer reported
+  confidence: number | null;
+  language: string | null;
+  utterance_start_at: string | null;
+  utterance_end_at: string | null;
+  // Cleared when the message is edited, since the words no longer line up
+  word_timings: WordTiming[] | null;
+}
+
+export interface SpeechFields {
+  confidence?: number;
+  language?: string;
+  utteranceStart?: string;
+  utteranceEnd?: string;
+  words?: WordTiming[];
+}
+
+export interface MessageEditRow {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+export interface MessageReactionRow {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+export interface MessageTranslationRow {
+  message_id: string;
+  language: string;
+  content: string;
+  created_at: string;
+}
+
+export interface SpeechSegmentRow {
+  id: string;
+  room_code: string;
+  speaker_id: string;
+  segment_id: string;
+  seq: number;
+  content: string;
+  created_at: string;
+}
+
+// A room member joined with their user record
+export interface RoomParticipant {
+  id: string;
+  displayName: string;
+  role: RoomRole;
+  // Muted by a host or co-host
+  muted: boolean;
+}
+
+// A user in a room's lobby, joined with their user record
+export interface WaitingUser {
+  id: string;
+  displayName: string;
+  requestedAt: string;
+}
+
+export interface MessageWithAuthor extends MessageRow {
+  display_name: string;
+}
+
+export interface SpeechSegmentWithSpeaker extends SpeechSegmentRow {
+  display_name: string;
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<UserRow | null>;
+  findByDisplayName(displayName: string): Promise<UserRow | null>;
+  // Guests who joined through an invite link have no password
+  create(input: {
+    displayName: string;
+    passwordHash: string | null;
+    guestExpiresAt?: string | null;
+  }): Promise<UserRow>;
+  /**
+   * Renames a guest whose session ended before `now` if they hold the
+   * display name, so someone else can take it.
+   */
+  releaseGuestName(displayName: string, now: string): Promise<void>;
+  /**
+   * Sets a password on the account holding the display name if it dates
+   * from before passwords, i.e. has none and is not a guest. Null when
+   * there is no such account.
+   */
+  claimLegacyAccount(displayName: string, passwordHash: string): Promise<UserRow | null>;
+  setSpeechLanguage(id: string, language: string): Promise<UserRow>;
+}
+
+export interface RoomRepository {
+  create(input: {
+    code: string;
+    creatorId: string;
+    qrCode: string;
+    passphraseHash?: string | null;
+    lobbyEnabled?: boolean;
+    inviteOnly?: boolean;
+  }): Promise<RoomRow>;
+  findByCode(code: string): Promise<RoomRow | null>;
+  setActive(code: string, active: boolean): Promise<void>;
+  setLocked(code: string, locked: boolean): Promise<void>;
+  setMediaMode(code: string, mode: MediaModeSetting): Promise<void>;
+  touch(code: string): Promise<void>;
+  /** Codes of rooms a user created, belongs to or has posted in. */
+  listCodesForUser(userId: string): Promise<string[]>;
+  // Active rooms whose last activity is older than `before`
+  listIdle(before: string): Promise<RoomRow[]>;
+}
+
+export interface RoomMemberRepository {
+  find(roomCode: string, userId: string): Promise<RoomMemberRow | null>;
+  /** Adds the user to the room; a no-op when they are already a member. */
+  add(roomCode: string, userId: string, role?: RoomRole): Promise<void>;
+  remove(roomCode: string, userId: string): Promise<void>;
+  setRole(roomCode: string, userId: string, role: RoomRole): Promise<void>;
+  list(roomCode: string): Promise<RoomParticipant[]>;
+}
+
+export interface RoomBanRepository {
+  ban(roomCode: string, userId: string, bannedBy: string): Promise<void>;
+  isBanned(roomCode: string, userId: string): Promise<boolean>;
+}
+
+export interface RoomMuteRepository {
+  /** Mutes the user in the room; a no-op when they already are. */
+  mute(roomCode: string, userId: string, mutedBy: string): Promise<void>;
+  /** Lifts the mute, resolving to false when there was none. */
+  unmute(roomCode: string, userId: string): Promise<boolean>;
+  find(roomCode: string, userId: string): Promise<RoomMuteRow | null>;
+}
+
+export interface RoomInviteRepository {
+  /** Invites the users; ones already invited are left as they are. */
+  add(roomCode: string, userIds: string[], invitedBy: string): Promise<void>;
+  isInvited(roomCode: string, userId: string): Promise<boolean>;
+}
+
+export interface RoomLobbyRepository {
+  /** Puts the user in the lobby; a no-op when they are already waiting. */
+  add(roomCode: string, userId: string): Promise<void>;
+  /** Resolves to whether the user was waiting. */
+  remove(roomCode: string, userId: string): Promise<boolean>;
+  has(roomCode: string, userId: string): Promise<boolean>;
+  /** Everyone waiting, longest first. */
+  list(roomCode: string): Promise<WaitingUser[]>;
+}
+
+export interface InviteUseRepository {
+  /**
+   * Counts the user's use of an invite link. Resolves to false when it is
+   * used up; a user who already used it may use it again for free.
+   */
+  redeem(inviteId: string, roomCode: string, userId: string, maxUses: number | null): Promise<boolean>;
+  /** How many users have used an invite link. */
+  count(inviteId: string): Promise<number>;
+}
+
+// Cursors are message ids; a page never includes its cursor message
+export interface MessagePageQuery {
+  before?: string;
+  after?: string;
+  limit: number;
+}
+
+export interface MessagePage {
+  /** Oldest first. */
+  messages: MessageWithAuthor[];
+  // More messages exist past this page in the direction being paged
+  hasMore: boolean;
+}
+
+// One search box term; several words form a phrase
+export interface SearchTerm {
+  words: string[];
+  // The last word matches as a prefix
+  prefix: boolean;
+}
+
+export interface MessageSearchQuery {
+  terms: SearchTerm[];
+  roomCodes: string[];
+  speakerId?: string;
+  // ISO timestamps bounding created_at, inclusive
+  from?: string;
+  to?: string;
+  limit: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchHit extends MessageWithAuthor {
+  snippet: SnippetPart[];
+}
+
+export interface MessageRepository {
+  /** All messages in a room, oldest first. */
+  listByRoom(roomCode: string): Promise<MessageWithAuthor[]>;
+  /**
+   * Up to `limit` messages older than `before` or newer than `after`;
+   * with no cursor, the newest page. Unknown cursors give an empty page.
+   */
+  listPage(roomCode: string, query: MessagePageQuery): Promise<MessagePage>;
+  /** Messages matching every term, newest first. */
+  search(query: MessageSearchQuery): Promise<MessageSearchHit[]>;
+  create(input: {
+    roomCode: string;
+    userId: string;
+    content: string;
+    // Defaults to "typed"
+    kind?: MessageKind;
+    speech?: SpeechFields;
+  }): Promise<MessageRow>;
+  findById(id: string): Promise<MessageRow | null>;
+  /** Replaces the content, keeping the old content in the edit history. */
+  edit(id: string, content: string): Promise<MessageRow>;
+  /** Clears the content and marks the message deleted; history is kept. */
+  softDelete(id: string): Promise<MessageRow>;
+  /** Earlier versions of a message, oldest first. */
+  listEdits(messageId: string): Promise<MessageEditRow[]>;
+}
+
+export interface MessageReactionRepository {
+  /** Adds a reaction; a no-op when the user already reacted with it. */
+  add(messageId: string, userId: string, emoji: string): Promise<void>;
+  remove(messageId: string, userId: string, emoji: string): Promise<void>;
+  has(messageId: string, userId: string, emoji: string): Promise<boolean>;
+  /** Reactions on any of the messages, oldest first. */
+  listForMessages(messageIds: string[]): Promise<MessageReactionRow[]>;
+}
+
+export interface MessageTranslationRepository {
+  /** Stored translations of any of the messages into one language. */
+  listForMessages(messageIds: string[], language: string): Promise<MessageTranslationRow[]>;
+  /** Stores a translation, replacing an earlier one into the same language. */
+  save(messageId: string, language: string, content: string): Promise<void>;
+  /** Forgets every translation of a message, e.g. once it is edited. */
+  deleteForMessage(messageId: string): Promise<void>;
+}
+
+export interface SpeechSegmentRepository {
+  /**
+   * Stores a final segment. The same speaker re-sending a segmentId
+   * replaces it; segment ids are only unique per speaker.
+   */
+  saveFinal(input: {
+    roomCode: string;
+    speakerId: string;
+    segmentId: string;
+    seq: number;
+    content: string;
+    createdAt: string;
+  }): Promise<void>;
+  /** All final segments in a room, oldest first. */
+  listByRoom(roomCode: string): Promise<SpeechSegmentWithSpeaker[]>;
+}
+
+export interface Store {
+  users: UserRepository;
+  rooms: RoomRepository;
+  roomMembers: RoomMemberRepository;
+  roomBans: RoomBanRepository;
+  roomMutes: RoomMuteRepository;
+  roomInvites: RoomInviteRepository;
+  roomLobby: RoomLobbyRepository;
+  inviteUses: InviteUseRepository;
+  messages: MessageRepository;
+  messageReactions: MessageReactionRepository;
+  messageTranslations: MessageTranslationRepository;
+  speechSegments: SpeechSegmentRepository;
+}
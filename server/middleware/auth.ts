@@ -0,0 +1,73 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Socket } from "socket.io";
+import { signToken, verifyToken } from "../utils/tokens";
+
+export interface AuthUser {
+  id: string;
+  displayName: string;
+}
+
+declare module "express-serve-static-core" {
+  interface Request {
+    // Set by requireAuth for every authenticated request
+    user?: AuthUser;
+  }
+}
+
+const SESSION_TOKEN_TYPE = "session";
+export const SESSION_TTL_SECONDS =
+  Number(process.env.AUTH_TOKEN_TTL_SECONDS) || 7 * 24 * 60 * 60;
+
+/**
+ * Issues a signed session token for a user
+ */
+export function createSessionToken(user: AuthUser): string {
+  return signToken(
+    SESSION_TOKEN_TYPE,
+    { sub: user.id, name: user.displayName },
+    SESSION_TTL_SECONDS
+  );
+}
+
+/**
+ * Resolves a session token to the user it was issued for
+ */
+export function readSessionToken(token: string | undefined): AuthUser | null {
+  if (!token) return null;
+  const payload = verifyToken<{ sub: string; name: string }>(
+    SESSION_TOKEN_TYPE,
+    token
+  );
+  return payload ? { id: payload.sub, displayName: payload.name } : null;
+}
+
+/**
+ * Express middleware that rejects requests without a valid
+ * `Authorization: Bearer <token>` header and sets req.user otherwise.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : undefined;
+  const user = readSessionToken(token);
+  if (!user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  req.user = user;
+  next();
+}
+
+/**
+ * Socket.IO middleware: the handshake must carry `auth.token`. The user
+ * is stored on socket.data.user for every handler on that connection.
+ */
+export function authenticateSocket(
+  socket: Socket,
+  next: (err?: Error) => void
+) {
+  const user = readSessionToken(socket.handshake.auth?.token);
+  if (!user) {
+    return next(new Error("Authentication required"));
+  }
+  socket.data.user = user;
+  next();
+}
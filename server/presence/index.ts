@@ -0,0 +1,37 @@
+import dotenv from "dotenv";
+import { createClient } from "redis";
+import { createAdapter } from "@socket.io/redis-adapter";
+import type { AppServer } from "../utils/socketHandler";
+import { createMemoryPresenceStore } from "./memory";
+import { createRedisPresenceStore } from "./redis";
+
+export type * from "./types";
+
+dotenv.config();
+
+/**
+ * REDIS_URL shares presence between server instances and links their
+ * Socket.IO servers through Redis pub/sub, so several replicas can run
+ * behind a load balancer. Without it all of this stays in the process.
+ */
+const redis = process.env.REDIS_URL ? createClient({ url: process.env.REDIS_URL }) : null;
+
+export const presenceStore = redis
+  ? createRedisPresenceStore(redis)
+  : createMemoryPresenceStore();
+
+/**
+ * Connects to Redis when it is configured and routes Socket.IO broadcasts
+ * through it. Must finish before the server accepts connections.
+ */
+export async function initPresence(io: AppServer) {
+  if (!redis) return;
+
+  const subscriber = redis.duplicate();
+  redis.on("error", (error) => console.error("Redis error:", error));
+  subscriber.on("error", (error) => console.error("Redis subscriber error:", error));
+  await Promise.all([redis.connect(), subscriber.connect()]);
+
+  io.adapter(createAdapter(redis, subscriber));
+  console.log("Presence and broadcasts shared through Redis");
+}
@@ -0,0 +1,67 @@
+import type { ConnectionPresence, PresenceStore } from "./types";
+
+/**
+ * Presence kept in this process. Fine for a single server; with several,
+ * each only sees its own sockets.
+ */
+export function createMemoryPresenceStore(): PresenceStore {
+  // rooms[roomCode][connectionId] is a connection in the room
+  const rooms: { [roomCode: string]: Map<string, ConnectionPresence> } = {};
+  // connectionRooms[connectionId] is every room the connection is in
+  const connectionRooms: { [connectionId: string]: Set<string> } = {};
+  // lastSeen[connectionId] is its latest heartbeat, for connections in a room
+  const lastSeen: { [connectionId: string]: number } = {};
+
+  const remove = async (roomCode: string, connectionId: string) => {
+    const connection = rooms[roomCode]?.get(connectionId) ?? null;
+    rooms[roomCode]?.delete(connectionId);
+    if (rooms[roomCode]?.size === 0) delete rooms[roomCode];
+    connectionRooms[connectionId]?.delete(roomCode);
+    if (connectionRooms[connectionId]?.size === 0) {
+      delete connectionRooms[connectionId];
+      delete lastSeen[connectionId];
+    }
+    return connection;
+  };
+
+  return {
+    name: "memory",
+
+    async add(roomCode, connection, now) {
+      (rooms[roomCode] ??= new Map()).set(connection.connectionId, connection);
+      (connectionRooms[connection.connectionId] ??= new Set()).add(roomCode);
+      lastSeen[connection.connectionId] = now;
+    },
+
+    remove,
+
+    async isInRoom(roomCode, connectionId) {
+      return rooms[roomCode]?.has(connectionId) ?? false;
+    },
+
+    async roomsOf(connectionId) {
+      return Array.from(connectionRooms[connectionId] ?? []);
+    },
+
+    async connections(roomCode) {
+      return Array.from(rooms[roomCode]?.values() ?? []).map((connection) => ({
+        ...connection,
+        lastSeen: lastSeen[connection.connectionId],
+      }));
+    },
+
+    async touch(connectionId, now) {
+      if (connectionRooms[connectionId]) lastSeen[connectionId] = now;
+    },
+
+    async staleConnections(before) {
+      return Object.keys(lastSeen).filter((connectionId) => lastSeen[connectionId] < before);
+    },
+
+    async clearRoom(roomCode) {
+      for (const connectionId of Array.from(rooms[roomCode]?.keys() ?? [])) {
+        await remove(roomCode, connectionId);
+      }
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import type { createClient } from "redis";
+import type { ConnectionPresence, ConnectionStatus, PresenceStore } from "./types";
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// A hash of connection id -> JSON { userId, displayName } per room, a set
+// of room codes per connection, and the latest heartbeat of every
+// connection in a room, scored by time
+const roomKey = (roomCode: string) => `presence:room:${roomCode}`;
+const connectionKey = (connectionId: string) => `presence:connection:${connectionId}`;
+const HEARTBEATS_KEY = "presence:heartbeats";
+
+/**
+ * Presence in Redis, shared by every server instance using the same
+ * database
+ */
+export function createRedisPresenceStore(client: RedisClient): PresenceStore {
+  const remove = async (roomCode: string, connectionId: string) => {
+    const value = await client.hGet(roomKey(roomCode), connectionId);
+    await client
+      .multi()
+      .hDel(roomKey(roomCode), connectionId)
+      .sRem(connectionKey(connectionId), roomCode)
+      .exec();
+    if ((await client.sCard(connectionKey(connectionId))) === 0) {
+      await client.zRem(HEARTBEATS_KEY, connectionId);
+    }
+    if (!value) return null;
+    const { userId, displayName } = JSON.parse(value);
+    return { connectionId, userId, displayName } as ConnectionPresence;
+  };
+
+  return {
+    name: "redis",
+
+    async add(roomCode, { connectionId, userId, displayName }, now) {
+      await client
+        .multi()
+        .hSet(roomKey(roomCode), connectionId, JSON.stringify({ userId, displayName }))
+        .sAdd(connectionKey(connectionId), roomCode)
+        .zAdd(HEARTBEATS_KEY, { score: now, value: connectionId })
+        .exec();
+    },
+
+    remove,
+
+    isInRoom(roomCode, connectionId) {
+      return client.hExists(roomKey(roomCode), connectionId);
+    },
+
+    roomsOf(connectionId) {
+      return client.sMembers(connectionKey(connectionId));
+    },
+
+    async connections(roomCode) {
+      const entries = Object.entries(await client.hGetAll(roomKey(roomCode)));
+      if (entries.length === 0) return [];
+      const lastSeen = await client.zmScore(
+        HEARTBEATS_KEY,
+        entries.map(([connectionId]) => connectionId)
+      );
+      return entries.map(([connectionId, value], i): ConnectionStatus => {
+        const { userId, displayName } = JSON.parse(value);
+        return { connectionId, userId, displayName, lastSeen: lastSeen[i] ?? 0 };
+      });
+    },
+
+    async touch(connectionId, now) {
+      // XX only updates connections already there, i.e. in a room
+      await client.zAdd(HEARTBEATS_KEY, { score: now, value: connectionId }, { XX: true });
+    },
+
+    staleConnections(before) {
+      return client.zRangeByScore(HEARTBEATS_KEY, "-inf", `(${before}`);
+    },
+
+    async clearRoom(roomCode) {
+      const connectionIds = await client.hKeys(roomKey(roomCode));
+      await Promise.all(connectionIds.map((connectionId) => remove(roomCode, connectionId)));
+      await client.del(roomKey(roomCode));
+    },
+  };
+}
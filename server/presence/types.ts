@@ -0,0 +1,34 @@
+// One socket connection in a room
+export interface ConnectionPresence {
+  connectionId: string;
+  userId: string;
+  displayName: string;
+}
+
+export interface ConnectionStatus extends ConnectionPresence {
+  // Epoch ms of the connection's last heartbeat, or of joining
+  lastSeen: number;
+}
+
+/**
+ * Who is connected to which room, one entry per connection. A user may
+ * have several connections and a connection may be in several rooms. Every
+ * server instance must see the same store, so a socket's rooms and a
+ * signaling target can be looked up from whichever instance handles the
+ * event.
+ */
+export interface PresenceStore {
+  name: string;
+  add(roomCode: string, connection: ConnectionPresence, now: number): Promise<void>;
+  // Resolves to the removed entry, or null if the connection was not in the
+  // room
+  remove(roomCode: string, connectionId: string): Promise<ConnectionPresence | null>;
+  isInRoom(roomCode: string, connectionId: string): Promise<boolean>;
+  roomsOf(connectionId: string): Promise<string[]>;
+  connections(roomCode: string): Promise<ConnectionStatus[]>;
+  // Records a heartbeat; ignored for connections in no room
+  touch(connectionId: string, now: number): Promise<void>;
+  // Connections in any room whose last heartbeat came before `before`
+  staleConnections(before: number): Promise<string[]>;
+  clearRoom(roomCode: string): Promise<void>;
+}
@@ -0,0 +1,66 @@
+import express from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { db } from "../db";
+import { authRouter } from "./auth";
+
+const app = express();
+app.use(express.json());
+app.use("/api/auth", authRouter);
+
+const register = (displayName: string, password = "password1") =>
+  request(app).post("/api/auth/register").send({ displayName, password });
+
+const login = (displayName: string, password = "password1") =>
+  request(app).post("/api/auth/login").send({ displayName, password });
+
+describe("POST /api/auth/register", () => {
+  it("refuses a display name someone registered", async () => {
+    await register("Auth Taken").expect(201);
+    const res = await register("Auth Taken", "password2");
+    expect(res.status).toBe(409);
+  });
+
+  it("lets the owner of an account from before passwords claim it", async () => {
+    const legacy = await db.users.create({ displayName: "Auth Legacy", passwordHash: null });
+
+    const res = await register("Auth Legacy").expect(201);
+    expect(res.body.user.id).toBe(legacy.id);
+    await login("Auth Legacy").expect(200);
+    // Claimed once; the account is theirs now
+    await register("Auth Legacy", "password2").expect(409);
+  });
+
+  it("does not hand over a guest's account", async () => {
+    await db.users.create({
+      displayName: "Auth Guest",
+      passwordHash: null,
+      guestExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    await register("Auth Guest").expect(409);
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("signs in with the right password", async () => {
+    await register("Auth Login").expect(201);
+    const res = await login("Auth Login").expect(200);
+    expect(res.body.user.displayName).toBe("Auth Login");
+    expect(typeof res.body.token).toBe("string");
+  });
+
+  it("gives the same answer for unknown names, wrong passwords and no password", async () => {
+    await register("Auth Wrong").expect(201);
+    await db.users.create({ displayName: "Auth No Password", passwordHash: null });
+
+    const responses = await Promise.all([
+      login("Auth Nobody"),
+      login("Auth Wrong", "password2"),
+      login("Auth No Password"),
+    ]);
+    for (const res of responses) {
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe("Invalid display name or password");
+    }
+  });
+});
@@ -1,42 +1,80 @@
 import { Router } from "express";
-import { supabase } from "../db/index";
+import { db, type UserRow } from "../db";
 import { z } from "zod";
+import { DEFAULT_SPEECH_LANGUAGE, SPEECH_LANGUAGE_CODES } from "../../shared/languages";
+import type { UserProfile } from "../../shared/profile";
+import { createSessionToken, requireAuth, SESSION_TTL_SECONDS } from "../middleware/auth";
+import { readInviteToken } from "../utils/invites";
+import { hashPassword, verifyPassword } from "../utils/passwords";
 
 const router = Router();
 
 const registerSchema = z.object({
   displayName: z.string().min(3).max(30),
+  password: z.string().min(8).max(128),
 });
 
+const guestSchema = z.object({
+  displayName: z.string().min(3).max(30),
+  inviteToken: z.string().max(1024),
+});
+
+const loginSchema = z.object({
+  displayName: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const profileUpdateSchema = z.object({
+  speechLanguage: z.enum(SPEECH_LANGUAGE_CODES),
+});
+
+// Checked when there is no password to check, so a failed login takes as
+// long whether or not the display name is registered
+const dummyPasswordHash = hashPassword("no account has this password");
+
+// Never hand the password hash back to clients
+function toSession(user: UserRow) {
+  const publicUser = { id: user.id, displayName: user.display_name };
+  return { user: publicUser, token: createSessionToken(publicUser) };
+}
+
+function toProfile(user: UserRow): UserProfile {
+  return {
+    id: user.id,
+    displayName: user.display_name,
+    speechLanguage: user.speech_language ?? DEFAULT_SPEECH_LANGUAGE,
+  };
+}
+
 router.post("/register", async (req, res) => {
   try {
-    const { displayName } = registerSchema.parse(req.body);
-
-    // Check if display name is already taken using Supabase
-    const { data: existingUser, error: fetchError } = await supabase
-      .from("users")
-      .select("*")
-      .eq("display_name", displayName);
+    const { displayName, password } = registerSchema.parse(req.body);
 
-    if (fetchError) throw fetchError;
+    const passwordHash = await hashPassword(password);
 
-    // If user already exists, return the existing user data (status 200)
-    if (existingUser && existingUser.length > 0) {
-      return res.status(200).json(existingUser[0]);
+    // Accounts from before passwords have none; registering under their
+    // display name is how their owners get them back
+    const legacyUser = await db.users.claimLegacyAccount(displayName, passwordHash);
+    if (legacyUser) {
+      return res.status(201).json(toSession(legacyUser));
     }
 
-    // Insert new user using Supabase
-    const { data, error } = await supabase
-      .from("users")
-      .insert([{ display_name: displayName }])
-      .select();
+    // Display names identify people in a room, so they stay unique, but
+    // a guest whose session has ended no longer holds theirs
+    await db.users.releaseGuestName(displayName, new Date().toISOString());
+    const existingUser = await db.users.findByDisplayName(displayName);
+    if (existingUser) {
+      return res.status(409).json({ error: "Display name already taken" });
+    }
 
-    if (error) throw error;
+    const user = await db.users.create({ displayName, passwordHash });
 
-    res.status(201).json(data[0]);
+    res.status(201).json(toSession(user));
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ error: error.errors });
+    } else if ((error as { code?: string }).code === "23505") {
+      res.status(409).json({ error: "Display name already taken" });
     } else {
       console.error("Registration error:", error);
       res.status(500).json({ error: "Failed to register user" });
@@ -44,4 +82,105 @@ router.post("/register", async (req, res) => {
   }
 });
 
+/**
+ * POST /api/auth/guest
+ * Someone opening an invite link only picks a name. The account has no
+ * password, so nobody can sign in to it again once its session token
+ * expires; its display name is then free for others to take.
+ */
+router.post("/guest", async (req, res) => {
+  try {
+    const { displayName, inviteToken } = guestSchema.parse(req.body);
+    const invite = readInviteToken(inviteToken);
+    const room = invite && (await db.rooms.findByCode(invite.roomCode));
+    if (!invite || !room?.active) {
+      return res.status(403).json({ error: "This invite link has expired or is not valid." });
+    }
+    if (invite.maxUses !== null && (await db.inviteUses.count(invite.id)) >= invite.maxUses) {
+      return res.status(403).json({ error: "This invite link has been used up." });
+    }
+
+    const now = new Date();
+    await db.users.releaseGuestName(displayName, now.toISOString());
+    if (await db.users.findByDisplayName(displayName)) {
+      return res.status(409).json({ error: "Display name already taken" });
+    }
+    const user = await db.users.create({
+      displayName,
+      passwordHash: null,
+      guestExpiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000).toISOString(),
+    });
+
+    res.status(201).json(toSession(user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else if ((error as { code?: string }).code === "23505") {
+      res.status(409).json({ error: "Display name already taken" });
+    } else {
+      console.error("Guest sign-in error:", error);
+      res.status(500).json({ error: "Failed to sign in" });
+    }
+  }
+});
+
+router.post("/login", async (req, res) => {
+  try {
+    const { displayName, password } = loginSchema.parse(req.body);
+
+    const user = await db.users.findByDisplayName(displayName);
+    const matches = await verifyPassword(
+      password,
+      user?.password_hash ?? (await dummyPasswordHash)
+    );
+    if (!user?.password_hash || !matches) {
+      return res.status(401).json({ error: "Invalid display name or password" });
+    }
+
+    res.json(toSession(user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      console.error("Login error:", error);
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  }
+});
+
+// GET /api/auth/me - the user behind the current session token
+router.get("/me", requireAuth, (req, res) => {
+  res.json(req.user);
+});
+
+// GET /api/auth/profile - the current user's settings
+router.get("/profile", requireAuth, async (req, res) => {
+  try {
+    const user = await db.users.findById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(toProfile(user));
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    res.status(500).json({ error: "Failed to fetch profile" });
+  }
+});
+
+// PATCH /api/auth/profile - change the current user's settings
+router.patch("/profile", requireAuth, async (req, res) => {
+  try {
+    const { speechLanguage } = profileUpdateSchema.parse(req.body);
+    const user = await db.users.setSpeechLanguage(req.user!.id, speechLanguage);
+    res.json(toProfile(user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      console.error("Error updating profile:", error);
+      res.status(500).json({ error: "Failed to update profile" });
+    }
+  }
+});
+
 export const authRouter = router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { createIceConfig } from "../utils/iceServers";
+
+const router = Router();
+
+/**
+ * GET /api/ice-servers
+ * STUN and TURN servers for the caller's peer connections. TURN
+ * credentials are short-lived, so clients fetch this again once
+ * `expiresAt` passes rather than caching it for the session.
+ */
+router.get("/", (req, res) => {
+  res.set("Cache-Control", "no-store");
+  res.json(createIceConfig(req.user!.id));
+});
+
+export const iceRouter = router;
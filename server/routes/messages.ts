@@ -1,90 +1,86 @@
 import { Router } from "express";
-import { supabase } from "../db"; // Your Supabase client
+import { db } from "../db";
 import { z } from "zod";
+import { canViewRoom, getRoomRole } from "../utils/roomRoles";
+import { loadMessagePage } from "../utils/messageHistory";
+import { messagePageInputSchema } from "../../shared/socketEvents";
 
 const router = Router();
 
 const messageSchema = z.object({
   roomCode: z.string().length(6),
-  userId: z.string().uuid(),
   content: z.string().min(1).max(1000),
 });
 
-// GET messages for a given room code
+// GET a page of messages for a given room code
+// ?before=<messageId> | ?after=<messageId>, &limit=<n>; neither gives the newest page
 router.get("/:roomCode", async (req, res) => {
   try {
-    const { roomCode } = req.params;
-
-    // Join messages with users to get display_name
-    const { data: messages, error } = await supabase
-      .from("messages")
-      .select(
-        `
-        id,
-        user_id,
-        content,
-        created_at,
-        users(display_name)
-      `
-      )
-      .eq("room_code", roomCode)
-      .order("created_at", { ascending: true });
-
-    if (error) {
-      console.error("Supabase Error:", error.message);
-      return res.status(500).json({ error: "Database query failed" });
+    const query = messagePageInputSchema.parse({
+      ...req.query,
+      roomCode: req.params.roomCode,
+    });
+    if (!(await canViewRoom(query.roomCode, req.user!.id))) {
+      return res.status(403).json({ error: "Not a member of this room" });
     }
 
-    // Transform messages to include a "username" field
-    const transformedMessages = messages.map((msg: any) => ({
-      id: msg.id,
-      user_id: msg.user_id,
-      content: msg.content,
-      created_at: msg.created_at,
-      display_name: msg.users
-        ? msg.users.display_name || "Unknown User"
-        : "Unknown User",
-    }));
-
-    res.json(transformedMessages);
+    // Messages come back joined with the author's display_name
+    res.json(await loadMessagePage(query));
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     console.error("Error fetching messages:", error);
     res.status(500).json({ error: "Failed to fetch messages" });
   }
 });
 
-// DELETE messages for a given room code
-router.delete("/:roomCode", async (req, res) => {
-  const { roomCode } = req.params;
+// GET the earlier versions of a message, oldest first
+router.get("/:roomCode/:messageId/edits", async (req, res) => {
   try {
-    const { data, error } = await supabase
-      .from("messages")
-      .delete()
-      .eq("room_code", roomCode);
-    if (error) throw error;
-    res.status(200).json(data);
-  } catch (err) {
-    console.error("Error deleting messages:", err);
-    res.status(500).json({ error: "Failed to delete messages" });
+    const { roomCode, messageId } = req.params;
+    if (!(await canViewRoom(roomCode, req.user!.id))) {
+      return res.status(403).json({ error: "Not a member of this room" });
+    }
+    const message = z.string().uuid().safeParse(messageId).success
+      ? await db.messages.findById(messageId)
+      : null;
+    if (!message || message.room_code !== roomCode) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+    // Deleting hides the old text from everyone but the author
+    if (message.deleted_at && message.user_id !== req.user!.id) {
+      return res.status(403).json({ error: "Message was deleted" });
+    }
+
+    const edits = await db.messages.listEdits(messageId);
+    res.json(
+      edits.map((edit) => ({
+        previous_content: edit.previous_content,
+        edited_at: edit.edited_at,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching message edits:", error);
+    res.status(500).json({ error: "Failed to fetch message edits" });
   }
 });
 
 // POST a new message
 router.post("/", async (req, res) => {
   try {
-    const { roomCode, userId, content } = messageSchema.parse(req.body);
-
-    const { data, error } = await supabase
-      .from("messages")
-      .insert([{ room_code: roomCode, user_id: userId, content }])
-      .select();
-
-    if (error) {
-      console.error("Supabase Insert Error:", error.message);
-      return res.status(500).json({ error: "Failed to save message" });
+    const { roomCode, content } = messageSchema.parse(req.body);
+    if (!(await getRoomRole(roomCode, req.user!.id))) {
+      return res.status(403).json({ error: "Not a member of this room" });
     }
 
-    res.status(201).json(data[0]);
+    const message = await db.messages.create({
+      roomCode,
+      userId: req.user!.id,
+      content,
+    });
+
+    res.status(201).json(message);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
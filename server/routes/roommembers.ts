@@ -1,26 +1,16 @@
 import { Router } from "express";
-import { supabase } from "../db";
-import { z } from "zod";
-const router = Router();
+import { db } from "../db";
+import { canViewRoom, getRoomRole } from "../utils/roomRoles";
 
-const leaveSchema = z.object({
-  userId: z.string().uuid(),
-});
+const router = Router();
 
 router.get("/:roomCode", async (req, res) => {
   try {
     const { roomCode } = req.params;
-    const { data, error } = await supabase
-      .from("room_members")
-      .select(`user:users(id, display_name)`)
-      .eq("room_code", roomCode);
-
-    if (error) throw error;
-
-    const participants = data.map((member: any) => ({
-      id: member.user.id,
-      displayName: member.user.display_name,
-    }));
+    if (!(await canViewRoom(roomCode, req.user!.id))) {
+      return res.status(403).json({ error: "Not a member of this room" });
+    }
+    const participants = await db.roomMembers.list(roomCode);
 
     res.json(participants);
   } catch (error) {
@@ -29,22 +19,21 @@ router.get("/:roomCode", async (req, res) => {
   }
 });
 
-// DELETE /api/room-members/:roomCode
+// DELETE /api/room-members/:roomCode - the current user leaves the room.
+// The host keeps their membership, so the room is never left without
+// someone who can admit people, invite them or end it; handing the room
+// over is what transfer_host is for.
 router.delete("/:roomCode", async (req, res) => {
   const { roomCode } = req.params;
   try {
-    const { userId } = leaveSchema.parse(req.body);
-    const { data, error } = await supabase
-      .from("room_members")
-      .delete()
-      .eq("room_code", roomCode)
-      .eq("user_id", userId);
-    if (error) {
-      return res.status(500).json({ error: error.message });
+    if ((await getRoomRole(roomCode, req.user!.id)) === "host") {
+      return res.sendStatus(204);
     }
-    return res.status(200).json(data);
+    await db.roomMembers.remove(roomCode, req.user!.id);
+    return res.sendStatus(204);
   } catch (err) {
-    return res.status(400).json({ error: err });
+    console.error("Error leaving room:", err);
+    return res.status(500).json({ error: "Failed to leave room" });
   }
 });
 
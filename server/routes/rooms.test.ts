@@ -0,0 +1,209 @@
+import express from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { parseInviteUrl } from "../../shared/invites";
+import { db } from "../db";
+import { createSessionToken, requireAuth } from "../middleware/auth";
+import { createInviteLink } from "../utils/invites";
+import { roomsRouter } from "./rooms";
+
+const app = express();
+app.use(express.json());
+app.use("/api/rooms", requireAuth, roomsRouter);
+
+let userCount = 0;
+
+// A signed-in user, as the Authorization header to send
+async function signUp() {
+  userCount += 1;
+  const user = await db.users.create({
+    displayName: `Join Tester ${userCount}`,
+    passwordHash: null,
+  });
+  return {
+    id: user.id,
+    auth: `Bearer ${createSessionToken({ id: user.id, displayName: user.display_name })}`,
+  };
+}
+
+type User = Awaited<ReturnType<typeof signUp>>;
+
+async function createRoom(
+  host: User,
+  options: {
+    passphrase?: string;
+    lobby?: boolean;
+    inviteOnly?: boolean;
+    invitedUserIds?: string[];
+  } = {}
+): Promise<string> {
+  const res = await request(app)
+    .post("/api/rooms/create")
+    .set("Authorization", host.auth)
+    .send(options)
+    .expect(201);
+  return res.body.roomCode;
+}
+
+const join = (user: User, body: { roomCode: string; passphrase?: string; inviteToken?: string }) =>
+  request(app).post("/api/rooms/join").set("Authorization", user.auth).send(body);
+
+async function inviteToken(roomCode: string, maxUses: number | null = null) {
+  const link = await createInviteLink("https://app.example", roomCode, {
+    role: "participant",
+    maxUses,
+    expiresInSeconds: 60,
+  });
+  return parseInviteUrl(link.url)!.token!;
+}
+
+describe("POST /api/rooms/join", () => {
+  it("lets anyone into an open room", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const guest = await signUp();
+
+    const res = await join(guest, { roomCode }).expect(200);
+    expect(res.body.message).toBe("Successfully joined room");
+    expect(res.body.members.map((member: { id: string }) => member.id)).toEqual([
+      host.id,
+      guest.id,
+    ]);
+  });
+
+  it("checks the room code like everywhere else", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const guest = await signUp();
+
+    await join(guest, { roomCode: roomCode.toLowerCase() }).expect(400);
+    await join(guest, { roomCode: "AB-123" }).expect(400);
+  });
+
+  it("turns away unknown and finished rooms first", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const banned = await signUp();
+    await db.roomBans.ban(roomCode, banned.id, host.id);
+    await db.rooms.setActive(roomCode, false);
+
+    await join(banned, { roomCode: "ZZZZZZ" }).expect(404);
+    const res = await join(banned, { roomCode }).expect(400);
+    expect(res.body.error).toBe("Meeting is finished.");
+  });
+
+  it("keeps banned users out, even with an invite link", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const banned = await signUp();
+    await join(banned, { roomCode }).expect(200);
+    await db.roomBans.ban(roomCode, banned.id, host.id);
+    await db.roomMembers.remove(roomCode, banned.id);
+
+    const res = await join(banned, { roomCode, inviteToken: await inviteToken(roomCode) });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("You have been banned from this room.");
+  });
+
+  it("lets members back into a locked room, and nobody else", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const member = await signUp();
+    await join(member, { roomCode }).expect(200);
+    await db.rooms.setLocked(roomCode, true);
+
+    const rejoined = await join(member, { roomCode }).expect(200);
+    expect(rejoined.body.message).toBe("Already in room");
+
+    const newcomer = await signUp();
+    const res = await join(newcomer, { roomCode, inviteToken: await inviteToken(roomCode) });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("Room is locked by the host.");
+  });
+
+  it("rejects invite links for another room or with no uses left", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    const otherRoomCode = await createRoom(host);
+    const first = await signUp();
+    const second = await signUp();
+
+    const wrongRoom = await join(first, {
+      roomCode,
+      inviteToken: await inviteToken(otherRoomCode),
+    });
+    expect(wrongRoom.status).toBe(403);
+    expect(wrongRoom.body.inviteInvalid).toBe(true);
+
+    const token = await inviteToken(roomCode, 1);
+    await join(first, { roomCode, inviteToken: token }).expect(200);
+    const usedUp = await join(second, { roomCode, inviteToken: token });
+    expect(usedUp.status).toBe(403);
+    expect(usedUp.body.error).toBe("This invite link has been used up.");
+  });
+
+  it("lets invited users skip the invite-only check, the passphrase and the lobby", async () => {
+    const host = await signUp();
+    const invited = await signUp();
+    const roomCode = await createRoom(host, {
+      passphrase: "secret",
+      lobby: true,
+      inviteOnly: true,
+      invitedUserIds: [invited.id],
+    });
+
+    await join(invited, { roomCode }).expect(200);
+
+    const withLink = await signUp();
+    await join(withLink, { roomCode, inviteToken: await inviteToken(roomCode) }).expect(200);
+
+    const uninvited = await signUp();
+    const res = await join(uninvited, { roomCode, passphrase: "secret" });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("This room is invite only.");
+  });
+
+  it("asks for the passphrase before the lobby", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host, { passphrase: "secret", lobby: true });
+    const guest = await signUp();
+
+    const missing = await join(guest, { roomCode });
+    expect(missing.status).toBe(403);
+    expect(missing.body).toMatchObject({
+      error: "This room needs a passphrase.",
+      passphraseRequired: true,
+    });
+
+    const wrong = await join(guest, { roomCode, passphrase: "wrong" });
+    expect(wrong.status).toBe(403);
+    expect(wrong.body.error).toBe("Wrong passphrase.");
+    expect(await db.roomLobby.has(roomCode, guest.id)).toBe(false);
+
+    const right = await join(guest, { roomCode, passphrase: "secret" });
+    expect(right.status).toBe(202);
+    expect(right.body.status).toBe("waiting");
+    expect(await db.roomLobby.has(roomCode, guest.id)).toBe(true);
+    expect(await db.roomMembers.find(roomCode, guest.id)).toBeNull();
+  });
+});
+
+describe("GET /api/rooms/:roomCode/transcript", () => {
+  it("exports every message of a long meeting", async () => {
+    const host = await signUp();
+    const roomCode = await createRoom(host);
+    // More than a Supabase page
+    const count = 2500;
+    for (let i = 0; i < count; i++) {
+      await db.messages.create({ roomCode, userId: host.id, content: `line ${i}` });
+    }
+
+    const res = await request(app)
+      .get(`/api/rooms/${roomCode}/transcript?format=json`)
+      .set("Authorization", host.auth)
+      .expect(200);
+    const { entries } = JSON.parse(res.text);
+    expect(entries).toHaveLength(count);
+    expect(entries.at(-1).text).toBe(`line ${count - 1}`);
+  });
+});
@@ -1,45 +1,97 @@
 import { Router } from "express";
-import { supabase } from "../db"; // Ensure supabase is correctly exported from your db file
+import { db } from "../db";
 import { generateRoomCode } from "../utils/generateCode";
+import { hashPassword, verifyPassword } from "../utils/passwords";
+import {
+  appUrl,
+  createInviteLink,
+  INVITE_TTL_SECONDS,
+  readInviteToken,
+} from "../utils/invites";
+import { canViewRoom, getRoomRole, isModerator } from "../utils/roomRoles";
+import {
+  buildTranscript,
+  renderTranscript,
+  TRANSCRIPT_FORMATS,
+} from "../utils/transcript";
 import QRCode from "qrcode";
 import { z } from "zod";
+import { INVITE_ROLES, invitePath } from "../../shared/invites";
+import { roomCodeSchema } from "../../shared/socketEvents";
 
-// If you intend to pass a display name or other string as creatorId, use this:
+// The creator and joining user always come from the session (req.user)
 const createRoomSchema = z.object({
-  creatorId: z.string().min(1, "creatorId cannot be empty"),
+  // Joiners must give it, unless they were invited
+  passphrase: z.string().min(4).max(128).optional(),
+  // Joiners wait until a host or co-host admits them
+  lobby: z.boolean().default(false),
+  // Only invited users may join
+  inviteOnly: z.boolean().default(false),
+  invitedUserIds: z.array(z.string().uuid()).max(200).default([]),
 });
 
 const joinRoomSchema = z.object({
-  userId: z.string().uuid(),
-  roomCode: z.string().length(6),
+  roomCode: roomCodeSchema,
+  passphrase: z.string().max(128).optional(),
+  // From an invite link; stands in for an invitation
+  inviteToken: z.string().max(1024).optional(),
+});
+
+const createInviteSchema = z.object({
+  role: z.enum(INVITE_ROLES).default("participant"),
+  // Left out for no limit
+  maxUses: z.number().int().min(1).max(1000).optional(),
+  expiresInSeconds: z
+    .number()
+    .int()
+    .min(60)
+    .max(30 * 24 * 60 * 60)
+    .default(INVITE_TTL_SECONDS),
+});
+
+const transcriptQuerySchema = z.object({
+  format: z.enum(TRANSCRIPT_FORMATS).default("md"),
 });
 
 const router = Router();
 
+/**
+ * POST /api/rooms/create
+ * Body (all optional): { passphrase, lobby, inviteOnly, invitedUserIds }.
+ * Invited users skip the passphrase and the lobby.
+ */
 router.post("/create", async (req, res) => {
   try {
-    const { creatorId } = createRoomSchema.parse(req.body);
-    const roomCode = generateRoomCode();
+    const { passphrase, lobby, inviteOnly, invitedUserIds } = createRoomSchema.parse(
+      req.body ?? {}
+    );
+    const creatorId = req.user!.id;
 
-    // Generate QR code
-    const qrData = await QRCode.toDataURL(roomCode);
+    const invitees = await Promise.all(invitedUserIds.map((id) => db.users.findById(id)));
+    if (invitees.some((user) => !user)) {
+      return res.status(400).json({ error: "Some invited users do not exist" });
+    }
 
-    // Create room in database using Supabase
-    const { data: roomData, error: roomError } = await supabase
-      .from("rooms")
-      .insert([{ code: roomCode, creator_id: creatorId, qr_code: qrData }])
-      .select();
+    const roomCode = generateRoomCode();
 
-    if (roomError) throw roomError;
-    if (!roomData || roomData.length === 0) {
-      throw new Error("Failed to create room");
-    }
+    // Every member can see the room's QR code, so it is a link to the room
+    // that still asks for whatever the room asks for. Signed invite links
+    // come from POST /:roomCode/invites.
+    const qrData = await QRCode.toDataURL(`${appUrl(req)}${invitePath(roomCode)}`);
 
-    // Add creator to room members
-    const { error: memberError } = await supabase
-      .from("room_members")
-      .insert([{ room_code: roomCode, user_id: creatorId }]);
-    if (memberError) throw memberError;
+    // Create room in database
+    await db.rooms.create({
+      code: roomCode,
+      creatorId,
+      qrCode: qrData,
+      passphraseHash: passphrase ? await hashPassword(passphrase) : null,
+      lobbyEnabled: lobby,
+      inviteOnly,
+    });
+
+    // Add creator to room members as its host
+    await db.roomMembers.add(roomCode, creatorId, "host");
+    await db.roomInvites.add(roomCode, invitedUserIds, creatorId);
 
     res.status(201).json({
       roomCode,
@@ -55,39 +107,145 @@ router.post("/create", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/rooms/:roomCode
+ * Anyone signed in sees what joining asks for; members see the rest.
+ */
 router.get("/:roomCode", async (req, res) => {
   try {
     const { roomCode } = req.params;
-    const { data, error } = await supabase
-    .from("rooms")
-    .select("code, qr_code, creator_id, created_at, active")
-    .eq("code", roomCode)
-    .single();
-    if (error) throw error;
-    res.json(data);
+    const room = await db.rooms.findByCode(roomCode);
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+    // What a joiner needs to know to get in; never the passphrase itself
+    const access = {
+      code: room.code,
+      active: room.active,
+      locked: room.locked,
+      has_passphrase: room.passphrase_hash !== null,
+      lobby_enabled: room.lobby_enabled,
+      invite_only: room.invite_only,
+    };
+    if (!(await canViewRoom(roomCode, req.user!.id))) {
+      return res.json(access);
+    }
+    res.json({
+      ...access,
+      qr_code: room.qr_code,
+      creator_id: room.creator_id,
+      created_at: room.created_at,
+      media_mode: room.media_mode,
+    });
   } catch (error) {
     console.error("Error fetching room details:", error);
     res.status(500).json({ error: "Failed to fetch room details" });
   }
 });
 
+/**
+ * POST /api/rooms/:roomCode/invites
+ * Body (all optional): { role, maxUses, expiresInSeconds }. Signs an invite
+ * link that lets people skip the passphrase, the lobby and the invite list.
+ * Hosts and co-hosts only; only hosts can invite co-hosts.
+ */
+router.post("/:roomCode/invites", async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { role, maxUses, expiresInSeconds } = createInviteSchema.parse(req.body ?? {});
+
+    const room = await db.rooms.findByCode(roomCode);
+    if (!room || !room.active) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+    const myRole = await getRoomRole(roomCode, req.user!.id);
+    if (!isModerator(myRole)) {
+      return res.status(403).json({ error: "Only hosts and co-hosts can invite people" });
+    }
+    if (role === "cohost" && myRole !== "host") {
+      return res.status(403).json({ error: "Only the host can invite co-hosts" });
+    }
+
+    const link = await createInviteLink(appUrl(req), roomCode, {
+      role,
+      maxUses: maxUses ?? null,
+      expiresInSeconds,
+    });
+    res.status(201).json(link);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      console.error("Error creating invite link:", error);
+      res.status(500).json({ error: "Failed to create invite link" });
+    }
+  }
+});
+
+/**
+ * GET /api/rooms/:roomCode/transcript?format=md|txt|json|srt|vtt
+ * Downloads the room's chat messages and captions. Members only.
+ */
+router.get("/:roomCode/transcript", async (req, res) => {
+  try {
+    const { roomCode } = req.params;
+    const { format } = transcriptQuerySchema.parse(req.query);
+
+    const room = await db.rooms.findByCode(roomCode);
+    if (!room) {
+      return res.status(404).json({ error: "Room not found" });
+    }
+    // The creator keeps access after leaving; everyone else must be a member
+    const userId = req.user!.id;
+    if (room.creator_id !== userId && !(await getRoomRole(roomCode, userId))) {
+      return res.status(403).json({ error: "Not a member of this room" });
+    }
+
+    const messages = await db.messages.listByRoom(roomCode);
+    const entries = buildTranscript(room, messages);
+    const { body, contentType } = renderTranscript(format, room, entries);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="transcript-${roomCode}.${format}"`
+    );
+    res.send(body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      console.error("Error exporting transcript:", error);
+      res.status(500).json({ error: "Failed to export transcript" });
+    }
+  }
+});
+
 /**
  * POST /api/rooms/join
  * Joins an existing room by inserting a row into room_members.
- * Returns a list of current members in the room.
+ * Returns a list of current members in the room. In a room with a lobby,
+ * answers 202 with status "waiting" instead; the joiner then waits over
+ * the socket for a host to let them in. An `inviteToken` from an invite
+ * link joins with the link's role.
  */
 // In your join endpoint (rooms/join route):
 router.post("/join", async (req, res) => {
   try {
-    const { userId, roomCode } = joinRoomSchema.parse(req.body);
+    const { roomCode, passphrase, inviteToken } = joinRoomSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    const invite = inviteToken ? readInviteToken(inviteToken) : null;
+    if (inviteToken && invite?.roomCode !== roomCode) {
+      return res.status(403).json({
+        error: "This invite link has expired or is not valid.",
+        inviteInvalid: true,
+      });
+    }
 
     // Check if room exists
-    const { data: roomData, error: roomError } = await supabase
-      .from("rooms")
-      .select("*")
-      .eq("code", roomCode)
-      .single();
-    if (roomError || !roomData) {
+    const roomData = await db.rooms.findByCode(roomCode);
+    if (!roomData) {
       return res.status(404).json({ error: "Room not found" });
     }
     // Check if the room is finished (active === false)
@@ -95,42 +253,70 @@ router.post("/join", async (req, res) => {
       return res.status(400).json({ error: "Meeting is finished." });
     }
 
+    // Banned users can never come back
+    if (await db.roomBans.isBanned(roomCode, userId)) {
+      return res.status(403).json({ error: "You have been banned from this room." });
+    }
+
     // Check if user is already in room
-    const { data: existingMember, error: memberError } = await supabase
-      .from("room_members")
-      .select("*")
-      .eq("room_code", roomCode)
-      .eq("user_id", userId)
-      .maybeSingle();
+    const existingMember = await db.roomMembers.find(roomCode, userId);
+
+    // A locked room still lets existing members back in
+    if (!existingMember && roomData.locked) {
+      return res.status(403).json({ error: "Room is locked by the host." });
+    }
 
-    if (memberError) throw memberError;
+    // Invited users are let straight in, and so is anyone with an invite
+    // link that has uses left
+    if (!existingMember && invite) {
+      const redeemed = await db.inviteUses.redeem(
+        invite.id,
+        roomCode,
+        userId,
+        invite.maxUses
+      );
+      if (!redeemed) {
+        return res.status(403).json({
+          error: "This invite link has been used up.",
+          inviteInvalid: true,
+        });
+      }
+    }
+    const invited =
+      !existingMember &&
+      (invite !== null || (await db.roomInvites.isInvited(roomCode, userId)));
+    if (!existingMember && !invited) {
+      if (roomData.invite_only) {
+        return res.status(403).json({ error: "This room is invite only." });
+      }
 
-    if (!existingMember) {
-      // Try to add the user to the room
-      const { error: joinError } = await supabase
-        .from("room_members")
-        .insert([{ room_code: roomCode, user_id: userId }]);
-      // If a duplicate key error happens, treat it as already joined
-      if (joinError) {
-        if (joinError.code === "23505") {
-          // Already exists, so we don't need to insert again
-          console.log("User already in room, skipping insert.");
-        } else {
-          throw joinError;
+      if (roomData.passphrase_hash) {
+        const matches =
+          passphrase !== undefined &&
+          (await verifyPassword(passphrase, roomData.passphrase_hash));
+        if (!matches) {
+          return res.status(403).json({
+            error: passphrase ? "Wrong passphrase." : "This room needs a passphrase.",
+            passphraseRequired: true,
+          });
         }
       }
+
+      if (roomData.lobby_enabled) {
+        await db.roomLobby.add(roomCode, userId);
+        return res.status(202).json({
+          message: "Waiting for the host to let you in",
+          status: "waiting",
+        });
+      }
     }
-    // Fetch updated list of room members
-    const { data: members, error: fetchMembersError } = await supabase
-      .from("room_members")
-      .select(`user:users(id, display_name)`)
-      .eq("room_code", roomCode);
-    if (fetchMembersError) throw fetchMembersError;
 
-    const participantList = members.map((member: any) => ({
-      id: member.user.id,
-      displayName: member.user.display_name,
-    }));
+    if (!existingMember) {
+      // Adding is idempotent, so a concurrent join is not an error
+      await db.roomMembers.add(roomCode, userId, invite?.role);
+    }
+    // Fetch updated list of room members
+    const participantList = await db.roomMembers.list(roomCode);
 
     return res.status(200).json({
       message: existingMember ? "Already in room" : "Successfully joined room",
@@ -146,49 +332,4 @@ router.post("/join", async (req, res) => {
   }
 });
 
-/**
- * Helper function to get all room members with user info (id, display_name)
- */
-async function getRoomMembers(roomCode: string) {
-  const { data, error } = await supabase
-    .from("room_members")
-    .select(
-      `
-      user:users(
-        id,
-        display_name
-      )
-    `
-    )
-    .eq("room_code", roomCode);
-
-  if (error) {
-    console.error("Error fetching room members:", error);
-    return [];
-  }
-
-  // Transform to a simpler structure
-  return data.map((member: any) => ({
-    id: member.user.id,
-    displayName: member.user.display_name,
-  }));
-}
-
-// PATCH /api/rooms/finish/:roomCode
-router.patch("/finish/:roomCode", async (req, res) => {
-  const { roomCode } = req.params;
-  try {
-    const { data, error } = await supabase
-      .from("rooms")
-      .update({ active: false })
-      .eq("code", roomCode);
-    if (error) {
-      return res.status(500).json({ error: error.message });
-    }
-    return res.status(200).json(data);
-  } catch (err) {
-    return res.status(400).json({ error: err });
-  }
-});
-
 export const roomsRouter = router;
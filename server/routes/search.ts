@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { parseSearchQuery } from "../utils/search";
+import type { SearchResponse } from "../../shared/search";
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Omit to search every room the user has been part of
+  roomCode: z.string().length(6).optional(),
+  speakerId: z.string().uuid().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * GET /api/search?q=&roomCode=&speakerId=&from=&to=&limit=
+ * Searches chat messages. `"quoted words"` match as a phrase and `word*`
+ * as a prefix; all terms must match. Results are newest first.
+ */
+router.get("/", async (req, res) => {
+  try {
+    const { q, roomCode, speakerId, from, to, limit } = searchQuerySchema.parse(
+      req.query
+    );
+    const terms = parseSearchQuery(q);
+    if (terms.length === 0) {
+      return res.status(400).json({ error: "Search query has no words to match" });
+    }
+
+    // Users only ever see rooms they created, joined or posted in
+    const roomCodes = await db.rooms.listCodesForUser(req.user!.id);
+    if (roomCode && !roomCodes.includes(roomCode)) {
+      return res.status(403).json({ error: "Not a member of this room" });
+    }
+
+    const hits = await db.messages.search({
+      terms,
+      roomCodes: roomCode ? [roomCode] : roomCodes,
+      speakerId,
+      from,
+      to,
+      limit,
+    });
+
+    const response: SearchResponse = {
+      results: hits.map((hit) => ({
+        id: hit.id,
+        room_code: hit.room_code,
+        user_id: hit.user_id,
+        display_name: hit.display_name,
+        content: hit.content,
+        created_at: hit.created_at,
+        snippet: hit.snippet,
+      })),
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error searching messages:", error);
+    res.status(500).json({ error: "Failed to search messages" });
+  }
+});
+
+export const searchRouter = router;
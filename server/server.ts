@@ -7,13 +7,33 @@ import { authRouter } from "./routes/auth";
 import { roomsRouter } from "./routes/rooms";
 import { messagesRouter } from "./routes/messages";
 import { roomMembersRouter } from "./routes/roommembers";
-import { supabase } from "./db"; // Ensure this is correctly exported
+import { searchRouter } from "./routes/search";
+import { iceRouter } from "./routes/ice";
+import { db, initDb } from "./db";
+import { authenticateSocket, requireAuth } from "./middleware/auth";
+import { onEvent, SocketError, type AppServer } from "./utils/socketHandler";
+import { initPresence, presenceStore } from "./presence";
+import { addPresence, isSocketInRoom, removePresence } from "./sockets/presence";
+import { registerModerationHandlers } from "./sockets/moderation";
+import { registerLobbyHandlers, sendLobby } from "./sockets/lobby";
+import { postChatMessage, registerMessageHandlers } from "./sockets/messages";
+import { registerSpeechHandlers } from "./sockets/speech";
+import { registerTranslationHandlers } from "./sockets/translation";
+import { registerMediaHandlers } from "./sockets/media";
+import { loadMessagePage } from "./utils/messageHistory";
+import { isModerator } from "./utils/roomRoles";
+import {
+  dropConnection,
+  startHeartbeatSweeper,
+  startRoomSweeper,
+  updateRoomActivity,
+} from "./sockets/lifecycle";
 
 dotenv.config();
 
 const app = express();
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io: AppServer = new Server(httpServer, {
   cors: {
     origin: "*", // Allow all origins
     methods: ["GET", "POST"],
@@ -26,175 +46,157 @@ app.use(express.json());
 
 // Routes
 app.use("/api/auth", authRouter);
-app.use("/api/rooms", roomsRouter);
-app.use("/api/messages", messagesRouter);
-app.use("/api/room-members", roomMembersRouter);
-
-// Track which user is in which room by socket ID
-// socketRoomMap[socket.id] = { roomCode, userId }
-const socketRoomMap: {
-  [socketId: string]: { roomCode: string; userId: string };
-} = {};
-
-// Map userId to socket.id for signaling
-const userSockets: { [userId: string]: string } = {};
-
-// For presence: roomPresence[roomCode] = Set of userIds
-const roomPresence: { [roomCode: string]: Set<string> } = {};
-
-// Type definitions for WebRTC signaling data
-interface OfferData {
-  fromUserId: string;
-  targetUserId: string;
-  offer: any; // RTCSessionDescriptionInit or similar
-}
-
-interface AnswerData {
-  fromUserId: string;
-  targetUserId: string;
-  answer: any; // RTCSessionDescriptionInit or similar
-}
-
-interface IceCandidateData {
-  fromUserId: string;
-  targetUserId: string;
-  candidate: any; // RTCIceCandidateInit or similar
-}
+app.use("/api/rooms", requireAuth, roomsRouter);
+app.use("/api/messages", requireAuth, messagesRouter);
+app.use("/api/room-members", requireAuth, roomMembersRouter);
+app.use("/api/search", requireAuth, searchRouter);
+app.use("/api/ice-servers", requireAuth, iceRouter);
+
+// Every socket must present a valid session token in its handshake
+io.use(authenticateSocket);
 
 io.on("connection", (socket) => {
-  console.log("User connected:", socket.id);
+  // Identity comes from the session token, never from event payloads
+  const { id: userId, displayName } = socket.data.user;
+  console.log("User connected:", socket.id, "as", userId);
+
+  // Throws not_in_room unless this socket has joined the room
+  const requireRoom = async (roomCode: string) => {
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+  };
+
+  // A signaling target, which must share a room with this socket, or a
+  // not_found error. It may be connected to another server instance; the
+  // adapter delivers there.
+  const requireTargetSocket = async (targetConnectionId: string) => {
+    const [ownRooms, targetRooms] = await Promise.all([
+      presenceStore.roomsOf(socket.id),
+      presenceStore.roomsOf(targetConnectionId),
+    ]);
+    if (!targetRooms.some((roomCode) => ownRooms.includes(roomCode))) {
+      throw new SocketError("not_found", `Connection ${targetConnectionId} is not in your rooms`);
+    }
+    return targetConnectionId;
+  };
 
   // Handle user joining a room
-  socket.on(
-    "join_room",
-    (data: { roomCode: string; userId: string; displayName: string }) => {
-      const { roomCode, userId, displayName } = data;
-
-      // Store in maps
-      socketRoomMap[socket.id] = { roomCode, userId };
-      userSockets[userId] = socket.id;
-      console.log(`User ${userId} joined with socket ${socket.id}`);
-      // Join the actual Socket.IO room
-      socket.join(roomCode);
-
-      // Update presence for that room
-      if (!roomPresence[roomCode]) {
-        roomPresence[roomCode] = new Set();
-      }
-      roomPresence[roomCode].add(userId);
-
-      // Broadcast presence to the room
-      io.to(roomCode).emit("presence_update", Array.from(roomPresence[roomCode]));
-
-      // Notify others in the room about the new participant
-      socket
-        .to(roomCode)
-        .emit("participant_joined", { participant: { id: userId, displayName } });
-      console.log(`User ${userId} (${displayName}) joined room ${roomCode}`);
+  onEvent(socket, "join_room", async ({ roomCode }) => {
+    // Only members registered through POST /api/rooms/join may listen in
+    const member = await db.roomMembers.find(roomCode, userId);
+    if (!member) {
+      throw new SocketError("forbidden", `Not a member of room ${roomCode}`);
     }
-  );
-
-  // Fetch message history for a room
-  socket.on("fetch_messages", async (roomCode) => {
-    try {
-      const { data: messages, error } = await supabase
-        .from("messages")
-        .select("*")
-        .eq("room_code", roomCode)
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        console.error("Supabase Fetch Error:", error.message);
-        return;
-      }
-
-      // Send the entire chat history back only to the requesting socket
-      socket.emit("chat_history", messages);
-    } catch (error) {
-      console.error("Error fetching messages:", error);
+    const room = await db.rooms.findByCode(roomCode);
+    if (!room?.active) {
+      throw new SocketError("forbidden", `Room ${roomCode} is closed`);
     }
+
+    // Join the actual Socket.IO room, then record and broadcast presence;
+    // the rest of the room hears participant_joined unless the user was
+    // already there from another tab or device. The socket keeps any other
+    // rooms it is in.
+    socket.join(roomCode);
+    const mute = await db.roomMutes.find(roomCode, userId);
+    await addPresence(
+      io,
+      roomCode,
+      { connectionId: socket.id, userId, displayName },
+      member.role,
+      mute !== null
+    );
+    // Still muted from before they left or reconnected
+    if (mute) socket.emit("force_mute", { roomCode, byUserId: mute.muted_by });
+    await updateRoomActivity(io, roomCode);
+    console.log(`User ${userId} joined with socket ${socket.id}`);
+
+    // Hosts and co-hosts see who is waiting to be let in
+    if (isModerator(member.role)) await sendLobby(io, roomCode, socket.id);
+    console.log(`User ${userId} (${displayName}) joined room ${roomCode}`);
+
+    // Send the captions this user missed before joining
+    const segments = await db.speechSegments.listByRoom(roomCode);
+    socket.emit(
+      "caption_history",
+      segments.map((segment) => ({
+        roomCode,
+        speakerId: segment.speaker_id,
+        displayName: segment.display_name,
+        segmentId: segment.segment_id,
+        seq: segment.seq,
+        text: segment.content,
+        isFinal: true,
+        timestamp: segment.created_at,
+      }))
+    );
+  });
+
+  // Keeps this connection from being dropped as a zombie
+  onEvent(socket, "heartbeat", () => presenceStore.touch(socket.id, Date.now()));
+
+  // Fetch a page of message history for a room, returned through the ack
+  onEvent(socket, "fetch_messages", async (query) => {
+    await requireRoom(query.roomCode);
+    return loadMessagePage(query);
   });
 
   // Handle incoming chat messages (including speech-to-text transcripts)
-  socket.on("chat_message", async (data) => {
-    const { roomCode, message, userId } = data;
-
-    try {
-      // Insert the message into the Supabase 'messages' table
-      const { data: insertedMessage, error } = await supabase
-        .from("messages")
-        .insert([{ room_code: roomCode, user_id: userId, content: message }])
-        .select();
-
-      if (error) {
-        console.error("Supabase Insertion Error:", error.message);
-        return;
-      }
-
-      // Broadcast the inserted message to all clients in the room
-      if (insertedMessage && insertedMessage.length > 0) {
-        io.to(roomCode).emit("chat_message", {
-          userId: insertedMessage[0].user_id,
-          message: insertedMessage[0].content,
-          timestamp: insertedMessage[0].created_at,
-        });
-      }
-    } catch (error) {
-      console.error("Error handling chat message:", error);
-    }
+  onEvent(socket, "chat_message", async ({ roomCode, message, kind, speech }) => {
+    await requireRoom(roomCode);
+    return postChatMessage(io, {
+      roomCode,
+      userId,
+      displayName,
+      content: message,
+      kind,
+      speech,
+    });
   });
 
   // Handle WebRTC signaling: offer
-  socket.on("offer", (data: OfferData) => {
-    const { fromUserId, targetUserId, offer } = data;
-    const targetSocketId = userSockets[targetUserId];
-    if (targetSocketId) {
-      io.to(targetSocketId).emit("offer", { fromUserId, offer });
-    } else {
-      console.warn(`Target user ${targetUserId} not found for offer from ${fromUserId}`);
-    }
+  onEvent(socket, "offer", async ({ targetConnectionId, offer }) => {
+    io.to(await requireTargetSocket(targetConnectionId)).emit("offer", {
+      fromUserId: userId,
+      fromConnectionId: socket.id,
+      offer,
+    });
   });
 
   // Handle WebRTC signaling: answer
-  socket.on("answer", (data: AnswerData) => {
-    const { fromUserId, targetUserId, answer } = data;
-    const targetSocketId = userSockets[targetUserId];
-    if (targetSocketId) {
-      io.to(targetSocketId).emit("answer", { fromUserId, answer });
-    } else {
-      console.warn(`Target user ${targetUserId} not found for answer from ${fromUserId}`);
-    }
+  onEvent(socket, "answer", async ({ targetConnectionId, answer }) => {
+    io.to(await requireTargetSocket(targetConnectionId)).emit("answer", {
+      fromUserId: userId,
+      fromConnectionId: socket.id,
+      answer,
+    });
   });
 
   // Handle WebRTC signaling: ice_candidate
-  socket.on("ice_candidate", (data: IceCandidateData) => {
-    const { fromUserId, targetUserId, candidate } = data;
-    const targetSocketId = userSockets[targetUserId];
-    if (targetSocketId) {
-      io.to(targetSocketId).emit("ice_candidate", { fromUserId, candidate });
-    } else {
-      console.warn(
-        `Target user ${targetUserId} not found for ICE candidate from ${fromUserId}`
-      );
-    }
+  onEvent(socket, "ice_candidate", async ({ targetConnectionId, candidate }) => {
+    io.to(await requireTargetSocket(targetConnectionId)).emit("ice_candidate", {
+      fromUserId: userId,
+      fromConnectionId: socket.id,
+      candidate,
+    });
+  });
+
+  // Handle WebRTC signaling: hangup
+  onEvent(socket, "hangup", async ({ targetConnectionId }) => {
+    io.to(await requireTargetSocket(targetConnectionId)).emit("hangup", {
+      fromUserId: userId,
+      fromConnectionId: socket.id,
+    });
   });
 
   // Handle user leaving a room
-  socket.on("leave_room", (roomCode) => {
+  onEvent(socket, "leave_room", async ({ roomCode }) => {
     socket.leave(roomCode);
 
-    // Also remove them from presence if they're in there
-    const info = socketRoomMap[socket.id];
-    if (info && info.roomCode === roomCode) {
-      const { userId } = info;
-      roomPresence[roomCode]?.delete(userId);
-      io.to(roomCode).emit(
-        "presence_update",
-        Array.from(roomPresence[roomCode] || [])
-      );
-      // Remove from maps
-      delete socketRoomMap[socket.id];
-      delete userSockets[userId];
+    // Also remove them from presence if they're in there; the server
+    // decides when an empty room is finished
+    if (await removePresence(io, roomCode, socket.id, "left")) {
+      await updateRoomActivity(io, roomCode);
     }
 
     console.log(`Socket ${socket.id} left room ${roomCode}`);
@@ -204,32 +206,28 @@ io.on("connection", (socket) => {
   socket.on("disconnect", () => {
     console.log("User disconnected:", socket.id);
 
-    // Figure out which room they belonged to
-    const info = socketRoomMap[socket.id];
-    if (info) {
-      const { roomCode, userId } = info;
-      // Remove from presence
-      if (roomPresence[roomCode]) {
-        roomPresence[roomCode].delete(userId);
-        io.to(roomCode).emit(
-          "presence_update",
-          Array.from(roomPresence[roomCode])
-        );
-      }
-      // Clean up the maps
-      delete socketRoomMap[socket.id];
-      delete userSockets[userId];
-    }
+    // Remove this connection from every room it was in. The user stays
+    // present wherever they have another connection; elsewhere they get a
+    // grace period to reconnect before the room hears they left.
+    dropConnection(io, socket.id)
+      .catch((error) => console.error("Error updating room activity:", error));
   });
+
+  registerModerationHandlers(io, socket);
+  registerLobbyHandlers(io, socket);
+  registerMessageHandlers(io, socket);
+  registerSpeechHandlers(io, socket);
+  registerTranslationHandlers(socket);
+  registerMediaHandlers(io, socket);
 });
 
 // Error handling middleware
 app.use(
   (
     err: Error,
-    req: express.Request,
+    _req: express.Request,
     res: express.Response,
-    next: express.NextFunction
+    _next: express.NextFunction
   ) => {
     console.error(err.stack);
     res.status(500).json({ error: "Something went wrong!" });
@@ -238,8 +236,12 @@ app.use(
 
 // Start the server
 const PORT = process.env.PORT || 3000;
-httpServer.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+Promise.all([initDb(), initPresence(io)]).then(() => {
+  startRoomSweeper(io);
+  startHeartbeatSweeper(io);
+  httpServer.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+  });
 });
 
 export default app;
\ No newline at end of file
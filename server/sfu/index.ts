@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+import { createWeriftSfu } from "./werift";
+import type { Sfu } from "./types";
+
+export type * from "./types";
+
+dotenv.config();
+
+/**
+ * SFU picks the selective forwarding unit rooms can switch to once they
+ * outgrow a full mesh: "werift" forwards on this Node process. Without it
+ * every room stays a mesh.
+ *
+ * A room's forwarding lives in one process, and with REDIS_URL its
+ * participants may be spread over several, where they would never hear
+ * each other. So several instances means every room stays a mesh.
+ */
+function createSfu(): Sfu | null {
+  const sfu = process.env.SFU;
+  if (sfu && process.env.REDIS_URL) {
+    console.warn(`SFU "${sfu}" is not supported with REDIS_URL, rooms stay peer-to-peer`);
+    return null;
+  }
+  switch (sfu) {
+    case "werift":
+      return createWeriftSfu({ portRange: parsePortRange(process.env.SFU_PORT_RANGE) });
+    case undefined:
+    case "":
+      return null;
+    default:
+      console.warn(`Unknown SFU "${sfu}", rooms stay peer-to-peer`);
+      return null;
+  }
+}
+
+// "40000-40100" -> [40000, 40100]
+function parsePortRange(value: string | undefined): [number, number] | undefined {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return undefined;
+  return [Number(match[1]), Number(match[2])];
+}
+
+export const sfu = createSfu();
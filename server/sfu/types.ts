@@ -0,0 +1,35 @@
+export interface SdpOffer {
+  type: "offer";
+  sdp: string;
+}
+
+export interface SdpAnswer {
+  type: "answer";
+  sdp: string;
+}
+
+/**
+ * Forwarding for one room. Every participant sends its audio up once and
+ * receives each other participant's on a connection of its own. Clients
+ * make the offers; descriptions carry all candidates, nothing trickles.
+ * Participants are socket connections, so one user may take part from
+ * several tabs or devices.
+ */
+export interface SfuRoom {
+  // Replaces any earlier upstream connection of the participant's
+  publish(participantId: string, offer: SdpOffer): Promise<SdpAnswer>;
+  subscribe(subscriberId: string, publisherId: string, offer: SdpOffer): Promise<SdpAnswer>;
+  // Participants currently publishing, in the order they started
+  publisherIds(): string[];
+  // A muted participant's audio reaches nobody, whatever their client
+  // sends. Holds across publishing again; may be set before publishing.
+  setMuted(participantId: string, muted: boolean): void;
+  // Closes the participant's upstream and every connection to or from them
+  removeParticipant(participantId: string): void;
+  close(): void;
+}
+
+export interface Sfu {
+  name: string;
+  createRoom(roomCode: string): SfuRoom;
+}
@@ -0,0 +1,136 @@
+import { MediaStreamTrack, RTCPeerConnection, RTCRtpCodecParameters } from "werift";
+import { STUN_URLS } from "../utils/iceServers";
+import type { SdpAnswer, SdpOffer, Sfu } from "./types";
+
+// Opus only, so every publisher's packets suit every subscriber
+const CODECS = {
+  audio: [
+    new RTCRtpCodecParameters({ mimeType: "audio/opus", clockRate: 48000, channels: 2 }),
+  ],
+};
+
+interface Subscription {
+  pc: RTCPeerConnection;
+  // Fed the publisher's packets
+  track: MediaStreamTrack;
+}
+
+const closeQuietly = (pc: RTCPeerConnection) => {
+  pc.close().catch((error) => console.error("Error closing SFU connection:", error));
+};
+
+/**
+ * Forwards RTP between WebRTC connections on this process using werift.
+ * Packets are relayed as they arrive, never decoded. `portRange` limits the
+ * UDP ports used, for firewalls.
+ */
+export function createWeriftSfu(options: { portRange?: [number, number] }): Sfu {
+  const createConnection = () =>
+    new RTCPeerConnection({
+      codecs: CODECS,
+      iceServers: STUN_URLS.length > 0 ? [{ urls: STUN_URLS }] : [],
+      icePortRange: options.portRange,
+    });
+
+  // werift gathers before resolving, so the answer has every candidate
+  const answer = async (pc: RTCPeerConnection, offer: SdpOffer): Promise<SdpAnswer> => {
+    await pc.setRemoteDescription(offer);
+    await pc.setLocalDescription(await pc.createAnswer());
+    return { type: "answer", sdp: pc.localDescription!.sdp };
+  };
+
+  return {
+    name: "werift",
+
+    createRoom(roomCode) {
+      const publishers = new Map<string, RTCPeerConnection>();
+      // subscriptions.get(publisherId).get(subscriberId)
+      const subscriptions = new Map<string, Map<string, Subscription>>();
+      const mutedIds = new Set<string>();
+
+      const unsubscribe = (publisherId: string, subscriberId: string) => {
+        const subscribers = subscriptions.get(publisherId);
+        const subscription = subscribers?.get(subscriberId);
+        if (!subscription) return;
+        subscribers!.delete(subscriberId);
+        subscription.track.stop();
+        closeQuietly(subscription.pc);
+      };
+
+      return {
+        async publish(participantId, offer) {
+          const previous = publishers.get(participantId);
+          if (previous) closeQuietly(previous);
+
+          const pc = createConnection();
+          publishers.set(participantId, pc);
+          pc.onTrack.subscribe((track) => {
+            track.onReceiveRtp.subscribe((rtp) => {
+              if (mutedIds.has(participantId)) return;
+              const subscribers = subscriptions.get(participantId);
+              if (!subscribers?.size) return;
+              // Senders rewrite the header they are given, so each
+              // subscriber gets a copy of its own
+              const packet = rtp.serialize();
+              subscribers.forEach(({ track }) => track.writeRtp(packet));
+            });
+          });
+
+          try {
+            return await answer(pc, offer);
+          } catch (error) {
+            if (publishers.get(participantId) === pc) publishers.delete(participantId);
+            closeQuietly(pc);
+            throw error;
+          }
+        },
+
+        async subscribe(subscriberId, publisherId, offer) {
+          unsubscribe(publisherId, subscriberId);
+
+          const pc = createConnection();
+          const track = new MediaStreamTrack({ kind: "audio" });
+          pc.addTransceiver(track, { direction: "sendonly" });
+          if (!subscriptions.has(publisherId)) subscriptions.set(publisherId, new Map());
+          subscriptions.get(publisherId)!.set(subscriberId, { pc, track });
+
+          try {
+            return await answer(pc, offer);
+          } catch (error) {
+            unsubscribe(publisherId, subscriberId);
+            throw error;
+          }
+        },
+
+        publisherIds() {
+          return Array.from(publishers.keys());
+        },
+
+        setMuted(participantId, muted) {
+          if (muted) mutedIds.add(participantId);
+          else mutedIds.delete(participantId);
+        },
+
+        removeParticipant(participantId) {
+          const pc = publishers.get(participantId);
+          if (pc) {
+            publishers.delete(participantId);
+            closeQuietly(pc);
+          }
+          Array.from(subscriptions.get(participantId)?.keys() ?? []).forEach((subscriberId) =>
+            unsubscribe(participantId, subscriberId)
+          );
+          subscriptions.delete(participantId);
+          mutedIds.delete(participantId);
+          subscriptions.forEach((_, publisherId) => unsubscribe(publisherId, participantId));
+        },
+
+        close() {
+          const participantIds = new Set([...publishers.keys(), ...subscriptions.keys()]);
+          participantIds.forEach((participantId) => this.removeParticipant(participantId));
+          console.log(`SFU room ${roomCode} closed`);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { db } from "../db";
+import type { RoomClosedEvent } from "../../shared/socketEvents";
+import { presenceStore } from "../presence";
+import type { AppServer } from "../utils/socketHandler";
+import { closeMedia, updateMediaMode } from "./media";
+import { removeConnection } from "./presence";
+
+// How long a room may sit with nobody present before it is closed
+const ROOM_IDLE_TIMEOUT_MS =
+  (Number(process.env.ROOM_IDLE_TIMEOUT_SECONDS) || 5 * 60) * 1000;
+
+// How often the sweeper looks for rooms nobody came back to, e.g. after a
+// restart dropped the in-memory idle timers
+const ROOM_SWEEP_INTERVAL_MS =
+  (Number(process.env.ROOM_SWEEP_INTERVAL_SECONDS) || 60) * 1000;
+
+// A connection that sends no heartbeat for this long is dropped
+const HEARTBEAT_TIMEOUT_MS =
+  (Number(process.env.HEARTBEAT_TIMEOUT_SECONDS) || 45) * 1000;
+
+// idleTimers[roomCode] fires when an empty room has been idle long enough
+const idleTimers: { [roomCode: string]: NodeJS.Timeout } = {};
+
+const isOccupied = async (roomCode: string) =>
+  (await presenceStore.connections(roomCode)).length > 0;
+
+/**
+ * Marks a room inactive, tells everyone still in it and drops their presence
+ */
+export async function closeRoom(
+  io: AppServer,
+  roomCode: string,
+  reason: RoomClosedEvent["reason"]
+) {
+  clearTimeout(idleTimers[roomCode]);
+  delete idleTimers[roomCode];
+
+  await db.rooms.setActive(roomCode, false);
+
+  io.to(roomCode).emit("room_closed", { roomCode, reason });
+  io.in(roomCode).socketsLeave(roomCode);
+  await presenceStore.clearRoom(roomCode);
+  closeMedia(roomCode);
+  console.log(`Room ${roomCode} closed (${reason})`);
+}
+
+/**
+ * Call after presence in a room changes. An occupied room cancels any
+ * pending idle close; an empty one starts the countdown. The room's media
+ * mode is re-evaluated for the new head count.
+ */
+export async function updateRoomActivity(io: AppServer, roomCode: string) {
+  if (await isOccupied(roomCode)) {
+    clearTimeout(idleTimers[roomCode]);
+    delete idleTimers[roomCode];
+  } else if (!idleTimers[roomCode]) {
+    idleTimers[roomCode] = setTimeout(async () => {
+      delete idleTimers[roomCode];
+      try {
+        if (await isOccupied(roomCode)) return;
+        await closeRoom(io, roomCode, "idle");
+      } catch (error) {
+        console.error(`Error closing idle room ${roomCode}:`, error);
+      }
+    }, ROOM_IDLE_TIMEOUT_MS);
+  }
+
+  await db.rooms.touch(roomCode);
+  await updateMediaMode(io, roomCode);
+}
+
+/**
+ * Periodically closes active rooms that have had no activity for the idle
+ * period and nobody connected
+ */
+export function startRoomSweeper(io: AppServer) {
+  const sweep = async () => {
+    try {
+      const before = new Date(Date.now() - ROOM_IDLE_TIMEOUT_MS).toISOString();
+      const rooms = await db.rooms.listIdle(before);
+      for (const room of rooms) {
+        if (await isOccupied(room.code)) {
+          await db.rooms.touch(room.code);
+        } else {
+          await closeRoom(io, room.code, "idle");
+        }
+      }
+    } catch (error) {
+      console.error("Error sweeping idle rooms:", error);
+    }
+  };
+
+  const timer = setInterval(sweep, ROOM_SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Takes a closed connection out of its rooms, starting its user's grace
+ * period wherever it was their last, and updates those rooms' activity
+ */
+export async function dropConnection(io: AppServer, connectionId: string) {
+  const roomCodes = await removeConnection(io, connectionId);
+  await Promise.all(roomCodes.map((roomCode) => updateRoomActivity(io, roomCode)));
+}
+
+/**
+ * Periodically drops connections that stopped sending heartbeats. Their
+ * socket is disconnected if it still exists on any instance; one left
+ * behind by a crashed instance is taken out of presence here.
+ */
+export function startHeartbeatSweeper(io: AppServer) {
+  const sweep = async () => {
+    try {
+      const stale = await presenceStore.staleConnections(Date.now() - HEARTBEAT_TIMEOUT_MS);
+      for (const connectionId of stale) {
+        console.log(`Dropping connection ${connectionId}: no heartbeat`);
+        io.in(connectionId).disconnectSockets(true);
+        await dropConnection(io, connectionId);
+      }
+    } catch (error) {
+      console.error("Error sweeping silent connections:", error);
+    }
+  };
+
+  const timer = setInterval(sweep, HEARTBEAT_TIMEOUT_MS / 3);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,88 @@
+import { db } from "../db";
+import { presenceStore } from "../presence";
+import { getRoomRole, isModerator } from "../utils/roomRoles";
+import {
+  onEvent,
+  SocketError,
+  type AppServer,
+  type AppSocket,
+} from "../utils/socketHandler";
+
+// Socket.IO room of the sockets a user is waiting in a room's lobby with
+const waitingRoom = (roomCode: string, userId: string) => `lobby:${roomCode}:${userId}`;
+
+/**
+ * Sends who is waiting in a room's lobby to every host and co-host
+ * connected to it, or only to `socketId`
+ */
+export async function sendLobby(io: AppServer, roomCode: string, socketId?: string) {
+  const waiting = await db.roomLobby.list(roomCode);
+  if (socketId) {
+    io.to(socketId).emit("lobby_updated", { roomCode, waiting });
+    return;
+  }
+
+  const connections = await presenceStore.connections(roomCode);
+  const userIds = Array.from(new Set(connections.map((connection) => connection.userId)));
+  const roles = await Promise.all(userIds.map((userId) => getRoomRole(roomCode, userId)));
+  const moderatorIds = userIds.filter((_, i) => isModerator(roles[i]));
+  const socketIds = connections
+    .filter((connection) => moderatorIds.includes(connection.userId))
+    .map((connection) => connection.connectionId);
+  if (socketIds.length > 0) io.to(socketIds).emit("lobby_updated", { roomCode, waiting });
+}
+
+/**
+ * Tells someone waiting in the lobby whether they were let in
+ */
+export function sendLobbyDecision(
+  io: AppServer,
+  roomCode: string,
+  userId: string,
+  admitted: boolean
+) {
+  io.to(waitingRoom(roomCode, userId)).emit("lobby_decision", { roomCode, admitted });
+}
+
+/**
+ * The joiner's side of the lobby. POST /api/rooms/join puts them in it;
+ * hosts hear about them once they start waiting here. Hosts and co-hosts
+ * decide through admit_participant and reject_participant.
+ */
+export function registerLobbyHandlers(io: AppServer, socket: AppSocket) {
+  const { id: userId } = socket.data.user;
+
+  onEvent(socket, "wait_in_lobby", async ({ roomCode }) => {
+    // Admitted before this socket got here
+    if (await db.roomMembers.find(roomCode, userId)) return "admitted";
+    if (!(await db.roomLobby.has(roomCode, userId))) {
+      throw new SocketError("not_found", "You are not waiting to join this room");
+    }
+    socket.join(waitingRoom(roomCode, userId));
+    await sendLobby(io, roomCode);
+    return "waiting";
+  });
+
+  onEvent(socket, "leave_lobby", async ({ roomCode }) => {
+    socket.leave(waitingRoom(roomCode, userId));
+    if (await db.roomLobby.remove(roomCode, userId)) await sendLobby(io, roomCode);
+  });
+
+  // Closing the waiting screen gives up the place, unless another of the
+  // user's tabs is still waiting
+  socket.on("disconnecting", () => {
+    const rooms = Array.from(socket.rooms).filter((room) => room.startsWith("lobby:"));
+    rooms.forEach(async (room) => {
+      try {
+        const others = (await io.in(room).fetchSockets()).filter(
+          (waiting) => waiting.id !== socket.id
+        );
+        if (others.length > 0) return;
+        const roomCode = room.split(":")[1];
+        if (await db.roomLobby.remove(roomCode, userId)) await sendLobby(io, roomCode);
+      } catch (error) {
+        console.error(`Error leaving ${room}:`, error);
+      }
+    });
+  });
+}
@@ -0,0 +1,160 @@
+import { db, type MediaModeSetting } from "../db";
+import { presenceStore } from "../presence";
+import { sfu, type SfuRoom } from "../sfu";
+import type { MediaModeEvent } from "../../shared/socketEvents";
+import {
+  onEvent,
+  SocketError,
+  type AppServer,
+  type AppSocket,
+} from "../utils/socketHandler";
+import { isSocketInRoom } from "./presence";
+
+// Rooms on "auto" move to the SFU once this many people are present
+const SFU_PARTICIPANT_THRESHOLD = Number(process.env.SFU_PARTICIPANT_THRESHOLD) || 5;
+
+type MediaMode = MediaModeEvent["mode"];
+
+// The mode each room's clients were last told
+const roomMediaModes: { [roomCode: string]: MediaMode } = {};
+
+// sfuRooms[roomCode] exists while the room relays through the SFU, with
+// the sockets that have connections in it. Forwarding happens in this
+// process, which is why there is no SFU with several server instances.
+const sfuRooms: { [roomCode: string]: { room: SfuRoom; connectionIds: Set<string> } } = {};
+
+function chooseMediaMode(
+  setting: MediaModeSetting,
+  present: number,
+  current: MediaMode | undefined
+): MediaMode {
+  if (!sfu || setting === "mesh") return "mesh";
+  if (setting === "sfu") return "sfu";
+  // A room that switched stays switched until it drops clearly below the
+  // threshold, so one person coming and going doesn't flip everyone
+  const threshold =
+    current === "sfu" ? SFU_PARTICIPANT_THRESHOLD - 1 : SFU_PARTICIPANT_THRESHOLD;
+  return present >= threshold ? "sfu" : "mesh";
+}
+
+const emitPublishers = (io: AppServer, roomCode: string) => {
+  const entry = sfuRooms[roomCode];
+  io.to(roomCode).emit("sfu_publishers", {
+    roomCode,
+    connectionIds: entry ? entry.room.publisherIds() : [],
+  });
+};
+
+/** Tears down a room's SFU connections and forgets its mode */
+export function closeMedia(roomCode: string) {
+  sfuRooms[roomCode]?.room.close();
+  delete sfuRooms[roomCode];
+  delete roomMediaModes[roomCode];
+}
+
+/**
+ * Starts or stops forwarding the audio of a user's connections, for a
+ * mute by a host or co-host. Connections that publish later are checked
+ * when they do. A no-op for rooms on the mesh.
+ */
+export function setSfuMuted(roomCode: string, connectionIds: string[], muted: boolean) {
+  const entry = sfuRooms[roomCode];
+  connectionIds.forEach((connectionId) => entry?.room.setMuted(connectionId, muted));
+}
+
+/**
+ * Call after presence in a room or its media setting changes. Picks mesh or
+ * SFU, drops SFU connections of people who left, and tells the room.
+ */
+export async function updateMediaMode(io: AppServer, roomCode: string) {
+  const connections = await presenceStore.connections(roomCode);
+  const room = await db.rooms.findByCode(roomCode);
+  if (!room?.active || connections.length === 0) {
+    closeMedia(roomCode);
+    return;
+  }
+
+  // Every connection carries its own media, so each one counts
+  const mode = chooseMediaMode(room.media_mode, connections.length, roomMediaModes[roomCode]);
+  roomMediaModes[roomCode] = mode;
+
+  const entry = sfuRooms[roomCode];
+  if (mode === "mesh" && entry) {
+    entry.room.close();
+    delete sfuRooms[roomCode];
+  } else if (mode === "sfu" && !entry) {
+    sfuRooms[roomCode] = { room: sfu!.createRoom(roomCode), connectionIds: new Set() };
+  } else if (entry) {
+    const present = connections.map((connection) => connection.connectionId);
+    const gone = Array.from(entry.connectionIds).filter((id) => !present.includes(id));
+    gone.forEach((connectionId) => {
+      entry.room.removeParticipant(connectionId);
+      entry.connectionIds.delete(connectionId);
+    });
+    if (gone.length > 0) emitPublishers(io, roomCode);
+  }
+
+  io.to(roomCode).emit("media_mode", { roomCode, setting: room.media_mode, mode });
+}
+
+/**
+ * Audio through the SFU. While a room is in SFU mode each client publishes
+ * its microphone once and subscribes to everyone in sfu_publishers; in mesh
+ * mode the peer-to-peer offer/answer signaling is used instead. Also relays
+ * who is speaking.
+ */
+export function registerMediaHandlers(io: AppServer, socket: AppSocket) {
+  const { id: userId } = socket.data.user;
+
+  const requireRoom = async (roomCode: string) => {
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+  };
+
+  const requireSfuRoom = async (roomCode: string) => {
+    await requireRoom(roomCode);
+    const entry = sfuRooms[roomCode];
+    if (!entry) {
+      throw new SocketError("unavailable", "This room is not using the SFU");
+    }
+    return entry;
+  };
+
+  onEvent(socket, "sfu_publish", async ({ roomCode, offer }) => {
+    const entry = await requireSfuRoom(roomCode);
+    entry.connectionIds.add(socket.id);
+    // A mute outlasts the connection it was made on
+    entry.room.setMuted(socket.id, (await db.roomMutes.find(roomCode, userId)) !== null);
+    const answer = await entry.room.publish(socket.id, offer);
+    emitPublishers(io, roomCode);
+    return answer;
+  });
+
+  onEvent(socket, "sfu_subscribe", async ({ roomCode, publisherId, offer }) => {
+    const entry = await requireSfuRoom(roomCode);
+    if (!entry.room.publisherIds().includes(publisherId)) {
+      throw new SocketError("not_found", "That connection is not publishing");
+    }
+    entry.connectionIds.add(socket.id);
+    return entry.room.subscribe(socket.id, publisherId, offer);
+  });
+
+  onEvent(socket, "sfu_leave", ({ roomCode }) => {
+    const entry = sfuRooms[roomCode];
+    if (!entry?.connectionIds.delete(socket.id)) return;
+    entry.room.removeParticipant(socket.id);
+    emitPublishers(io, roomCode);
+  });
+
+  // Speaking state, measured by each client on its own microphone
+  onEvent(socket, "speaking", async ({ roomCode, speaking }) => {
+    await requireRoom(roomCode);
+    socket.to(roomCode).emit("speaking", {
+      roomCode,
+      userId,
+      connectionId: socket.id,
+      speaking,
+    });
+  });
+}
@@ -0,0 +1,66 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { io as connect, type Socket } from "socket.io-client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ClientToServerEvents, ServerToClientEvents } from "../../shared/socketEvents";
+import { db } from "../db";
+import { authenticateSocket, createSessionToken } from "../middleware/auth";
+import { presenceStore } from "../presence";
+import type { AppServer } from "../utils/socketHandler";
+import { postChatMessage, registerMessageHandlers } from "./messages";
+
+const ROOM_CODE = "MSG123";
+
+const httpServer = createServer();
+const io: AppServer = new Server(httpServer);
+io.use(authenticateSocket);
+io.on("connection", (socket) => registerMessageHandlers(io, socket));
+
+let client: Socket<ServerToClientEvents, ClientToServerEvents>;
+let author: { id: string; displayName: string };
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const user = await db.users.create({ displayName: "Message Tester", passwordHash: null });
+  author = { id: user.id, displayName: user.display_name };
+  await db.rooms.create({ code: ROOM_CODE, creatorId: author.id, qrCode: "" });
+  await db.roomMembers.add(ROOM_CODE, author.id, "host");
+
+  const { port } = httpServer.address() as AddressInfo;
+  client = connect(`http://localhost:${port}`, {
+    auth: { token: createSessionToken(author) },
+    transports: ["websocket"],
+  });
+  await new Promise<void>((resolve) => client.on("connect", resolve));
+  await presenceStore.add(
+    ROOM_CODE,
+    { connectionId: client.id!, userId: author.id, displayName: author.displayName },
+    Date.now()
+  );
+});
+
+afterAll(async () => {
+  client.close();
+  await io.close();
+});
+
+describe("delete_message", () => {
+  it("drops the message's stored translations", async () => {
+    const message = await postChatMessage(io, {
+      roomCode: ROOM_CODE,
+      userId: author.id,
+      displayName: author.displayName,
+      content: "hello",
+    });
+    await db.messageTranslations.save(message.id, "fr", "bonjour");
+
+    const response = await client.emitWithAck("delete_message", {
+      roomCode: ROOM_CODE,
+      messageId: message.id,
+    });
+    expect(response.ok).toBe(true);
+    expect((await db.messages.findById(message.id))?.deleted_at).not.toBeNull();
+    expect(await db.messageTranslations.listForMessages([message.id], "fr")).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { db, type SpeechFields } from "../db";
+import type { ChatMessage } from "../../shared/socketEvents";
+import { toSpeechMetadata } from "../utils/messageHistory";
+import {
+  onEvent,
+  SocketError,
+  type AppServer,
+  type AppSocket,
+} from "../utils/socketHandler";
+import { isSocketInRoom } from "./presence";
+import { deliverMessageTranslations } from "./translation";
+
+/**
+ * Stores a chat message and broadcasts it to the whole room, sender
+ * included. Used for typed messages and for final speech transcripts.
+ */
+export async function postChatMessage(
+  io: AppServer,
+  input: {
+    roomCode: string;
+    userId: string;
+    displayName: string;
+    content: string;
+    kind?: "typed" | "speech_final";
+    speech?: SpeechFields;
+  }
+): Promise<ChatMessage> {
+  const { roomCode, userId, displayName, content, kind, speech } = input;
+  const inserted = await db.messages.create({ roomCode, userId, content, kind, speech });
+
+  const chatMessage = {
+    id: inserted.id,
+    userId: inserted.user_id,
+    displayName,
+    message: inserted.content,
+    timestamp: inserted.created_at,
+    kind: inserted.kind,
+    speech: toSpeechMetadata(inserted),
+  };
+  io.to(roomCode).emit("chat_message", chatMessage);
+  deliverMessageTranslations(io, roomCode, {
+    id: inserted.id,
+    content: inserted.content,
+    language: speech?.language,
+    editedAt: null,
+  }).catch((error) => console.error("Error translating message:", error));
+  return chatMessage;
+}
+
+/**
+ * Editing, deleting and reacting to chat messages. Only authors may change
+ * a message; anyone in the room may react.
+ */
+export function registerMessageHandlers(io: AppServer, socket: AppSocket) {
+  const { id: userId } = socket.data.user;
+
+  // The message, if it belongs to the room this socket has joined
+  const requireMessage = async (roomCode: string, messageId: string) => {
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+    const message = await db.messages.findById(messageId);
+    if (!message || message.room_code !== roomCode) {
+      throw new SocketError("not_found", "Message not found");
+    }
+    return message;
+  };
+
+  const requireOwnMessage = async (roomCode: string, messageId: string) => {
+    const message = await requireMessage(roomCode, messageId);
+    if (message.user_id !== userId) {
+      throw new SocketError("forbidden", "You can only change your own messages");
+    }
+    if (message.deleted_at) {
+      throw new SocketError("not_found", "Message was deleted");
+    }
+    return message;
+  };
+
+  onEvent(socket, "edit_message", async ({ roomCode, messageId, content }) => {
+    const message = await requireOwnMessage(roomCode, messageId);
+    if (message.content === content) {
+      throw new SocketError("invalid_payload", "Message is unchanged");
+    }
+
+    const updated = await db.messages.edit(messageId, content);
+    await db.messageTranslations.deleteForMessage(messageId);
+    const update = {
+      roomCode,
+      id: updated.id,
+      content: updated.content,
+      editedAt: updated.edited_at,
+      deletedAt: updated.deleted_at,
+    };
+    io.to(roomCode).emit("message_updated", update);
+    deliverMessageTranslations(io, roomCode, {
+      id: updated.id,
+      content: updated.content,
+      language: updated.language ?? undefined,
+      editedAt: updated.edited_at,
+    }).catch((error) => console.error("Error translating message:", error));
+    return update;
+  });
+
+  onEvent(socket, "delete_message", async ({ roomCode, messageId }) => {
+    await requireOwnMessage(roomCode, messageId);
+
+    const deleted = await db.messages.softDelete(messageId);
+    await db.messageTranslations.deleteForMessage(messageId);
+    const update = {
+      roomCode,
+      id: deleted.id,
+      content: deleted.content,
+      editedAt: deleted.edited_at,
+      deletedAt: deleted.deleted_at,
+    };
+    io.to(roomCode).emit("message_updated", update);
+    return update;
+  });
+
+  onEvent(socket, "toggle_reaction", async ({ roomCode, messageId, emoji }) => {
+    const message = await requireMessage(roomCode, messageId);
+    if (message.deleted_at) {
+      throw new SocketError("not_found", "Message was deleted");
+    }
+
+    const added = !(await db.messageReactions.has(messageId, userId, emoji));
+    if (added) {
+      await db.messageReactions.add(messageId, userId, emoji);
+    } else {
+      await db.messageReactions.remove(messageId, userId, emoji);
+    }
+    io.to(roomCode).emit("message_reaction", { roomCode, messageId, emoji, userId, added });
+    return { added };
+  });
+}
@@ -0,0 +1,179 @@
+import { db, type RoomRole } from "../db";
+import { canModerate, getRoomRole, isModerator } from "../utils/roomRoles";
+import {
+  onEvent,
+  SocketError,
+  type AppServer,
+  type AppSocket,
+} from "../utils/socketHandler";
+import { sfu } from "../sfu";
+import { closeRoom, updateRoomActivity } from "./lifecycle";
+import { sendLobby, sendLobbyDecision } from "./lobby";
+import { setSfuMuted, updateMediaMode } from "./media";
+import { removePresence, userConnectionIds } from "./presence";
+
+/**
+ * Host and co-host controls. Every action is checked against the actor's
+ * role in room_members; clients cannot grant themselves anything.
+ */
+export function registerModerationHandlers(io: AppServer, socket: AppSocket) {
+  const { id: userId } = socket.data.user;
+
+  const requireModerator = async (roomCode: string): Promise<RoomRole> => {
+    const role = await getRoomRole(roomCode, userId);
+    if (!role || !isModerator(role)) {
+      throw new SocketError("forbidden", "Only hosts and co-hosts can do that");
+    }
+    return role;
+  };
+
+  const requireHost = async (roomCode: string) => {
+    if ((await getRoomRole(roomCode, userId)) !== "host") {
+      throw new SocketError("forbidden", "Only the host can do that");
+    }
+  };
+
+  // The target's role, checked against what the actor is allowed to touch
+  const requireTarget = async (
+    roomCode: string,
+    actorRole: RoomRole,
+    targetUserId: string
+  ): Promise<RoomRole> => {
+    if (targetUserId === userId) {
+      throw new SocketError("forbidden", "You cannot moderate yourself");
+    }
+    const targetRole = await getRoomRole(roomCode, targetUserId);
+    if (!targetRole) {
+      throw new SocketError("not_found", "That user is not in this room");
+    }
+    if (!canModerate(actorRole, targetRole)) {
+      throw new SocketError("forbidden", "You cannot moderate that participant");
+    }
+    return targetRole;
+  };
+
+  // Drops the target's membership and disconnects them from the room
+  const evict = async (
+    roomCode: string,
+    targetUserId: string,
+    reason: "removed" | "banned"
+  ) => {
+    await db.roomMembers.remove(roomCode, targetUserId);
+
+    // Every tab and device they have in the room
+    const targetSocketIds = await userConnectionIds(roomCode, targetUserId);
+    if (targetSocketIds.length > 0) {
+      io.to(targetSocketIds).emit("removed_from_room", { roomCode, reason });
+      io.in(targetSocketIds).socketsLeave(roomCode);
+      // One at a time, so only the last one announces participant_left
+      for (const targetSocketId of targetSocketIds) {
+        await removePresence(io, roomCode, targetSocketId, "left");
+      }
+      await updateRoomActivity(io, roomCode);
+    } else {
+      io.to(roomCode).emit("participant_left", { roomCode, userId: targetUserId });
+    }
+    console.log(`User ${targetUserId} ${reason} from room ${roomCode} by ${userId}`);
+  };
+
+  // The mute is recorded, so it holds when the target rejoins. Through the
+  // SFU their audio stops here; on the mesh it goes peer to peer, so only
+  // their client can stop it.
+  onEvent(socket, "mute_participant", async ({ roomCode, targetUserId }) => {
+    const actorRole = await requireModerator(roomCode);
+    await requireTarget(roomCode, actorRole, targetUserId);
+
+    const targetSocketIds = await userConnectionIds(roomCode, targetUserId);
+    if (targetSocketIds.length === 0) {
+      throw new SocketError("not_found", "That user is not connected");
+    }
+    await db.roomMutes.mute(roomCode, targetUserId, userId);
+    setSfuMuted(roomCode, targetSocketIds, true);
+    io.to(targetSocketIds).emit("force_mute", { roomCode, byUserId: userId });
+    io.to(roomCode).emit("participant_muted", { roomCode, userId: targetUserId });
+  });
+
+  // Lets them speak again; turning their microphone back on is up to them
+  onEvent(socket, "unmute_participant", async ({ roomCode, targetUserId }) => {
+    const actorRole = await requireModerator(roomCode);
+    await requireTarget(roomCode, actorRole, targetUserId);
+
+    if (!(await db.roomMutes.unmute(roomCode, targetUserId))) {
+      throw new SocketError("not_found", "That user is not muted");
+    }
+    setSfuMuted(roomCode, await userConnectionIds(roomCode, targetUserId), false);
+    io.to(roomCode).emit("participant_unmuted", { roomCode, userId: targetUserId });
+  });
+
+  onEvent(socket, "remove_participant", async ({ roomCode, targetUserId }) => {
+    const actorRole = await requireModerator(roomCode);
+    await requireTarget(roomCode, actorRole, targetUserId);
+    await evict(roomCode, targetUserId, "removed");
+  });
+
+  onEvent(socket, "ban_participant", async ({ roomCode, targetUserId }) => {
+    const actorRole = await requireModerator(roomCode);
+    await requireTarget(roomCode, actorRole, targetUserId);
+    await db.roomBans.ban(roomCode, targetUserId, userId);
+    await evict(roomCode, targetUserId, "banned");
+  });
+
+  onEvent(socket, "admit_participant", async ({ roomCode, targetUserId }) => {
+    await requireModerator(roomCode);
+    if (!(await db.roomLobby.remove(roomCode, targetUserId))) {
+      throw new SocketError("not_found", "That user is not waiting to join");
+    }
+    await db.roomMembers.add(roomCode, targetUserId);
+    sendLobbyDecision(io, roomCode, targetUserId, true);
+    await sendLobby(io, roomCode);
+    console.log(`User ${targetUserId} admitted to room ${roomCode} by ${userId}`);
+  });
+
+  onEvent(socket, "reject_participant", async ({ roomCode, targetUserId }) => {
+    await requireModerator(roomCode);
+    if (!(await db.roomLobby.remove(roomCode, targetUserId))) {
+      throw new SocketError("not_found", "That user is not waiting to join");
+    }
+    sendLobbyDecision(io, roomCode, targetUserId, false);
+    await sendLobby(io, roomCode);
+  });
+
+  onEvent(socket, "set_room_lock", async ({ roomCode, locked }) => {
+    await requireModerator(roomCode);
+    await db.rooms.setLocked(roomCode, locked);
+    io.to(roomCode).emit("room_updated", { roomCode, locked });
+  });
+
+  onEvent(socket, "set_media_mode", async ({ roomCode, mode }) => {
+    await requireModerator(roomCode);
+    if (mode === "sfu" && !sfu) {
+      throw new SocketError("unavailable", "This server has no SFU");
+    }
+    await db.rooms.setMediaMode(roomCode, mode);
+    await updateMediaMode(io, roomCode);
+  });
+
+  onEvent(socket, "set_role", async ({ roomCode, targetUserId, role }) => {
+    await requireHost(roomCode);
+    await requireTarget(roomCode, "host", targetUserId);
+    await db.roomMembers.setRole(roomCode, targetUserId, role);
+    io.to(roomCode).emit("role_changed", { roomCode, userId: targetUserId, role });
+  });
+
+  // The outgoing host stays on as a co-host
+  onEvent(socket, "transfer_host", async ({ roomCode, targetUserId }) => {
+    await requireHost(roomCode);
+    await requireTarget(roomCode, "host", targetUserId);
+
+    await db.roomMembers.setRole(roomCode, targetUserId, "host");
+    await db.roomMembers.setRole(roomCode, userId, "cohost");
+    io.to(roomCode).emit("role_changed", { roomCode, userId: targetUserId, role: "host" });
+    io.to(roomCode).emit("role_changed", { roomCode, userId, role: "cohost" });
+  });
+
+  onEvent(socket, "end_meeting", async ({ roomCode }) => {
+    await requireHost(roomCode);
+    await closeRoom(io, roomCode, "ended_by_host");
+    console.log(`Room ${roomCode} ended by host ${userId}`);
+  });
+}
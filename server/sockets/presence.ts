@@ -0,0 +1,133 @@
+import type { RoomRole } from "../db";
+import { presenceStore, type ConnectionPresence } from "../presence";
+import type { AppServer } from "../utils/socketHandler";
+
+// How long a user whose last connection dropped may take to come back
+// before the room hears they left
+const RECONNECT_GRACE_MS = (Number(process.env.RECONNECT_GRACE_SECONDS) || 20) * 1000;
+
+// departures[roomCode][userId] fires participant_left once the grace
+// period runs out. Timers live in the process that saw the disconnect; one
+// that fires after the user came back through another instance finds them
+// present and does nothing.
+const departures: { [roomCode: string]: { [userId: string]: NodeJS.Timeout } } = {};
+
+// Clears a pending departure, resolving to whether there was one
+const cancelDeparture = (roomCode: string, userId: string) => {
+  const timer = departures[roomCode]?.[userId];
+  if (!timer) return false;
+  clearTimeout(timer);
+  delete departures[roomCode][userId];
+  if (Object.keys(departures[roomCode]).length === 0) delete departures[roomCode];
+  return true;
+};
+
+/** A user's connections in a room, possibly on other server instances */
+export async function userConnectionIds(roomCode: string, userId: string) {
+  const connections = await presenceStore.connections(roomCode);
+  return connections
+    .filter((connection) => connection.userId === userId)
+    .map((connection) => connection.connectionId);
+}
+
+const broadcastPresence = async (io: AppServer, roomCode: string) => {
+  const connections = await presenceStore.connections(roomCode);
+  io.to(roomCode).emit("presence_update", {
+    roomCode,
+    userIds: Array.from(new Set(connections.map((connection) => connection.userId))),
+    connections: connections.map(({ lastSeen, ...connection }) => ({
+      ...connection,
+      lastSeen: new Date(lastSeen).toISOString(),
+    })),
+  });
+};
+
+/**
+ * Records that a connection joined a room and broadcasts the new presence.
+ * The rest of the room hears participant_joined for the user's first
+ * connection, or when they come back while reconnecting.
+ */
+export async function addPresence(
+  io: AppServer,
+  roomCode: string,
+  connection: ConnectionPresence,
+  role: RoomRole,
+  muted: boolean
+) {
+  const { connectionId, userId, displayName } = connection;
+  const returning = cancelDeparture(roomCode, userId);
+  const alreadyPresent = (await userConnectionIds(roomCode, userId)).length > 0;
+  await presenceStore.add(roomCode, connection, Date.now());
+
+  if (returning || !alreadyPresent) {
+    io.to(roomCode).except(connectionId).emit("participant_joined", {
+      roomCode,
+      participant: { id: userId, displayName, role, muted },
+    });
+  }
+  await broadcastPresence(io, roomCode);
+}
+
+/**
+ * Takes a connection out of a room and broadcasts the updated presence to
+ * what remains of it. When it was the user's last connection there, a
+ * "left" departure announces participant_left right away; a
+ * "disconnected" one announces participant_reconnecting, and
+ * participant_left only if they are not back within the grace period.
+ * Resolves to false if the connection was not in the room.
+ */
+export async function removePresence(
+  io: AppServer,
+  roomCode: string,
+  connectionId: string,
+  departure: "left" | "disconnected"
+) {
+  const removed = await presenceStore.remove(roomCode, connectionId);
+  if (!removed) return false;
+  await broadcastPresence(io, roomCode);
+
+  const { userId } = removed;
+  if ((await userConnectionIds(roomCode, userId)).length > 0) return true;
+
+  if (departure === "left") {
+    cancelDeparture(roomCode, userId);
+    io.to(roomCode).emit("participant_left", { roomCode, userId });
+    return true;
+  }
+
+  io.to(roomCode).emit("participant_reconnecting", {
+    roomCode,
+    userId,
+    lastSeen: new Date().toISOString(),
+  });
+  cancelDeparture(roomCode, userId);
+  (departures[roomCode] ??= {})[userId] = setTimeout(async () => {
+    cancelDeparture(roomCode, userId);
+    try {
+      if ((await userConnectionIds(roomCode, userId)).length > 0) return;
+      io.to(roomCode).emit("participant_left", { roomCode, userId });
+    } catch (error) {
+      console.error(`Error ending grace period of ${userId} in ${roomCode}:`, error);
+    }
+  }, RECONNECT_GRACE_MS);
+  return true;
+}
+
+/**
+ * Takes a closed connection out of every room it was in, as a
+ * "disconnected" departure. Resolves to those rooms.
+ */
+export async function removeConnection(io: AppServer, connectionId: string) {
+  const roomCodes = await presenceStore.roomsOf(connectionId);
+  await Promise.all(
+    roomCodes.map((roomCode) => removePresence(io, roomCode, connectionId, "disconnected"))
+  );
+  return roomCodes;
+}
+
+/**
+ * Whether a socket, on this server instance or another, has joined the room
+ */
+export function isSocketInRoom(socketId: string, roomCode: string) {
+  return presenceStore.isInRoom(roomCode, socketId);
+}
@@ -0,0 +1,210 @@
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { asrEngine, type AsrResult, type AsrStream } from "../asr";
+import type { CaptionSegment } from "../../shared/socketEvents";
+import { DEFAULT_SPEECH_LANGUAGE } from "../../shared/languages";
+import {
+  onEvent,
+  SocketError,
+  type AppServer,
+  type AppSocket,
+} from "../utils/socketHandler";
+import { postChatMessage } from "./messages";
+import { isSocketInRoom } from "./presence";
+import { deliverCaptionTranslations } from "./translation";
+
+// Same cut-off as the browser recognizer: shorter finals stay captions only
+const MIN_SPEECH_MESSAGE_LENGTH = 6;
+
+// asrStreams[socket.id] is the server-side transcription a socket is feeding
+const asrStreams: { [socketId: string]: { roomCode: string; stream: AsrStream } } = {};
+
+/**
+ * Sends a caption segment to the room, optionally leaving out the socket
+ * that produced it, and stores it once final. Listeners reading another
+ * language get a translation after it.
+ */
+async function publishCaption(
+  io: AppServer,
+  caption: CaptionSegment,
+  options: { exceptSocketId?: string; language?: string } = {}
+) {
+  const { exceptSocketId, language } = options;
+  const room = io.to(caption.roomCode);
+  (exceptSocketId ? room.except(exceptSocketId) : room).emit("subtitle", caption);
+  deliverCaptionTranslations(io, caption, language).catch((error) =>
+    console.error("Error translating caption:", error)
+  );
+
+  if (!caption.isFinal) return;
+
+  await db.speechSegments.saveFinal({
+    roomCode: caption.roomCode,
+    speakerId: caption.speakerId,
+    segmentId: caption.segmentId,
+    seq: caption.seq,
+    content: caption.text,
+    createdAt: caption.timestamp,
+  });
+}
+
+/**
+ * Live captions and speech transcripts. Browsers that recognize speech
+ * themselves send subtitle events; others stream microphone audio to the
+ * server's recognizer (asr_*), whose results go out as the same subtitle
+ * and chat_message events.
+ */
+export function registerSpeechHandlers(io: AppServer, socket: AppSocket) {
+  const { id: userId, displayName } = socket.data.user;
+
+  const requireRoom = async (roomCode: string) => {
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+  };
+
+  const stopStream = async () => {
+    const current = asrStreams[socket.id];
+    if (!current) return;
+    delete asrStreams[socket.id];
+    await current.stream.end();
+  };
+
+  // Relay live captions to the rest of the room; persist final segments
+  onEvent(socket, "subtitle", async ({ roomCode, segmentId, seq, text, isFinal, language }) => {
+    await requireRoom(roomCode);
+    await publishCaption(
+      io,
+      {
+        roomCode,
+        speakerId: userId,
+        displayName,
+        segmentId,
+        seq,
+        text,
+        isFinal,
+        language,
+        timestamp: new Date().toISOString(),
+      },
+      { exceptSocketId: socket.id, language }
+    );
+  });
+
+  onEvent(socket, "asr_start", async ({ roomCode, language: requested }) => {
+    await requireRoom(roomCode);
+    const engine = asrEngine;
+    if (!engine) {
+      throw new SocketError("unavailable", "Server-side transcription is not enabled");
+    }
+    // Starting again while streaming switches language; the utterance in
+    // progress finishes in the old one
+    await stopStream();
+
+    // Without an explicit language, the one in the speaker's profile
+    const language =
+      requested ??
+      (await db.users.findById(userId))?.speech_language ??
+      DEFAULT_SPEECH_LANGUAGE;
+    const startedAt = Date.now();
+    let segment = { id: randomUUID(), seq: 0 };
+
+    // The speaker sees their own captions too, since their browser is not
+    // recognizing anything itself
+    const caption = (text: string, isFinal: boolean) =>
+      publishCaption(
+        io,
+        {
+          roomCode,
+          speakerId: userId,
+          displayName,
+          segmentId: segment.id,
+          seq: segment.seq++,
+          text,
+          isFinal,
+          language,
+          timestamp: new Date().toISOString(),
+        },
+        { language }
+      );
+
+    const finish = async (result: AsrResult, startMs: number, endMs: number) => {
+      const text = result.text.trim();
+      if (text) {
+        await caption(text, true);
+      }
+      segment = { id: randomUUID(), seq: 0 };
+
+      if (text.length < MIN_SPEECH_MESSAGE_LENGTH) return;
+      await postChatMessage(io, {
+        roomCode,
+        userId,
+        displayName,
+        content: text.slice(0, 1000),
+        kind: "speech_final",
+        speech: {
+          confidence: result.confidence,
+          language,
+          utteranceStart: new Date(startedAt + startMs).toISOString(),
+          utteranceEnd: new Date(startedAt + endMs).toISOString(),
+          words: result.words?.slice(0, 500),
+        },
+      });
+    };
+
+    const stream = engine.createStream(
+      { language },
+      {
+        onPartial: (text) => {
+          caption(text, false).catch((error) =>
+            console.error("Error sending caption:", error)
+          );
+        },
+        onFinal: (result, startMs, endMs) => {
+          finish(result, startMs, endMs).catch((error) =>
+            console.error("Error saving transcript:", error)
+          );
+        },
+        onError: (error) => {
+          console.error(`${engine.name} recognizer failed:`, error);
+          if (asrStreams[socket.id]?.stream === stream) {
+            delete asrStreams[socket.id];
+          }
+          socket.emit("asr_error", { roomCode, message: "Speech recognition failed" });
+        },
+      }
+    );
+    asrStreams[socket.id] = { roomCode, stream };
+  });
+
+  onEvent(socket, "asr_audio", async ({ roomCode, audio }) => {
+    const current = asrStreams[socket.id];
+    if (!current || current.roomCode !== roomCode) {
+      throw new SocketError("not_found", "No transcription running for this room");
+    }
+    // Stop listening to someone who was removed or left
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      await stopStream();
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+
+    const bytes = ArrayBuffer.isView(audio) ? audio : new Uint8Array(audio);
+    // Copy so the samples are aligned whatever offset the buffer has
+    const pcm = new Int16Array(bytes.byteLength / 2);
+    new Uint8Array(pcm.buffer).set(
+      new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    );
+    current.stream.write(pcm);
+  });
+
+  onEvent(socket, "asr_stop", async ({ roomCode }) => {
+    if (asrStreams[socket.id]?.roomCode === roomCode) {
+      await stopStream();
+    }
+  });
+
+  socket.on("disconnect", () => {
+    stopStream().catch((error) =>
+      console.error("Error stopping transcription:", error)
+    );
+  });
+}
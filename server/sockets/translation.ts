@@ -0,0 +1,178 @@
+import { db } from "../db";
+import { translator } from "../translation";
+import { languageSubtag, type TranslationLanguage } from "../../shared/languages";
+import type { CaptionSegment, MessageTranslation } from "../../shared/socketEvents";
+import { onEvent, SocketError, type AppServer, type AppSocket } from "../utils/socketHandler";
+import { isSocketInRoom } from "./presence";
+
+// Captions are never stored translated, so recent ones are kept here;
+// interim updates repeat the same text often
+const CAPTION_CACHE_SIZE = 500;
+const captionCache = new Map<string, string>();
+
+/**
+ * Sockets in a room, on any server instance, grouped by the language they
+ * want, leaving out those who read the source language anyway
+ */
+async function listenersByLanguage(io: AppServer, roomCode: string, sourceLanguage?: string) {
+  const source = sourceLanguage && languageSubtag(sourceLanguage);
+  const groups = new Map<TranslationLanguage, string[]>();
+  for (const roomSocket of await io.in(roomCode).fetchSockets()) {
+    const language = roomSocket.data.listenerLanguage;
+    if (!language || language === source) continue;
+    groups.set(language, [...(groups.get(language) ?? []), roomSocket.id]);
+  }
+  return groups;
+}
+
+async function translateCaption(text: string, to: string, from?: string) {
+  // The same words can mean different things in another source language,
+  // and an unknown source is left to the translator to detect
+  const source = from ? languageSubtag(from) : "";
+  const key = `${source}\u0000${to}\u0000${text}`;
+  const cached = captionCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const translated = await translator!.translate(text, to, source || undefined);
+  captionCache.set(key, translated);
+  if (captionCache.size > CAPTION_CACHE_SIZE) {
+    captionCache.delete(captionCache.keys().next().value!);
+  }
+  return translated;
+}
+
+// The message as it was when translation started; `editedAt` tells
+// whether it has changed since
+interface TranslatableMessage {
+  id: string;
+  content: string;
+  language?: string;
+  editedAt: string | null;
+}
+
+/**
+ * A message's translation into `language`, from the store when it was
+ * translated before
+ */
+async function translateMessage(message: TranslatableMessage, language: TranslationLanguage) {
+  const [cached] = await db.messageTranslations.listForMessages([message.id], language);
+  if (cached) return cached.content;
+
+  const translated = await translator!.translate(
+    message.content,
+    language,
+    message.language && languageSubtag(message.language)
+  );
+  // An edit or deletion while this was in flight cleared the stored
+  // translations, which must stay cleared
+  const current = await db.messages.findById(message.id);
+  if (current && !current.deleted_at && current.edited_at === message.editedAt) {
+    await db.messageTranslations.save(message.id, language, translated);
+  }
+  return translated;
+}
+
+/**
+ * Sends each listener in the room the message in their language. Text that
+ * comes out unchanged is not sent.
+ */
+export async function deliverMessageTranslations(
+  io: AppServer,
+  roomCode: string,
+  message: TranslatableMessage
+) {
+  if (!translator || !message.content) return;
+
+  const groups = await listenersByLanguage(io, roomCode, message.language);
+  await Promise.all(
+    Array.from(groups, async ([language, socketIds]) => {
+      const text = await translateMessage(message, language);
+      if (text === message.content) return;
+      io.to(socketIds).emit("message_translation", {
+        roomCode,
+        messageId: message.id,
+        language,
+        text,
+      });
+    })
+  );
+}
+
+/**
+ * Sends each listener in the room a caption update in their language.
+ * `sourceLanguage` is known when the server recognized the speech itself.
+ */
+export async function deliverCaptionTranslations(
+  io: AppServer,
+  caption: CaptionSegment,
+  sourceLanguage?: string
+) {
+  if (!translator) return;
+
+  const groups = await listenersByLanguage(io, caption.roomCode, sourceLanguage);
+  await Promise.all(
+    Array.from(groups, async ([language, socketIds]) => {
+      const text = await translateCaption(caption.text, language, sourceLanguage);
+      if (text === caption.text) return;
+      io.to(socketIds).emit("caption_translation", {
+        roomCode: caption.roomCode,
+        speakerId: caption.speakerId,
+        segmentId: caption.segmentId,
+        seq: caption.seq,
+        language,
+        text,
+      });
+    })
+  );
+}
+
+/**
+ * Per-listener translation. Each socket picks the language it reads in;
+ * live captions and messages are then translated for it as they arrive,
+ * and history on request.
+ */
+export function registerTranslationHandlers(socket: AppSocket) {
+  const requireRoom = async (roomCode: string) => {
+    if (!(await isSocketInRoom(socket.id, roomCode))) {
+      throw new SocketError("not_in_room", `Not joined to room ${roomCode}`);
+    }
+  };
+
+  onEvent(socket, "set_language", async ({ roomCode, language }) => {
+    await requireRoom(roomCode);
+    socket.data.listenerLanguage = language ?? undefined;
+  });
+
+  onEvent(socket, "translate_messages", async ({ roomCode, messageIds, language }) => {
+    await requireRoom(roomCode);
+    if (!translator) {
+      throw new SocketError("unavailable", "Translation is not enabled");
+    }
+
+    const stored = await db.messageTranslations.listForMessages(messageIds, language);
+    const cached = new Map(stored.map((row) => [row.message_id, row.content]));
+
+    const translations: MessageTranslation[] = [];
+    for (const messageId of messageIds) {
+      const message = await db.messages.findById(messageId);
+      if (!message || message.room_code !== roomCode || message.deleted_at) continue;
+      if (message.language && languageSubtag(message.language) === language) continue;
+
+      const text =
+        cached.get(messageId) ??
+        (await translateMessage(
+          {
+            id: message.id,
+            content: message.content,
+            language: message.language ?? undefined,
+            editedAt: message.edited_at,
+          },
+          language
+        ));
+      if (text !== message.content) {
+        translations.push({ roomCode, messageId, language, text });
+      }
+    }
+    return translations;
+  });
+}
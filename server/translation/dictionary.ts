@@ -0,0 +1,97 @@
+import type { Translator } from "./types";
+
+// Word lists aligned by position: VOCABULARY.es[i] is VOCABULARY.en[i] in
+// Spanish. English is the pivot between any other two languages.
+const VOCABULARY: Record<string, string[]> = {
+  en: [
+    "hello", "goodbye", "yes", "no", "please", "thanks", "good", "bad",
+    "morning", "night", "meeting", "today", "tomorrow", "question", "answer",
+    "time", "I", "you", "we", "is", "and", "with", "now", "later", "everyone",
+    "welcome",
+  ],
+  es: [
+    "hola", "adiós", "sí", "no", "por favor", "gracias", "bueno", "malo",
+    "mañana", "noche", "reunión", "hoy", "mañana", "pregunta", "respuesta",
+    "tiempo", "yo", "tú", "nosotros", "es", "y", "con", "ahora", "después",
+    "todos", "bienvenidos",
+  ],
+  fr: [
+    "bonjour", "au revoir", "oui", "non", "s'il vous plaît", "merci", "bon",
+    "mauvais", "matin", "nuit", "réunion", "aujourd'hui", "demain", "question",
+    "réponse", "temps", "je", "tu", "nous", "est", "et", "avec", "maintenant",
+    "plus tard", "tout le monde", "bienvenue",
+  ],
+  de: [
+    "hallo", "auf Wiedersehen", "ja", "nein", "bitte", "danke", "gut",
+    "schlecht", "Morgen", "Nacht", "Besprechung", "heute", "morgen", "Frage",
+    "Antwort", "Zeit", "ich", "du", "wir", "ist", "und", "mit", "jetzt",
+    "später", "alle", "willkommen",
+  ],
+  it: [
+    "ciao", "arrivederci", "sì", "no", "per favore", "grazie", "buono",
+    "cattivo", "mattina", "notte", "riunione", "oggi", "domani", "domanda",
+    "risposta", "tempo", "io", "tu", "noi", "è", "e", "con", "ora", "dopo",
+    "tutti", "benvenuti",
+  ],
+  pt: [
+    "olá", "adeus", "sim", "não", "por favor", "obrigado", "bom", "mau",
+    "manhã", "noite", "reunião", "hoje", "amanhã", "pergunta", "resposta",
+    "tempo", "eu", "você", "nós", "é", "e", "com", "agora", "depois", "todos",
+    "bem-vindos",
+  ],
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}'-]+/gu;
+
+// word (lowercased) -> position in the aligned lists, per language. The
+// first meaning wins when a word has two.
+const INDEX = Object.fromEntries(
+  Object.entries(VOCABULARY).map(([language, words]) => {
+    const index = new Map<string, number>();
+    words.forEach((word, position) => {
+      if (!index.has(word.toLowerCase())) index.set(word.toLowerCase(), position);
+    });
+    return [language, index];
+  })
+);
+
+// The language whose vocabulary covers the most words, English on a tie
+function detectLanguage(words: string[]): string {
+  let best = "en";
+  let bestHits = 0;
+  for (const [language, index] of Object.entries(INDEX)) {
+    const hits = words.filter((word) => index.has(word.toLowerCase())).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+const matchCase = (original: string, word: string) =>
+  original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? word[0].toUpperCase() + word.slice(1)
+    : word;
+
+/**
+ * Offline word-for-word translator over a small phrasebook. Words it does
+ * not know pass through unchanged. Good enough to exercise the feature
+ * without a translation service; not meant for real conversations.
+ */
+export function createDictionaryTranslator(): Translator {
+  return {
+    name: "dictionary",
+    async translate(text, to, from) {
+      const source = from ?? detectLanguage(text.match(WORD_PATTERN) ?? []);
+      const sourceIndex = INDEX[source];
+      const targetWords = VOCABULARY[to];
+      if (source === to || !sourceIndex || !targetWords) return text;
+
+      return text.replace(WORD_PATTERN, (word) => {
+        const position = sourceIndex.get(word.toLowerCase());
+        return position === undefined ? word : matchCase(word, targetWords[position]);
+      });
+    },
+  };
+}
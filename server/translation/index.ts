@@ -0,0 +1,34 @@
+import dotenv from "dotenv";
+import { createDictionaryTranslator } from "./dictionary";
+import { createLibreTranslateTranslator } from "./libretranslate";
+import type { Translator } from "./types";
+
+export type * from "./types";
+
+dotenv.config();
+
+/**
+ * TRANSLATOR picks how captions and messages are translated:
+ * "libretranslate" for a self-hosted LibreTranslate at LIBRETRANSLATE_URL,
+ * "dictionary" (the default) for the offline word-for-word stand-in, or
+ * "off".
+ */
+function createTranslator(): Translator | null {
+  const translator = process.env.TRANSLATOR || "dictionary";
+  switch (translator) {
+    case "libretranslate":
+      return createLibreTranslateTranslator(
+        process.env.LIBRETRANSLATE_URL || "http://127.0.0.1:5000",
+        process.env.LIBRETRANSLATE_API_KEY
+      );
+    case "dictionary":
+      return createDictionaryTranslator();
+    case "off":
+      return null;
+    default:
+      console.warn(`Unknown TRANSLATOR "${translator}", translation is off`);
+      return null;
+  }
+}
+
+export const translator = createTranslator();
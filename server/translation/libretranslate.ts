@@ -0,0 +1,35 @@
+import type { Translator } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Adapter for a self-hosted LibreTranslate server. `apiKey` is only needed
+ * when the server was started with API keys required.
+ */
+export function createLibreTranslateTranslator(
+  serverUrl: string,
+  apiKey?: string
+): Translator {
+  return {
+    name: "libretranslate",
+    async translate(text, to, from) {
+      const res = await fetch(new URL("/translate", serverUrl), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          q: text,
+          source: from ?? "auto",
+          target: to,
+          format: "text",
+          api_key: apiKey,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`LibreTranslate responded ${res.status}: ${await res.text()}`);
+      }
+      const data = (await res.json()) as { translatedText?: string };
+      return data.translatedText ?? text;
+    },
+  };
+}
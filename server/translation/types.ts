@@ -0,0 +1,8 @@
+export interface Translator {
+  name: string;
+  /**
+   * Translates text into `to`. Languages are bare subtags such as "es";
+   * `from` is undefined when the source language is unknown.
+   */
+  translate(text: string, to: string, from?: string): Promise<string>;
+}
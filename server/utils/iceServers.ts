@@ -0,0 +1,59 @@
+import { createHmac } from "crypto";
+import dotenv from "dotenv";
+import type { IceConfig, IceServer } from "../../shared/ice";
+
+dotenv.config();
+
+const DEFAULT_STUN_URLS = [
+  "stun:stun.l.google.com:19302",
+  "stun:stun1.l.google.com:19302",
+];
+
+const splitUrls = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// An empty STUN_URLS turns STUN off, e.g. for TURN-only deployments
+export const STUN_URLS =
+  process.env.STUN_URLS === undefined ? DEFAULT_STUN_URLS : splitUrls(process.env.STUN_URLS);
+const TURN_URLS = splitUrls(process.env.TURN_URLS);
+// coturn's static-auth-secret (use-auth-secret mode)
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_CREDENTIAL_TTL_SECONDS =
+  Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || 6 * 60 * 60;
+const ICE_TRANSPORT_POLICY = process.env.ICE_TRANSPORT_POLICY === "relay" ? "relay" : "all";
+
+if (TURN_URLS.length > 0 && !TURN_SECRET) {
+  console.warn("TURN_URLS is set without TURN_SECRET, TURN servers are not offered");
+}
+
+/**
+ * ICE servers for one user's peer connections. TURN credentials follow
+ * coturn's REST API scheme: the username is `<expiry>:<userId>` and the
+ * password is the base64 HMAC-SHA1 of the username under the shared
+ * secret, so coturn can check them without a call back to us.
+ */
+export function createIceConfig(userId: string): IceConfig {
+  const iceServers: IceServer[] = [];
+  if (STUN_URLS.length > 0) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  let expiresAt: string | null = null;
+  if (TURN_URLS.length > 0 && TURN_SECRET) {
+    const expiry = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL_SECONDS;
+    const username = `${expiry}:${userId}`;
+    const credential = createHmac("sha1", TURN_SECRET).update(username).digest("base64");
+    iceServers.push({ urls: TURN_URLS, username, credential });
+    expiresAt = new Date(expiry * 1000).toISOString();
+  }
+
+  return {
+    iceServers,
+    // Forcing relay without a relay would leave calls with no candidates
+    iceTransportPolicy: expiresAt ? ICE_TRANSPORT_POLICY : "all",
+    expiresAt,
+  };
+}
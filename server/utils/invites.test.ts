@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseInviteUrl } from "../../shared/invites";
+import { createMemoryStore } from "../db/memory";
+import { createInviteLink, readInviteToken } from "./invites";
+import { signToken } from "./tokens";
+
+const BASE_URL = "https://app.example";
+
+const tokenOf = (url: string) => parseInviteUrl(url)!.token!;
+
+describe("createInviteLink / readInviteToken", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("carries the room, role and use limit in the link's token", async () => {
+    const link = await createInviteLink(BASE_URL, "ABC123", {
+      role: "cohost",
+      maxUses: 3,
+      expiresInSeconds: 3600,
+    });
+
+    expect(link.url.startsWith(`${BASE_URL}/join/ABC123?token=`)).toBe(true);
+    expect(link.qrCode.startsWith("data:image/png;base64,")).toBe(true);
+    expect(readInviteToken(tokenOf(link.url))).toMatchObject({
+      roomCode: "ABC123",
+      role: "cohost",
+      maxUses: 3,
+    });
+  });
+
+  it("gives every link its own id to count uses against", async () => {
+    const options = { role: "participant" as const, maxUses: null, expiresInSeconds: 60 };
+    const [first, second] = await Promise.all([
+      createInviteLink(BASE_URL, "ABC123", options),
+      createInviteLink(BASE_URL, "ABC123", options),
+    ]);
+    expect(readInviteToken(tokenOf(first.url))!.id).not.toBe(
+      readInviteToken(tokenOf(second.url))!.id
+    );
+  });
+
+  it("rejects expired links and other kinds of token", async () => {
+    vi.useFakeTimers();
+    const link = await createInviteLink(BASE_URL, "ABC123", {
+      role: "participant",
+      maxUses: null,
+      expiresInSeconds: 60,
+    });
+    vi.advanceTimersByTime(61_000);
+    expect(readInviteToken(tokenOf(link.url))).toBeNull();
+
+    const session = signToken("session", { sub: "user-1", room: "ABC123" }, 60);
+    expect(readInviteToken(session)).toBeNull();
+  });
+});
+
+describe("parseInviteUrl", () => {
+  it("reads the room code and token out of an invite URL", () => {
+    expect(parseInviteUrl("https://app.example/join/abc123?token=t%2Bk")).toEqual({
+      roomCode: "ABC123",
+      token: "t+k",
+    });
+    expect(parseInviteUrl("https://app.example/join/ABC123/")).toEqual({
+      roomCode: "ABC123",
+      token: undefined,
+    });
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseInviteUrl("ABC123")).toBeNull();
+    expect(parseInviteUrl("https://app.example/rooms/ABC123")).toBeNull();
+    expect(parseInviteUrl("https://app.example/join/ABC")).toBeNull();
+  });
+});
+
+describe("inviteUses.redeem", () => {
+  it("stops at the link's use limit", async () => {
+    const db = createMemoryStore();
+    expect(await db.inviteUses.redeem("invite-1", "ABC123", "user-1", 2)).toBe(true);
+    expect(await db.inviteUses.redeem("invite-1", "ABC123", "user-2", 2)).toBe(true);
+    expect(await db.inviteUses.redeem("invite-1", "ABC123", "user-3", 2)).toBe(false);
+    expect(await db.inviteUses.count("invite-1")).toBe(2);
+  });
+
+  it("lets a user who already used the link use it again", async () => {
+    const db = createMemoryStore();
+    await db.inviteUses.redeem("invite-1", "ABC123", "user-1", 1);
+    expect(await db.inviteUses.redeem("invite-1", "ABC123", "user-1", 1)).toBe(true);
+    expect(await db.inviteUses.count("invite-1")).toBe(1);
+  });
+
+  it("never runs out without a limit", async () => {
+    const db = createMemoryStore();
+    for (let i = 0; i < 5; i++) {
+      expect(await db.inviteUses.redeem("invite-1", "ABC123", `user-${i}`, null)).toBe(true);
+    }
+  });
+});
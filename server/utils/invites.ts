@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import type { Request } from "express";
+import QRCode from "qrcode";
+import { invitePath, type InviteLink, type InviteRole } from "../../shared/invites";
+import { signToken, verifyToken } from "./tokens";
+
+const INVITE_TOKEN_TYPE = "invite";
+
+// How long links last unless whoever creates one says otherwise
+export const INVITE_TTL_SECONDS =
+  Number(process.env.INVITE_TTL_SECONDS) || 24 * 60 * 60;
+
+export interface Invite {
+  // Uses are counted against this
+  id: string;
+  roomCode: string;
+  role: InviteRole;
+  maxUses: number | null;
+  expiresAt: string;
+}
+
+interface InvitePayload {
+  jti: string;
+  room: string;
+  role: InviteRole;
+  max: number | null;
+}
+
+/**
+ * Where the client app is served, which invite URLs point at: APP_URL,
+ * or else the origin the request came from
+ */
+export function appUrl(req: Request): string {
+  const url =
+    process.env.APP_URL || req.get("origin") || `${req.protocol}://${req.get("host")}`;
+  return url.replace(/\/$/, "");
+}
+
+/**
+ * Signs a new invite link to a room. The token itself carries everything
+ * but how often it has been used.
+ */
+export async function createInviteLink(
+  baseUrl: string,
+  roomCode: string,
+  options: { role: InviteRole; maxUses: number | null; expiresInSeconds: number }
+): Promise<InviteLink> {
+  const token = signToken<InvitePayload>(
+    INVITE_TOKEN_TYPE,
+    { jti: randomUUID(), room: roomCode, role: options.role, max: options.maxUses },
+    options.expiresInSeconds
+  );
+  const url = `${baseUrl}${invitePath(roomCode, token)}`;
+  return {
+    url,
+    qrCode: await QRCode.toDataURL(url),
+    expiresAt: new Date(Date.now() + options.expiresInSeconds * 1000).toISOString(),
+    maxUses: options.maxUses,
+    role: options.role,
+  };
+}
+
+/**
+ * The invite behind a valid, unexpired token, or null for anything else
+ */
+export function readInviteToken(token: string): Invite | null {
+  const payload = verifyToken<InvitePayload>(INVITE_TOKEN_TYPE, token);
+  if (!payload) return null;
+  return {
+    id: payload.jti,
+    roomCode: payload.room,
+    role: payload.role,
+    maxUses: payload.max,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
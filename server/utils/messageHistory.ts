@@ -0,0 +1,77 @@
+import { db, type MessageRow, type MessageWithAuthor } from "../db";
+import {
+  MESSAGE_PAGE_SIZE,
+  type HistoryMessage,
+  type MessagePage,
+  type MessagePageInput,
+  type ReactionSummary,
+  type SpeechMetadata,
+} from "../../shared/socketEvents";
+
+/**
+ * The recognizer metadata stored on a speech message, or null for typed
+ * and system messages
+ */
+export function toSpeechMetadata(message: MessageRow): SpeechMetadata | null {
+  if (message.kind !== "speech_final") return null;
+  return {
+    confidence: message.confidence ?? undefined,
+    language: message.language ?? undefined,
+    utteranceStart: message.utterance_start_at ?? undefined,
+    utteranceEnd: message.utterance_end_at ?? undefined,
+    words: message.word_timings ?? undefined,
+  };
+}
+
+/**
+ * Stored messages in the shape REST and socket clients share, with their
+ * reactions grouped by emoji in the order each emoji was first used
+ */
+export async function toHistoryMessages(
+  messages: MessageWithAuthor[]
+): Promise<HistoryMessage[]> {
+  const reactions = messages.length
+    ? await db.messageReactions.listForMessages(messages.map((msg) => msg.id))
+    : [];
+
+  const byMessage = new Map<string, ReactionSummary[]>();
+  for (const reaction of reactions) {
+    const summaries = byMessage.get(reaction.message_id) ?? [];
+    const summary = summaries.find((entry) => entry.emoji === reaction.emoji);
+    if (summary) {
+      summary.userIds.push(reaction.user_id);
+    } else {
+      summaries.push({ emoji: reaction.emoji, userIds: [reaction.user_id] });
+    }
+    byMessage.set(reaction.message_id, summaries);
+  }
+
+  return messages.map((msg) => ({
+    id: msg.id,
+    user_id: msg.user_id,
+    content: msg.content,
+    created_at: msg.created_at,
+    display_name: msg.display_name,
+    edited_at: msg.edited_at,
+    deleted_at: msg.deleted_at,
+    reactions: byMessage.get(msg.id) ?? [],
+    kind: msg.kind,
+    speech: toSpeechMetadata(msg),
+  }));
+}
+
+/**
+ * One page of a room's history
+ */
+export async function loadMessagePage({
+  roomCode,
+  before,
+  after,
+  limit = MESSAGE_PAGE_SIZE,
+}: MessagePageInput): Promise<MessagePage> {
+  const page = await db.messages.listPage(roomCode, { before, after, limit });
+  return {
+    messages: await toHistoryMessages(page.messages),
+    hasMore: page.hasMore,
+  };
+}
@@ -0,0 +1,22 @@
+import { db, type RoomRole } from "../db";
+
+export { canModerate, isModerator } from "../../shared/roomRoles";
+
+/** The user's role in a room, or null when they are not a member */
+export async function getRoomRole(
+  roomCode: string,
+  userId: string
+): Promise<RoomRole | null> {
+  const member = await db.roomMembers.find(roomCode, userId);
+  return member?.role ?? null;
+}
+
+/**
+ * Whether the user may read a room's history and members: its members,
+ * and its creator even after leaving
+ */
+export async function canViewRoom(roomCode: string, userId: string): Promise<boolean> {
+  if (await getRoomRole(roomCode, userId)) return true;
+  const room = await db.rooms.findByCode(roomCode);
+  return room?.creator_id === userId;
+}
@@ -0,0 +1,130 @@
+import type { SearchTerm, SnippetPart } from "../db/types";
+
+// Words as Postgres' "simple" text search config sees them, near enough
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Markers ts_headline wraps matches in; control characters never appear in
+// chat content
+export const HEADLINE_START = "\u0001";
+export const HEADLINE_STOP = "\u0002";
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 80;
+
+const tokenize = (text: string) =>
+  Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+/**
+ * Parses a search box query. Quoted text is a phrase, a trailing `*` makes
+ * the last word a prefix, and every term must match. Returns no terms when
+ * the query has no searchable words.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const [, quoted, bare] of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const raw = (quoted ?? bare).trim();
+    const words = tokenize(raw).map((token) => token.word);
+    if (words.length > 0) {
+      terms.push({ words, prefix: raw.endsWith("*") });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Renders terms as a to_tsquery expression: phrases use `<->`, prefixes
+ * `:*`, and terms are ANDed. Words are already reduced to letters and digits.
+ */
+export function toTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map(({ words, prefix }) => {
+      const parts = words.map((word, index) =>
+        prefix && index === words.length - 1 ? `${word}:*` : word
+      );
+      return parts.length > 1 ? `(${parts.join(" <-> ")})` : parts[0];
+    })
+    .join(" & ");
+}
+
+/**
+ * Character ranges in `content` matched by the terms, or null unless every
+ * term matches somewhere
+ */
+export function matchSearchTerms(
+  content: string,
+  terms: SearchTerm[]
+): { start: number; end: number }[] | null {
+  const tokens = tokenize(content);
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const { words, prefix } of terms) {
+    let matched = false;
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const hit = words.every((word, offset) => {
+        const token = tokens[i + offset].word;
+        return prefix && offset === words.length - 1
+          ? token.startsWith(word)
+          : token === word;
+      });
+      if (hit) {
+        matched = true;
+        ranges.push({ start: tokens[i].start, end: tokens[i + words.length - 1].end });
+      }
+    }
+    if (!matched) return null;
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cuts a snippet around the first match and splits it into plain and
+ * highlighted parts
+ */
+export function buildSnippet(
+  content: string,
+  ranges: { start: number; end: number }[]
+): SnippetPart[] {
+  const from = Math.max(0, (ranges[0]?.start ?? 0) - SNIPPET_CONTEXT);
+  const to = Math.min(content.length, (ranges[0]?.end ?? 0) + SNIPPET_CONTEXT * 2);
+
+  const parts: SnippetPart[] = [];
+  let cursor = from;
+  for (const range of ranges) {
+    // Skip overlaps and matches outside the window
+    if (range.start < cursor || range.end > to) continue;
+    if (range.start > cursor) {
+      parts.push({ text: content.slice(cursor, range.start), match: false });
+    }
+    parts.push({ text: content.slice(range.start, range.end), match: true });
+    cursor = range.end;
+  }
+  if (cursor < to) {
+    parts.push({ text: content.slice(cursor, to), match: false });
+  }
+
+  if (from > 0) parts.unshift({ text: "…", match: false });
+  if (to < content.length) parts.push({ text: "…", match: false });
+  return parts;
+}
+
+/**
+ * Splits ts_headline output wrapped in HEADLINE_START/HEADLINE_STOP
+ */
+export function parseHeadline(headline: string): SnippetPart[] {
+  return headline
+    .split(HEADLINE_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, match: false }];
+      const [matched, rest = ""] = chunk.split(HEADLINE_STOP);
+      return [
+        { text: matched, match: true },
+        { text: rest, match: false },
+      ];
+    })
+    .filter((part) => part.text.length > 0);
+}
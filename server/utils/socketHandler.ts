@@ -0,0 +1,100 @@
+import type { Server, Socket } from "socket.io";
+import {
+  clientEventSchemas,
+  type AckResponse,
+  type ClientEventName,
+  type ClientEventPayload,
+  type ClientEventResult,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type SocketErrorCode,
+} from "../../shared/socketEvents";
+import type { TranslationLanguage } from "../../shared/languages";
+import type { AuthUser } from "../middleware/auth";
+
+export interface SocketData {
+  user: AuthUser;
+  // Language the socket reads captions and messages in, if translated.
+  // Kept here so every server instance can see it through fetchSockets.
+  listenerLanguage?: TranslationLanguage;
+}
+
+export type AppServer = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+export type AppSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+/**
+ * Thrown from a handler to answer the client's ack with a structured error
+ */
+export class SocketError extends Error {
+  constructor(public code: SocketErrorCode, message: string) {
+    super(message);
+    this.name = "SocketError";
+  }
+}
+
+/**
+ * Registers a handler whose payload is validated against the shared schema
+ * for that event. Invalid payloads and thrown errors are reported through
+ * the ack (when the client sent one) instead of reaching the handler.
+ */
+export function onEvent<K extends ClientEventName>(
+  socket: AppSocket,
+  event: K,
+  handler: (
+    payload: ClientEventPayload<K>
+  ) => ClientEventResult<K> | Promise<ClientEventResult<K>>
+) {
+  const listener = async (
+    payload: unknown,
+    ack?: (response: AckResponse<ClientEventResult<K>>) => void
+  ) => {
+    const reply = typeof ack === "function" ? ack : () => {};
+    const parsed = clientEventSchemas[event].safeParse(payload);
+    if (!parsed.success) {
+      console.warn(`Invalid ${event} payload from socket ${socket.id}`);
+      return reply({
+        ok: false,
+        error: {
+          code: "invalid_payload",
+          message: `Invalid ${event} payload`,
+          issues: parsed.error.issues.map((issue) => ({
+            path: issue.path,
+            message: issue.message,
+          })),
+        },
+      });
+    }
+
+    try {
+      const data = await handler(parsed.data);
+      reply({ ok: true, data });
+    } catch (error) {
+      if (error instanceof SocketError) {
+        console.warn(`${event} rejected for socket ${socket.id}: ${error.message}`);
+        return reply({
+          ok: false,
+          error: { code: error.code, message: error.message },
+        });
+      }
+      console.error(`Error handling ${event}:`, error);
+      reply({
+        ok: false,
+        error: { code: "internal_error", message: `Failed to handle ${event}` },
+      });
+    }
+  };
+
+  // The listener accepts any payload, so it satisfies every event signature
+  socket.on(event, listener as never);
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { signToken, verifyToken } from "./tokens";
+
+describe("signToken / verifyToken", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the payload of a token it signed", () => {
+    const token = signToken("session", { sub: "user-1" }, 60);
+    expect(verifyToken<{ sub: string }>("session", token)).toMatchObject({
+      sub: "user-1",
+      typ: "session",
+    });
+  });
+
+  it("rejects a token issued for another purpose", () => {
+    const token = signToken("invite", { sub: "user-1" }, 60);
+    expect(verifyToken("session", token)).toBeNull();
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const token = signToken("session", { sub: "user-1" }, 60);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "user-2", typ: "session", exp: Date.now() / 1000 + 60 })
+    ).toString("base64url");
+    expect(verifyToken("session", `${forged}.${signature}`)).toBeNull();
+  });
+
+  it("rejects a token once it has expired", () => {
+    vi.useFakeTimers();
+    const token = signToken("session", { sub: "user-1" }, 60);
+    vi.advanceTimersByTime(61_000);
+    expect(verifyToken("session", token)).toBeNull();
+  });
+
+  it("rejects anything that isn't a token", () => {
+    expect(verifyToken("session", "")).toBeNull();
+    expect(verifyToken("session", "not-a-token")).toBeNull();
+    expect(verifyToken("session", "a.b")).toBeNull();
+  });
+});
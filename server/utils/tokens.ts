@@ -0,0 +1,62 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Secret for signing tokens. Without AUTH_SECRET a random one is generated,
+ * which means every token becomes invalid when the server restarts.
+ */
+const SECRET = (() => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  console.warn("AUTH_SECRET is not set, using a random secret for this process");
+  return randomBytes(32).toString("hex");
+})();
+
+const sign = (body: string) =>
+  createHmac("sha256", SECRET).update(body).digest("base64url");
+
+/**
+ * Creates a compact `payload.signature` token. `typ` keeps tokens issued
+ * for one purpose from being accepted for another.
+ */
+export function signToken<T extends object>(
+  typ: string,
+  payload: T,
+  expiresInSeconds: number
+): string {
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const body = Buffer.from(JSON.stringify({ ...payload, typ, exp })).toString(
+    "base64url"
+  );
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Returns the payload of a valid, unexpired token of the given type,
+ * or null for anything else.
+ */
+export function verifyToken<T extends object>(
+  typ: string,
+  token: string
+): (T & { exp: number }) | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    if (payload.typ !== typ) return null;
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
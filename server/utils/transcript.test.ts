@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { MessageWithAuthor, RoomRow } from "../db";
+import { buildTranscript, renderTranscript } from "./transcript";
+
+const room: RoomRow = {
+  code: "ABC123",
+  creator_id: "user-1",
+  qr_code: "",
+  created_at: "2025-05-01T10:00:00.000Z",
+  active: true,
+  locked: false,
+  last_active_at: "2025-05-01T10:00:00.000Z",
+  media_mode: "auto",
+  passphrase_hash: null,
+  lobby_enabled: false,
+  invite_only: false,
+};
+
+// `at` is seconds after the room was created
+function message(
+  at: number,
+  content: string,
+  fields: Partial<MessageWithAuthor> = {}
+): MessageWithAuthor {
+  return {
+    id: `message-${at}`,
+    room_code: room.code,
+    user_id: "user-1",
+    display_name: "Ada",
+    content,
+    created_at: new Date(Date.parse(room.created_at) + at * 1000).toISOString(),
+    edited_at: null,
+    deleted_at: null,
+    kind: "typed",
+    confidence: null,
+    language: null,
+    utterance_start_at: null,
+    utterance_end_at: null,
+    word_timings: null,
+    ...fields,
+  };
+}
+
+// A final speech message, posted when the utterance ended
+function speech(startAt: number, endAt: number, content: string, speaker = "Ada") {
+  const at = (seconds: number) =>
+    new Date(Date.parse(room.created_at) + seconds * 1000).toISOString();
+  return message(endAt, content, {
+    id: `speech-${startAt}`,
+    display_name: speaker,
+    kind: "speech_final",
+    utterance_start_at: at(startAt),
+    utterance_end_at: at(endAt),
+  });
+}
+
+describe("buildTranscript", () => {
+  it("orders messages and speech by when they started", () => {
+    const entries = buildTranscript(room, [
+      message(5, "typed while talking"),
+      speech(3, 8, "spoken first"),
+    ]);
+    expect(entries.map((entry) => [entry.type, entry.text, entry.offsetMs])).toEqual([
+      ["speech", "spoken first", 3000],
+      ["message", "typed while talking", 5000],
+    ]);
+    expect(entries[0].durationMs).toBe(5000);
+  });
+
+  it("leaves out deleted messages and keeps edits", () => {
+    const entries = buildTranscript(room, [
+      message(1, "", { deleted_at: room.created_at }),
+      speech(2, 3, "corrected words"),
+    ]);
+    expect(entries.map((entry) => entry.text)).toEqual(["corrected words"]);
+  });
+});
+
+describe("renderTranscript", () => {
+  it("writes SRT cues from speech only, starting when it began", () => {
+    const entries = buildTranscript(room, [
+      speech(1, 2.5, "hello"),
+      message(2, "not spoken"),
+      speech(62, 70, "again", "Grace"),
+    ]);
+    expect(renderTranscript("srt", room, entries).body).toBe(
+      [
+        "1\n00:00:01,000 --> 00:00:02,500\nAda: hello",
+        "2\n00:01:02,000 --> 00:01:10,000\nGrace: again",
+      ].join("\n\n") + "\n"
+    );
+  });
+
+  it("cuts a cue short when the next one starts", () => {
+    const entries = buildTranscript(room, [speech(1, 9, "long"), speech(4, 5, "interrupting")]);
+    const { body } = renderTranscript("vtt", room, entries);
+    expect(body).toContain("00:00:01.000 --> 00:00:04.000\nAda: long");
+  });
+
+  it("sizes cues by their length without the utterance's end", () => {
+    const entries = buildTranscript(room, [
+      message(1, "hi", { kind: "speech_final", utterance_start_at: null }),
+    ]);
+    expect(renderTranscript("srt", room, entries).body).toContain(
+      "00:00:01,000 --> 00:00:03,000"
+    );
+  });
+
+  it("keeps caption text from breaking the cue grammar", () => {
+    const entries = buildTranscript(room, [speech(1, 2, "a --> b\n\n<i>c</i> & d")]);
+    expect(renderTranscript("srt", room, entries).body).toBe(
+      "1\n00:00:01,000 --> 00:00:02,000\nAda: a -> b <i>c</i> & d\n"
+    );
+    expect(renderTranscript("vtt", room, entries).body).toBe(
+      "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nAda: a --&gt; b &lt;i&gt;c&lt;/i&gt; &amp; d\n"
+    );
+  });
+
+  it("escapes Markdown in names and text", () => {
+    const entries = buildTranscript(room, [
+      message(1, "**bold** [link](x)\n- item", { display_name: "_Ada_" }),
+    ]);
+    const { body, contentType } = renderTranscript("md", room, entries);
+    expect(contentType).toBe("text/markdown; charset=utf-8");
+    expect(body.split("\n").at(-2)).toBe(
+      "- **[00:00:01] \\_Ada\\_**: \\*\\*bold\\*\\* \\[link\\](x) - item"
+    );
+  });
+
+  it("puts each entry on one line of plain text", () => {
+    const entries = buildTranscript(room, [speech(3, 4, "one\ntwo")]);
+    expect(renderTranscript("txt", room, entries).body).toBe(
+      `Transcript for room ABC123\nStarted ${room.created_at}\n\n[00:00:03] Ada: one two\n`
+    );
+  });
+
+  it("includes the timing in JSON", () => {
+    const entries = buildTranscript(room, [speech(3, 4, "hello")]);
+    const json = JSON.parse(renderTranscript("json", room, entries).body);
+    expect(json).toMatchObject({
+      roomCode: "ABC123",
+      startedAt: room.created_at,
+      entries: [{ type: "speech", speaker: "Ada", offsetMs: 3000, durationMs: 1000 }],
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { MessageWithAuthor, RoomRow } from "../db";
+
+export const TRANSCRIPT_FORMATS = ["md", "txt", "json", "srt", "vtt"] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export interface TranscriptEntry {
+  type: "message" | "speech";
+  speakerId: string;
+  speaker: string;
+  text: string;
+  // When it was posted, or for speech when the utterance began
+  timestamp: string;
+  // Milliseconds since the room was created
+  offsetMs: number;
+  // Speech only, when the recognizer reported when the utterance ended
+  durationMs?: number;
+}
+
+// Without the utterance's end, cues stay up for a time based on their
+// length. Either way they are cut short when the next cue starts.
+const CUE_MIN_MS = 2000;
+const CUE_MAX_MS = 7000;
+const CUE_MS_PER_CHAR = 60;
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+/**
+ * Puts a room's chat and speech messages in one time-ordered list. Speech
+ * comes from the speech messages rather than the caption segments, so
+ * edits and deletions show up in the transcript too.
+ */
+export function buildTranscript(
+  room: RoomRow,
+  messages: MessageWithAuthor[]
+): TranscriptEntry[] {
+  const start = new Date(room.created_at).getTime();
+
+  return messages
+    .filter((msg) => !msg.deleted_at)
+    .map((msg): TranscriptEntry => {
+      // A speech message is posted once the utterance ends; its cue
+      // belongs where the speaking started
+      const timestamp = msg.utterance_start_at ?? msg.created_at;
+      const entry: TranscriptEntry = {
+        type: msg.kind === "speech_final" ? "speech" : "message",
+        speakerId: msg.user_id,
+        speaker: msg.display_name,
+        text: msg.content,
+        timestamp,
+        offsetMs: Math.max(0, new Date(timestamp).getTime() - start),
+      };
+      if (msg.utterance_start_at && msg.utterance_end_at) {
+        entry.durationMs = Math.max(
+          0,
+          new Date(msg.utterance_end_at).getTime() - new Date(msg.utterance_start_at).getTime()
+        );
+      }
+      return entry;
+    })
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+}
+
+// 3723004 -> "01:02:03" plus ",004"/".004" when a separator is given
+function formatOffset(ms: number, millisSeparator?: string) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const clock = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return millisSeparator === undefined
+    ? clock
+    : `${clock}${millisSeparator}${pad(ms % 1000, 3)}`;
+}
+
+// User text on one line, so it can't end a list item, a line of the
+// transcript or a cue early
+const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Emphasis, code, links and HTML in user text are shown as typed; each
+// entry starts with the timestamp, so line-start syntax can't apply
+const escapeMarkdown = (text: string) =>
+  oneLine(text).replace(/[\\`*_[\]<>~|]/g, "\\$&");
+
+// SRT has no escaping; an arrow in the text would read as cue timing
+const srtText = (text: string) => oneLine(text).replace(/-->/g, "->");
+
+// WebVTT cue text is markup, which also keeps "-->" out of it
+const vttText = (text: string) =>
+  oneLine(text).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Subtitle cues come from speech only; chat messages were never spoken
+function toCues(entries: TranscriptEntry[]) {
+  const speech = entries.filter((entry) => entry.type === "speech");
+  return speech.map((entry, index) => {
+    const wanted =
+      entry.durationMs ||
+      Math.min(CUE_MAX_MS, Math.max(CUE_MIN_MS, entry.text.length * CUE_MS_PER_CHAR));
+    const next = speech[index + 1]?.offsetMs ?? Infinity;
+    const end = Math.max(entry.offsetMs + 1, Math.min(entry.offsetMs + wanted, next));
+    return { start: entry.offsetMs, end, text: `${entry.speaker}: ${entry.text}` };
+  });
+}
+
+/**
+ * Renders a transcript in the requested format
+ */
+export function renderTranscript(
+  format: TranscriptFormat,
+  room: RoomRow,
+  entries: TranscriptEntry[]
+): { body: string; contentType: string } {
+  const render = (): string => {
+    switch (format) {
+      case "json":
+        return JSON.stringify(
+          { roomCode: room.code, startedAt: room.created_at, entries },
+          null,
+          2
+        );
+
+      case "txt":
+        return [
+          `Transcript for room ${room.code}`,
+          `Started ${room.created_at}`,
+          "",
+          ...entries.map(
+            (entry) =>
+              `[${formatOffset(entry.offsetMs)}] ${oneLine(entry.speaker)}: ${oneLine(entry.text)}`
+          ),
+        ].join("\n");
+
+      case "md":
+        return [
+          `# Transcript for room ${room.code}`,
+          "",
+          `Started ${room.created_at}`,
+          "",
+          ...entries.map(
+            (entry) =>
+              `- **[${formatOffset(entry.offsetMs)}] ${escapeMarkdown(entry.speaker)}**` +
+              `${entry.type === "speech" ? " _(spoken)_" : ""}: ${escapeMarkdown(entry.text)}`
+          ),
+        ].join("\n");
+
+      case "srt":
+        return toCues(entries)
+          .map(
+            (cue, index) =>
+              `${index + 1}\n${formatOffset(cue.start, ",")} --> ` +
+              `${formatOffset(cue.end, ",")}\n${srtText(cue.text)}`
+          )
+          .join("\n\n");
+
+      case "vtt":
+        return [
+          "WEBVTT",
+          ...toCues(entries).map(
+            (cue) =>
+              `${formatOffset(cue.start, ".")} --> ${formatOffset(cue.end, ".")}\n` +
+              vttText(cue.text)
+          ),
+        ].join("\n\n");
+    }
+  };
+
+  return { body: render() + "\n", contentType: CONTENT_TYPES[format] };
+}
@@ -0,0 +1,18 @@
+/**
+ * Response shape of GET /api/ice-servers, shared by the server route and
+ * the client's peer connections.
+ */
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfig {
+  iceServers: IceServer[];
+  // "relay" sends all media through TURN, e.g. to test the relay
+  iceTransportPolicy: "all" | "relay";
+  // When the TURN credentials stop working; null when there are none
+  expiresAt: string | null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Invite links, /join/<roomCode>?token=<token>, shared by the server
+ * route that signs them and the client route that opens them.
+ */
+
+// Roles an invite link can hand out; a room has only one host
+export const INVITE_ROLES = ["participant", "cohost"] as const;
+export type InviteRole = (typeof INVITE_ROLES)[number];
+
+// Response shape of POST /api/rooms/:roomCode/invites
+export interface InviteLink {
+  url: string;
+  // Data URL of a QR code encoding `url`
+  qrCode: string;
+  expiresAt: string;
+  // Null for no limit
+  maxUses: number | null;
+  role: InviteRole;
+}
+
+/** Path of the page that joins `roomCode`, with the signed token if any */
+export function invitePath(roomCode: string, token?: string): string {
+  const path = `/join/${roomCode}`;
+  return token ? `${path}?token=${encodeURIComponent(token)}` : path;
+}
+
+/**
+ * Reads the room code and token back out of an invite URL, e.g. one
+ * scanned from a QR code. Null for anything that isn't one.
+ */
+export function parseInviteUrl(text: string): { roomCode: string; token?: string } | null {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  const match = url.pathname.match(/\/join\/([A-Za-z0-9]{6})\/?$/);
+  if (!match) return null;
+  return {
+    roomCode: match[1].toUpperCase(),
+    token: url.searchParams.get("token") ?? undefined,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Languages offered for translation, shared by the server's translators
+ * and the client's picker. Codes are bare language subtags.
+ */
+
+export const TRANSLATION_LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Español" },
+  { code: "fr", label: "Français" },
+  { code: "de", label: "Deutsch" },
+  { code: "it", label: "Italiano" },
+  { code: "pt", label: "Português" },
+] as const;
+
+export type TranslationLanguage = (typeof TRANSLATION_LANGUAGES)[number]["code"];
+
+export const TRANSLATION_LANGUAGE_CODES = TRANSLATION_LANGUAGES.map(
+  (language) => language.code
+) as [TranslationLanguage, ...TranslationLanguage[]];
+
+export const DEFAULT_SPEECH_LANGUAGE = "en-US";
+
+// Dialects speech can be recognized in, grouped by language for the picker.
+// Codes are BCP 47 tags as both the Web Speech API and the server's
+// recognizer take them.
+export const SPEECH_LANGUAGES = [
+  { code: "en-US", language: "English", dialect: "United States" },
+  { code: "en-GB", language: "English", dialect: "United Kingdom" },
+  { code: "en-AU", language: "English", dialect: "Australia" },
+  { code: "en-IN", language: "English", dialect: "India" },
+  { code: "es-ES", language: "Español", dialect: "España" },
+  { code: "es-MX", language: "Español", dialect: "México" },
+  { code: "es-US", language: "Español", dialect: "Estados Unidos" },
+  { code: "fr-FR", language: "Français", dialect: "France" },
+  { code: "fr-CA", language: "Français", dialect: "Canada" },
+  { code: "de-DE", language: "Deutsch", dialect: "Deutschland" },
+  { code: "de-CH", language: "Deutsch", dialect: "Schweiz" },
+  { code: "it-IT", language: "Italiano", dialect: "Italia" },
+  { code: "pt-BR", language: "Português", dialect: "Brasil" },
+  { code: "pt-PT", language: "Português", dialect: "Portugal" },
+] as const;
+
+export type SpeechLanguage = (typeof SPEECH_LANGUAGES)[number]["code"];
+
+export const SPEECH_LANGUAGE_CODES = SPEECH_LANGUAGES.map(
+  (language) => language.code
+) as [SpeechLanguage, ...SpeechLanguage[]];
+
+/** "en-US" -> "en" */
+export function languageSubtag(tag: string): string {
+  return tag.split("-")[0].toLowerCase();
+}
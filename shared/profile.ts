@@ -0,0 +1,11 @@
+/**
+ * Response shape of GET/PATCH /api/auth/profile, shared by the server
+ * route and the client.
+ */
+
+export interface UserProfile {
+  id: string;
+  displayName: string;
+  // BCP 47 tag the user's speech is recognized in
+  speechLanguage: string;
+}
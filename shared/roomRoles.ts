@@ -0,0 +1,24 @@
+/**
+ * Role rules shared by the server (which enforces them) and the client
+ * (which only uses them to decide which controls to show).
+ */
+import type { RoomRole } from "./socketEvents";
+
+/** Hosts and co-hosts can moderate a room */
+export function isModerator(role: RoomRole | null | undefined): boolean {
+  return role === "host" || role === "cohost";
+}
+
+/**
+ * Whether a member with role `actor` may mute, remove or ban one with role
+ * `target`. Hosts can act on anyone but another host; co-hosts only on
+ * regular participants.
+ */
+export function canModerate(
+  actor: RoomRole | null | undefined,
+  target: RoomRole
+): boolean {
+  if (actor === "host") return target !== "host";
+  if (actor === "cohost") return target === "participant";
+  return false;
+}
@@ -0,0 +1,24 @@
+/**
+ * Response shape of GET /api/search, shared by the server route and the
+ * ChatRoom search panel.
+ */
+
+export interface SnippetPart {
+  text: string;
+  // Highlighted as a match for the query
+  match: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  room_code: string;
+  user_id: string;
+  display_name: string;
+  content: string;
+  created_at: string;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+}
@@ -0,0 +1,670 @@
+/**
+ * Socket.IO event contract shared by server/server.ts and the client.
+ * Every client -> server payload has a zod schema the server validates
+ * against; server -> client payloads are described the same way so both
+ * sides agree on their shape.
+ */
+import { z } from "zod";
+import { TRANSLATION_LANGUAGE_CODES } from "./languages";
+
+export const roomCodeSchema = z
+  .string()
+  .regex(/^[A-Z0-9]{6}$/, "Room code must be 6 uppercase letters or digits");
+
+const userIdSchema = z.string().uuid();
+
+// One socket connection: a tab or device. A user may have several, in the
+// same room or in different ones.
+const connectionIdSchema = z.string().min(1).max(64);
+
+export const roomRoleSchema = z.enum(["host", "cohost", "participant"]);
+
+// How a room carries audio: "mesh" connects every pair of participants,
+// "sfu" relays through the server, "auto" picks by how many are present
+export const mediaModeSettingSchema = z.enum(["auto", "mesh", "sfu"]);
+
+export const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+export const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().int().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Client -> server payloads
+// ---------------------------------------------------------------------------
+
+export const roomRefSchema = z.object({ roomCode: roomCodeSchema });
+
+// Clients send a heartbeat this often while connected. The server drops
+// connections that go quiet for several intervals, e.g. a suspended tab
+// whose socket never closed.
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+
+export const heartbeatInputSchema = z.object({});
+
+export const MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+// Message history is paged by message id: `before` walks back from a
+// message, `after` forward; neither gives the newest page
+export const messagePageInputSchema = roomRefSchema
+  .extend({
+    before: z.string().uuid().optional(),
+    after: z.string().uuid().optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).optional(),
+  })
+  .refine((query) => !(query.before && query.after), {
+    message: "Use either before or after, not both",
+  });
+
+export const messageKindSchema = z.enum(["typed", "speech_final", "system"]);
+
+export const wordTimingSchema = z.object({
+  word: z.string().min(1).max(100),
+  // Milliseconds from the start of the utterance
+  startMs: z.number().int().min(0),
+  endMs: z.number().int().min(0),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// What the recognizer knew about a transcribed utterance
+export const speechMetadataSchema = z.object({
+  confidence: z.number().min(0).max(1).optional(),
+  // BCP 47 tag, e.g. en-US
+  language: z.string().min(2).max(35).optional(),
+  utteranceStart: z.string().datetime().optional(),
+  utteranceEnd: z.string().datetime().optional(),
+  words: z.array(wordTimingSchema).max(500).optional(),
+});
+
+// Clients post typed text or final speech transcripts; system messages
+// only ever come from the server
+export const chatMessageInputSchema = z
+  .object({
+    roomCode: roomCodeSchema,
+    message: z.string().trim().min(1).max(1000),
+    // Omitted means typed
+    kind: messageKindSchema.exclude(["system"]).optional(),
+    speech: speechMetadataSchema.optional(),
+  })
+  .refine((input) => !input.speech || input.kind === "speech_final", {
+    message: "Speech metadata is only allowed on speech messages",
+    path: ["speech"],
+  });
+
+// Authors edit or delete their own messages
+export const editMessageInputSchema = z.object({
+  roomCode: roomCodeSchema,
+  messageId: z.string().uuid(),
+  content: z.string().trim().min(1).max(1000),
+});
+
+export const messageRefSchema = z.object({
+  roomCode: roomCodeSchema,
+  messageId: z.string().uuid(),
+});
+
+// A single emoji, including ones built from modifiers and joiners
+export const reactionEmojiSchema = z
+  .string()
+  .max(32)
+  .regex(
+    /^\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*$/u,
+    "Reactions must be a single emoji"
+  );
+
+export const reactionInputSchema = messageRefSchema.extend({
+  emoji: reactionEmojiSchema,
+});
+
+// A live caption segment. Interim updates share a segmentId and carry an
+// increasing seq so receivers can drop stale ones; the final one is stored.
+export const subtitleInputSchema = z.object({
+  roomCode: roomCodeSchema,
+  segmentId: z.string().uuid(),
+  seq: z.number().int().min(0),
+  text: z.string().trim().min(1).max(2000),
+  isFinal: z.boolean(),
+  // BCP 47 tag the speech was recognized in
+  language: z.string().min(2).max(35).optional(),
+});
+
+// Server-side transcription takes 16-bit mono PCM at this rate
+export const ASR_SAMPLE_RATE = 16000;
+// About two seconds of audio; clients send far smaller chunks
+export const MAX_ASR_CHUNK_BYTES = 64_000;
+
+export const asrStartInputSchema = roomRefSchema.extend({
+  // BCP 47 tag of the language being spoken, e.g. en-US
+  language: z.string().min(2).max(35).optional(),
+});
+
+// Binary arrives as a Buffer on the server and may be any view client-side
+export const asrAudioInputSchema = z.object({
+  roomCode: roomCodeSchema,
+  audio: z.custom<ArrayBuffer | ArrayBufferView>(
+    (value) =>
+      (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) &&
+      value.byteLength > 0 &&
+      value.byteLength <= MAX_ASR_CHUNK_BYTES &&
+      value.byteLength % 2 === 0,
+    "Audio must be 16-bit PCM of at most 64 kB"
+  ),
+});
+
+export const translationLanguageSchema = z.enum(TRANSLATION_LANGUAGE_CODES);
+
+// The language this socket wants captions and messages translated into;
+// null turns translation off
+export const setLanguageInputSchema = roomRefSchema.extend({
+  language: translationLanguageSchema.nullable(),
+});
+
+// Translations of earlier messages, e.g. a page of history
+export const translateMessagesInputSchema = roomRefSchema.extend({
+  messageIds: z.array(z.string().uuid()).min(1).max(MAX_MESSAGE_PAGE_SIZE),
+  language: translationLanguageSchema,
+});
+
+// Signaling payloads only name the target connection; the sender comes
+// from the session
+export const offerInputSchema = z.object({
+  targetConnectionId: connectionIdSchema,
+  offer: sessionDescriptionSchema,
+});
+
+export const answerInputSchema = z.object({
+  targetConnectionId: connectionIdSchema,
+  answer: sessionDescriptionSchema,
+});
+
+export const iceCandidateInputSchema = z.object({
+  targetConnectionId: connectionIdSchema,
+  candidate: iceCandidateSchema,
+});
+
+export const hangupInputSchema = z.object({
+  targetConnectionId: connectionIdSchema,
+});
+
+// SFU offers carry all their candidates; nothing trickles
+const sfuOfferSchema = z.object({
+  type: z.literal("offer"),
+  sdp: z.string().max(100_000),
+});
+
+export const sfuPublishInputSchema = roomRefSchema.extend({
+  offer: sfuOfferSchema,
+});
+
+export const sfuSubscribeInputSchema = roomRefSchema.extend({
+  // The publishing connection
+  publisherId: connectionIdSchema,
+  offer: sfuOfferSchema,
+});
+
+export const speakingInputSchema = roomRefSchema.extend({
+  speaking: z.boolean(),
+});
+
+// Moderation: the actor must be a host or co-host of the room
+export const participantTargetSchema = z.object({
+  roomCode: roomCodeSchema,
+  targetUserId: userIdSchema,
+});
+
+export const roomLockInputSchema = z.object({
+  roomCode: roomCodeSchema,
+  locked: z.boolean(),
+});
+
+export const mediaModeInputSchema = roomRefSchema.extend({
+  mode: mediaModeSettingSchema,
+});
+
+// Hosts promote members to co-host or demote them; "host" moves only
+// through transfer_host
+export const setRoleInputSchema = participantTargetSchema.extend({
+  role: roomRoleSchema.exclude(["host"]),
+});
+
+export type RoomRef = z.infer<typeof roomRefSchema>;
+export type HeartbeatInput = z.infer<typeof heartbeatInputSchema>;
+export type MessagePageInput = z.infer<typeof messagePageInputSchema>;
+export type ChatMessageInput = z.infer<typeof chatMessageInputSchema>;
+export type SubtitleInput = z.infer<typeof subtitleInputSchema>;
+export type AsrStartInput = z.infer<typeof asrStartInputSchema>;
+export type AsrAudioInput = z.infer<typeof asrAudioInputSchema>;
+export type SetLanguageInput = z.infer<typeof setLanguageInputSchema>;
+export type TranslateMessagesInput = z.infer<typeof translateMessagesInputSchema>;
+export type EditMessageInput = z.infer<typeof editMessageInputSchema>;
+export type MessageRef = z.infer<typeof messageRefSchema>;
+export type ReactionInput = z.infer<typeof reactionInputSchema>;
+export type OfferInput = z.infer<typeof offerInputSchema>;
+export type AnswerInput = z.infer<typeof answerInputSchema>;
+export type IceCandidateInput = z.infer<typeof iceCandidateInputSchema>;
+export type HangupInput = z.infer<typeof hangupInputSchema>;
+export type SfuPublishInput = z.infer<typeof sfuPublishInputSchema>;
+export type SfuSubscribeInput = z.infer<typeof sfuSubscribeInputSchema>;
+export type SpeakingInput = z.infer<typeof speakingInputSchema>;
+export type ParticipantTarget = z.infer<typeof participantTargetSchema>;
+export type RoomLockInput = z.infer<typeof roomLockInputSchema>;
+export type MediaModeInput = z.infer<typeof mediaModeInputSchema>;
+export type SetRoleInput = z.infer<typeof setRoleInputSchema>;
+
+// ---------------------------------------------------------------------------
+// Server -> client payloads
+// ---------------------------------------------------------------------------
+
+export const participantSchema = z.object({
+  id: userIdSchema,
+  displayName: z.string(),
+  role: roomRoleSchema,
+  // Muted by a host or co-host until one of them unmutes them
+  muted: z.boolean(),
+});
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  userId: userIdSchema,
+  displayName: z.string(),
+  message: z.string(),
+  timestamp: z.string(),
+  kind: messageKindSchema,
+  // Null for anything but speech
+  speech: speechMetadataSchema.nullable(),
+});
+
+export const reactionSummarySchema = z.object({
+  emoji: z.string(),
+  userIds: z.array(userIdSchema),
+});
+
+export const historyMessageSchema = z.object({
+  id: z.string(),
+  user_id: userIdSchema,
+  // Empty for deleted messages
+  content: z.string(),
+  created_at: z.string(),
+  display_name: z.string(),
+  edited_at: z.string().nullable(),
+  deleted_at: z.string().nullable(),
+  reactions: z.array(reactionSummarySchema),
+  kind: messageKindSchema,
+  speech: speechMetadataSchema.nullable(),
+});
+
+export const messageUpdatedSchema = z.object({
+  roomCode: roomCodeSchema,
+  id: z.string(),
+  content: z.string(),
+  editedAt: z.string().nullable(),
+  deletedAt: z.string().nullable(),
+});
+
+export const messageReactionSchema = z.object({
+  roomCode: roomCodeSchema,
+  messageId: z.string(),
+  emoji: z.string(),
+  userId: userIdSchema,
+  // False when the reaction was taken back
+  added: z.boolean(),
+});
+
+export const messagePageSchema = z.object({
+  messages: z.array(historyMessageSchema),
+  // More messages exist past this page in the direction being paged
+  hasMore: z.boolean(),
+});
+
+export const captionSegmentSchema = subtitleInputSchema.extend({
+  speakerId: userIdSchema,
+  displayName: z.string(),
+  timestamp: z.string(),
+});
+
+// Where a signaling message came from
+const signalSourceSchema = z.object({
+  fromUserId: userIdSchema,
+  fromConnectionId: connectionIdSchema,
+});
+
+export const offerSchema = signalSourceSchema.extend({
+  offer: sessionDescriptionSchema,
+});
+
+export const answerSchema = signalSourceSchema.extend({
+  answer: sessionDescriptionSchema,
+});
+
+export const iceCandidateEventSchema = signalSourceSchema.extend({
+  candidate: iceCandidateSchema,
+});
+
+export const hangupSchema = signalSourceSchema;
+
+// Everyone in a room, one entry per connection; a user with two tabs open
+// appears twice in connections but once in userIds
+export const presenceUpdateSchema = z.object({
+  roomCode: roomCodeSchema,
+  userIds: z.array(userIdSchema),
+  connections: z.array(
+    z.object({
+      connectionId: connectionIdSchema,
+      userId: userIdSchema,
+      displayName: z.string(),
+      // ISO time of the connection's last heartbeat
+      lastSeen: z.string(),
+    })
+  ),
+});
+
+// Sent when a user's first connection joins, and when they come back
+// after participant_reconnecting
+export const participantJoinedSchema = z.object({
+  roomCode: roomCodeSchema,
+  participant: participantSchema,
+});
+
+// A user's last connection dropped without leaving. They count as gone
+// once participant_left follows, after the server's grace period.
+export const participantReconnectingSchema = z.object({
+  roomCode: roomCodeSchema,
+  userId: userIdSchema,
+  lastSeen: z.string(),
+});
+
+export const participantLeftSchema = z.object({
+  roomCode: roomCodeSchema,
+  userId: userIdSchema,
+});
+
+export const waitingUserSchema = z.object({
+  id: userIdSchema,
+  displayName: z.string(),
+  requestedAt: z.string(),
+});
+
+// Who is waiting in a room's lobby, sent to its hosts and co-hosts
+export const lobbyUpdateSchema = z.object({
+  roomCode: roomCodeSchema,
+  waiting: z.array(waitingUserSchema),
+});
+
+// Sent to someone waiting in the lobby once a host decides
+export const lobbyDecisionSchema = z.object({
+  roomCode: roomCodeSchema,
+  admitted: z.boolean(),
+});
+
+// Where a joiner stands: still waiting, or already a member
+export const lobbyStatusSchema = z.enum(["waiting", "admitted"]);
+
+export const roomClosedSchema = z.object({
+  roomCode: roomCodeSchema,
+  // "idle" rooms had nobody present for the server's idle timeout
+  reason: z.enum(["ended_by_host", "idle"]),
+});
+
+export const messageTranslationSchema = z.object({
+  roomCode: roomCodeSchema,
+  messageId: z.string(),
+  language: translationLanguageSchema,
+  text: z.string(),
+});
+
+// Follows the caption update with the same segmentId and seq
+export const captionTranslationSchema = z.object({
+  roomCode: roomCodeSchema,
+  speakerId: userIdSchema,
+  segmentId: z.string().uuid(),
+  seq: z.number().int().min(0),
+  language: translationLanguageSchema,
+  text: z.string(),
+});
+
+export const asrErrorSchema = z.object({
+  roomCode: roomCodeSchema,
+  message: z.string(),
+});
+
+export const removedFromRoomSchema = z.object({
+  roomCode: roomCodeSchema,
+  reason: z.enum(["removed", "banned"]),
+});
+
+export const mediaModeSchema = z.object({
+  roomCode: roomCodeSchema,
+  setting: mediaModeSettingSchema,
+  // What the room uses right now
+  mode: z.enum(["mesh", "sfu"]),
+});
+
+export const sfuAnswerSchema = z.object({
+  type: z.literal("answer"),
+  sdp: z.string(),
+});
+
+export const sfuPublishersSchema = z.object({
+  roomCode: roomCodeSchema,
+  connectionIds: z.array(connectionIdSchema),
+});
+
+export const speakingSchema = z.object({
+  roomCode: roomCodeSchema,
+  userId: userIdSchema,
+  connectionId: connectionIdSchema,
+  speaking: z.boolean(),
+});
+
+export type RoomRole = z.infer<typeof roomRoleSchema>;
+export type MessageKind = z.infer<typeof messageKindSchema>;
+export type WordTiming = z.infer<typeof wordTimingSchema>;
+export type SpeechMetadata = z.infer<typeof speechMetadataSchema>;
+export type Participant = z.infer<typeof participantSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>;
+export type HistoryMessage = z.infer<typeof historyMessageSchema>;
+export type MessageUpdatedEvent = z.infer<typeof messageUpdatedSchema>;
+export type MessageReactionEvent = z.infer<typeof messageReactionSchema>;
+export type MessagePage = z.infer<typeof messagePageSchema>;
+export type CaptionSegment = z.infer<typeof captionSegmentSchema>;
+export type OfferEvent = z.infer<typeof offerSchema>;
+export type AnswerEvent = z.infer<typeof answerSchema>;
+export type IceCandidateEvent = z.infer<typeof iceCandidateEventSchema>;
+export type HangupEvent = z.infer<typeof hangupSchema>;
+export type PresenceUpdate = z.infer<typeof presenceUpdateSchema>;
+export type ParticipantJoinedEvent = z.infer<typeof participantJoinedSchema>;
+export type ParticipantReconnectingEvent = z.infer<typeof participantReconnectingSchema>;
+export type ParticipantLeftEvent = z.infer<typeof participantLeftSchema>;
+export type WaitingUser = z.infer<typeof waitingUserSchema>;
+export type LobbyUpdate = z.infer<typeof lobbyUpdateSchema>;
+export type LobbyDecision = z.infer<typeof lobbyDecisionSchema>;
+export type LobbyStatus = z.infer<typeof lobbyStatusSchema>;
+export type RoomClosedEvent = z.infer<typeof roomClosedSchema>;
+export type AsrErrorEvent = z.infer<typeof asrErrorSchema>;
+export type MessageTranslation = z.infer<typeof messageTranslationSchema>;
+export type CaptionTranslation = z.infer<typeof captionTranslationSchema>;
+export type RemovedFromRoomEvent = z.infer<typeof removedFromRoomSchema>;
+export type MediaModeSetting = z.infer<typeof mediaModeSettingSchema>;
+export type MediaModeEvent = z.infer<typeof mediaModeSchema>;
+export type SfuPublishersEvent = z.infer<typeof sfuPublishersSchema>;
+export type SfuAnswer = z.infer<typeof sfuAnswerSchema>;
+export type SpeakingEvent = z.infer<typeof speakingSchema>;
+
+// ---------------------------------------------------------------------------
+// Acknowledgements
+// ---------------------------------------------------------------------------
+
+export type SocketErrorCode =
+  | "invalid_payload"
+  | "not_in_room"
+  | "forbidden"
+  | "not_found"
+  | "unavailable"
+  | "internal_error";
+
+export interface SocketErrorBody {
+  code: SocketErrorCode;
+  message: string;
+  // Field-level problems when code is "invalid_payload"
+  issues?: { path: (string | number)[]; message: string }[];
+}
+
+export type AckResponse<T = void> =
+  | { ok: true; data: T }
+  | { ok: false; error: SocketErrorBody };
+
+type ClientEvent<P, R = void> = (
+  payload: P,
+  ack?: (response: AckResponse<R>) => void
+) => void;
+
+// ---------------------------------------------------------------------------
+// Event maps
+// ---------------------------------------------------------------------------
+
+export interface ClientToServerEvents {
+  join_room: ClientEvent<RoomRef>;
+  leave_room: ClientEvent<RoomRef>;
+  // Keeps this connection counted as present, every HEARTBEAT_INTERVAL_MS
+  heartbeat: ClientEvent<HeartbeatInput>;
+  // After POST /api/rooms/join put us in the lobby: listen for the host's
+  // lobby_decision, or give up waiting
+  wait_in_lobby: ClientEvent<RoomRef, LobbyStatus>;
+  leave_lobby: ClientEvent<RoomRef>;
+  fetch_messages: ClientEvent<MessagePageInput, MessagePage>;
+  chat_message: ClientEvent<ChatMessageInput, ChatMessage>;
+  edit_message: ClientEvent<EditMessageInput, MessageUpdatedEvent>;
+  delete_message: ClientEvent<MessageRef, MessageUpdatedEvent>;
+  // Adds the reaction, or takes it back if the user already reacted with it
+  toggle_reaction: ClientEvent<ReactionInput, { added: boolean }>;
+  subtitle: ClientEvent<SubtitleInput>;
+  // Server-side transcription: start a stream, send PCM chunks, stop it.
+  // Results come back as subtitle and chat_message events.
+  asr_start: ClientEvent<AsrStartInput>;
+  asr_audio: ClientEvent<AsrAudioInput>;
+  asr_stop: ClientEvent<RoomRef>;
+  set_language: ClientEvent<SetLanguageInput>;
+  // Only messages that read differently once translated are returned
+  translate_messages: ClientEvent<TranslateMessagesInput, MessageTranslation[]>;
+  offer: ClientEvent<OfferInput>;
+  answer: ClientEvent<AnswerInput>;
+  ice_candidate: ClientEvent<IceCandidateInput>;
+  // Tells a peer we closed our connection to it, so it drops its end too
+  hangup: ClientEvent<HangupInput>;
+  // Only while the room is in SFU mode; the ack carries the server's answer
+  sfu_publish: ClientEvent<SfuPublishInput, SfuAnswer>;
+  sfu_subscribe: ClientEvent<SfuSubscribeInput, SfuAnswer>;
+  // Stops sending and receiving through the SFU
+  sfu_leave: ClientEvent<RoomRef>;
+  // Our microphone started or stopped picking up speech
+  speaking: ClientEvent<SpeakingInput>;
+  mute_participant: ClientEvent<ParticipantTarget>;
+  unmute_participant: ClientEvent<ParticipantTarget>;
+  remove_participant: ClientEvent<ParticipantTarget>;
+  ban_participant: ClientEvent<ParticipantTarget>;
+  // Let someone in from the lobby, or turn them away
+  admit_participant: ClientEvent<ParticipantTarget>;
+  reject_participant: ClientEvent<ParticipantTarget>;
+  set_room_lock: ClientEvent<RoomLockInput>;
+  set_media_mode: ClientEvent<MediaModeInput>;
+  end_meeting: ClientEvent<RoomRef>;
+  transfer_host: ClientEvent<ParticipantTarget>;
+  set_role: ClientEvent<SetRoleInput>;
+}
+
+export interface ServerToClientEvents {
+  presence_update: (data: PresenceUpdate) => void;
+  participant_joined: (data: ParticipantJoinedEvent) => void;
+  participant_reconnecting: (data: ParticipantReconnectingEvent) => void;
+  participant_left: (data: ParticipantLeftEvent) => void;
+  chat_message: (data: ChatMessage) => void;
+  message_updated: (data: MessageUpdatedEvent) => void;
+  message_reaction: (data: MessageReactionEvent) => void;
+  subtitle: (data: CaptionSegment) => void;
+  caption_history: (segments: CaptionSegment[]) => void;
+  // Sent only to listeners who picked a language the text is not in
+  message_translation: (data: MessageTranslation) => void;
+  caption_translation: (data: CaptionTranslation) => void;
+  // The server's recognizer failed; the stream has been stopped
+  asr_error: (data: AsrErrorEvent) => void;
+  offer: (data: OfferEvent) => void;
+  answer: (data: AnswerEvent) => void;
+  ice_candidate: (data: IceCandidateEvent) => void;
+  hangup: (data: HangupEvent) => void;
+  // Sent to the whole room whenever presence or the setting changes
+  media_mode: (data: MediaModeEvent) => void;
+  sfu_publishers: (data: SfuPublishersEvent) => void;
+  // Relayed to the rest of the room, including those not connected for audio
+  speaking: (data: SpeakingEvent) => void;
+  // Sent only to the muted participant, who turns their microphone off;
+  // again whenever they rejoin while still muted
+  force_mute: (data: { roomCode: string; byUserId: string }) => void;
+  participant_muted: (data: { roomCode: string; userId: string }) => void;
+  participant_unmuted: (data: { roomCode: string; userId: string }) => void;
+  removed_from_room: (data: RemovedFromRoomEvent) => void;
+  room_updated: (data: { roomCode: string; locked: boolean }) => void;
+  // Sent only to hosts and co-hosts in the room
+  lobby_updated: (data: LobbyUpdate) => void;
+  lobby_decision: (data: LobbyDecision) => void;
+  role_changed: (data: { roomCode: string; userId: string; role: RoomRole }) => void;
+  room_closed: (data: RoomClosedEvent) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ClientEventPayload<K extends ClientEventName> = Parameters<
+  ClientToServerEvents[K]
+>[0];
+export type ClientEventResult<K extends ClientEventName> = Parameters<
+  NonNullable<Parameters<ClientToServerEvents[K]>[1]>
+>[0] extends AckResponse<infer R>
+  ? R
+  : never;
+
+/** The schema the server validates each client event's payload against. */
+export const clientEventSchemas: {
+  [K in ClientEventName]: z.ZodType<ClientEventPayload<K>, z.ZodTypeDef, unknown>;
+} = {
+  join_room: roomRefSchema,
+  leave_room: roomRefSchema,
+  heartbeat: heartbeatInputSchema,
+  wait_in_lobby: roomRefSchema,
+  leave_lobby: roomRefSchema,
+  fetch_messages: messagePageInputSchema,
+  chat_message: chatMessageInputSchema,
+  edit_message: editMessageInputSchema,
+  delete_message: messageRefSchema,
+  toggle_reaction: reactionInputSchema,
+  subtitle: subtitleInputSchema,
+  asr_start: asrStartInputSchema,
+  asr_audio: asrAudioInputSchema,
+  asr_stop: roomRefSchema,
+  set_language: setLanguageInputSchema,
+  translate_messages: translateMessagesInputSchema,
+  offer: offerInputSchema,
+  answer: answerInputSchema,
+  ice_candidate: iceCandidateInputSchema,
+  hangup: hangupInputSchema,
+  sfu_publish: sfuPublishInputSchema,
+  sfu_subscribe: sfuSubscribeInputSchema,
+  sfu_leave: roomRefSchema,
+  speaking: speakingInputSchema,
+  mute_participant: participantTargetSchema,
+  unmute_participant: participantTargetSchema,
+  remove_participant: participantTargetSchema,
+  ban_participant: participantTargetSchema,
+  admit_participant: participantTargetSchema,
+  reject_participant: participantTargetSchema,
+  set_room_lock: roomLockInputSchema,
+  set_media_mode: mediaModeInputSchema,
+  end_meeting: roomRefSchema,
+  transfer_host: participantTargetSchema,
+  set_role: setRoleInputSchema,
+};
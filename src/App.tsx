@@ -1,27 +1,43 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   BrowserRouter as Router,
   Routes,
   Route,
   Navigate,
+  useLocation,
   useNavigate,
 } from "react-router-dom";
 import { Login } from "./components/Login";
-import { RoomOptions } from "./components/RoomOptions";
+import { RoomOptions, type CreateRoomOptions } from "./components/RoomOptions";
 import { JoinRoom } from "./components/JoinRoom";
+import { InviteLanding } from "./components/InviteLanding";
 import { ChatRoom } from "./components/ChatRoom";
+import {
+  apiFetch,
+  clearSession,
+  getStoredUser,
+  saveSession,
+  type SessionUser,
+} from "./lib/api";
 
-interface User {
-  id: string;
-  displayName: string;
-}
+type User = SessionUser;
 
 function App() {
-  // Initialize user state from localStorage using a function
-  const [user, setUser] = useState<User | null>(() => {
-    const storedUser = localStorage.getItem("user");
-    return storedUser ? JSON.parse(storedUser) : null;
-  });
+  // Initialize user state from the stored session
+  const [user, setUser] = useState<User | null>(getStoredUser);
+
+  // Drop a stored session the server no longer accepts (expired or re-keyed)
+  useEffect(() => {
+    if (!user) return;
+    apiFetch("/api/auth/me")
+      .then((res) => {
+        if (res.status === 401) {
+          clearSession();
+          setUser(null);
+        }
+      })
+      .catch((error) => console.error("Error checking session:", error));
+  }, [user]);
 
   // ProtectedRoute ensures that a user is logged in.
   const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -33,20 +49,38 @@ function App() {
 
   function MainContent() {
     const navigate = useNavigate();
+    const location = useLocation();
 
-    const handleLogin = (userData: User) => {
+    // Back to the page that sent us to sign in, e.g. an invite link
+    const handleLogin = (userData: User, token: string) => {
+      saveSession(userData, token);
+      setUser(userData);
+      const from = (location.state as { from?: string } | null)?.from;
+      navigate(from ?? "/options");
+    };
+
+    // Stays on the invite link, which then joins the room
+    const handleGuestSignIn = (userData: User, token: string) => {
+      saveSession(userData, token);
       setUser(userData);
-      localStorage.setItem("user", JSON.stringify(userData));
-      navigate("/options");
     };
 
-    // Handles room creation by sending the valid user.id as creatorId.
-    const handleCreateRoom = async () => {
+    const handleSignInFirst = (returnTo: string) => {
+      navigate("/", { state: { from: returnTo } });
+    };
+
+    const handleLogout = () => {
+      clearSession();
+      setUser(null);
+      navigate("/");
+    };
+
+    // Handles room creation; the server takes the creator from the session.
+    const handleCreateRoom = async (options: CreateRoomOptions) => {
       try {
-        const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/api/rooms/create`, {
+        const response = await apiFetch("/api/rooms/create", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ creatorId: user?.id }),
+          body: JSON.stringify(options),
         });
         const data = await response.json();
         if (!response.ok) {
@@ -87,6 +121,7 @@ function App() {
               <RoomOptions
                 onCreateRoom={handleCreateRoom}
                 onJoinRoom={handleJoinRoom}
+                onLogout={handleLogout}
               />
             </ProtectedRoute>
           }
@@ -99,6 +134,18 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/join/:roomCode"
+          element={
+            <InviteLanding
+              user={user}
+              onGuestSignIn={handleGuestSignIn}
+              onSignIn={handleSignInFirst}
+              onBack={handleBack}
+              onJoin={handleJoinExistingRoom}
+            />
+          }
+        />
         <Route
           path="/chat/:roomCode"
           element={
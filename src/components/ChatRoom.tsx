@@ -1,17 +1,140 @@
-import React, { useRef, useState, useEffect, useCallback } from "react";
+import React, { useRef, useState, useEffect, useLayoutEffect, useCallback } from "react";
 import { useParams } from "react-router-dom";
-import io from "socket.io-client";
-import { Mic, MicOff, Send, User, Copy } from "lucide-react";
+import { io, type Socket } from "socket.io-client";
+import {
+  Mic,
+  MicOff,
+  Send,
+  User,
+  Copy,
+  Crown,
+  Shield,
+  ShieldOff,
+  Ban,
+  UserMinus,
+  Lock,
+  Unlock,
+  PhoneOff,
+  Download,
+  Search,
+  ArrowDown,
+  Video,
+  VideoOff,
+  ScreenShare,
+  ScreenShareOff,
+  SlidersHorizontal,
+  Volume2,
+  VolumeX,
+  Check,
+  X,
+} from "lucide-react";
+import { SearchPanel } from "./SearchPanel";
+import { InviteLinkMenu } from "./InviteLinkMenu";
+import { VideoGrid, type VideoTile } from "./VideoGrid";
+import { LevelRing } from "./LevelRing";
+import { MessageBubble, type Message } from "./MessageBubble";
+import { apiFetch, BACKEND_URL, getToken } from "../lib/api";
+import { getIceConfig } from "../lib/iceServers";
+import { createPeer, type Peer } from "../lib/peerConnection";
+import { createSfuSession, type SfuSession } from "../lib/sfuClient";
+import { startPcmCapture } from "../lib/pcmCapture";
+import { createAudioLevelMonitor, type AudioLevelMonitor } from "../lib/audioLevels";
+import { openMicrophone, type Microphone } from "../lib/microphone";
+import type {
+  AnswerEvent,
+  CaptionSegment,
+  CaptionTranslation,
+  ChatMessage,
+  ClientToServerEvents,
+  HangupEvent,
+  IceCandidateEvent,
+  LobbyUpdate,
+  MediaModeEvent,
+  MediaModeSetting,
+  MessagePage,
+  MessageReactionEvent,
+  MessageTranslation,
+  MessageUpdatedEvent,
+  SpeechMetadata,
+  OfferEvent,
+  Participant as SocketParticipant,
+  ParticipantJoinedEvent,
+  ParticipantLeftEvent,
+  ParticipantReconnectingEvent,
+  PresenceUpdate,
+  RoomRole,
+  ServerToClientEvents,
+  SfuPublishersEvent,
+  SpeakingEvent,
+  WaitingUser,
+} from "../../shared/socketEvents";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  MAX_MESSAGE_PAGE_SIZE,
+  MESSAGE_PAGE_SIZE,
+} from "../../shared/socketEvents";
+import type { SearchResult } from "../../shared/search";
+import {
+  DEFAULT_SPEECH_LANGUAGE,
+  SPEECH_LANGUAGES,
+  TRANSLATION_LANGUAGE_CODES,
+  TRANSLATION_LANGUAGES,
+  type TranslationLanguage,
+} from "../../shared/languages";
+import type { UserProfile } from "../../shared/profile";
+import { canModerate, isModerator } from "../../shared/roomRoles";
 
-// Interfaces
-interface Message {
-  id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  display_name: string;
+type RoomSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// "browser" uses the Web Speech API; "server" streams microphone audio to
+// the server's recognizer
+type TranscriptionMode = "browser" | "server";
+
+const browserRecognitionSupported = () =>
+  Boolean(window.SpeechRecognition || window.webkitSpeechRecognition);
+
+// Formats served by GET /api/rooms/:roomCode/transcript
+type TranscriptFormat = "md" | "txt" | "json" | "srt" | "vtt";
+const TRANSCRIPT_OPTIONS: { format: TranscriptFormat; label: string }[] = [
+  { format: "md", label: "Meeting log (.md)" },
+  { format: "txt", label: "Plain text (.txt)" },
+  { format: "json", label: "JSON (.json)" },
+  { format: "srt", label: "Captions (.srt)" },
+  { format: "vtt", label: "Captions (.vtt)" },
+];
+
+const DEFAULT_MIC_GAIN = 1.5;
+const DEFAULT_TALK_KEY = "Space";
+
+const sinkIdSupported = () => "setSinkId" in HTMLMediaElement.prototype;
+
+// "KeyT" -> "T", "Space" -> "Space"
+const keyLabel = (code: string) => code.replace(/^(Key|Digit)/, "");
+
+// Typing in a field shouldn't open the microphone
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Our local listening settings for one participant
+interface ParticipantAudio {
+  volume: number;
+  muted: boolean;
+}
+
+function applyAudioOutput(
+  audioEl: HTMLAudioElement,
+  sinkId: string,
+  setting: ParticipantAudio | undefined
+) {
+  audioEl.volume = setting?.volume ?? 1;
+  audioEl.muted = setting?.muted ?? false;
+  if (sinkIdSupported() && audioEl.sinkId !== sinkId) {
+    audioEl.setSinkId(sinkId).catch((err) => console.warn("Could not switch speaker:", err));
+  }
 }
 
+// Interfaces
 // Add this type declaration at the top of your file, before your component imports
 declare global {
   interface Window {
@@ -20,10 +143,12 @@ declare global {
   }
 }
 
-interface Participant {
-  id: string;
-  displayName: string;
+interface Participant extends SocketParticipant {
   isOnline?: boolean;
+  // Dropped off without leaving; the server waits a while for them
+  reconnecting?: boolean;
+  // ISO time, from presence or when they went
+  lastSeen?: string;
 }
 
 interface ChatRoomProps {
@@ -32,24 +157,6 @@ interface ChatRoomProps {
   onLeave: () => void;
 }
 
-interface OfferData {
-  fromUserId: string;
-  targetUserId: string;
-  offer: RTCSessionDescriptionInit;
-}
-
-interface AnswerData {
-  fromUserId: string;
-  targetUserId: string;
-  answer: RTCSessionDescriptionInit;
-}
-
-interface IceCandidateData {
-  fromUserId: string;
-  targetUserId: string;
-  candidate: RTCIceCandidate;
-}
-
 export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
   const { roomCode } = useParams<{ roomCode: string }>();
 
@@ -62,25 +169,156 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     const saved = localStorage.getItem("isAudioEnabled");
     return saved ? JSON.parse(saved) : false;
   });
+  // Read on reconnect, which must not rebuild the socket on every mute
+  const isAudioEnabledRef = useRef(isAudioEnabled);
+  isAudioEnabledRef.current = isAudioEnabled;
+  const [transcriptionMode, setTranscriptionMode] = useState<TranscriptionMode>(() => {
+    const saved = localStorage.getItem("transcriptionMode");
+    if (saved === "browser" || saved === "server") return saved;
+    return browserRecognitionSupported() ? "browser" : "server";
+  });
+  const transcriptionModeRef = useRef(transcriptionMode);
+  // Stops the microphone capture feeding server-side transcription
+  const stopCaptureRef = useRef<(() => void) | null>(null);
+  const serverTranscribingRef = useRef(false);
+  // Language captions and messages are translated into; "" is off
+  const [translationLanguage, setTranslationLanguage] = useState<TranslationLanguage | "">(
+    () => {
+      const saved = localStorage.getItem("translationLanguage");
+      return TRANSLATION_LANGUAGE_CODES.find((code) => code === saved) ?? "";
+    }
+  );
+  const translationLanguageRef = useRef(translationLanguage);
+  // translations[messageId] is the message in translationLanguage
+  const [translations, setTranslations] = useState<{ [messageId: string]: string }>({});
+  // Messages we asked to have translated, or that the server translates
+  // for us as they arrive
+  const requestedTranslationsRef = useRef(new Set<string>());
+  const [captionTranslations, setCaptionTranslations] = useState<{
+    [segmentId: string]: { seq: number; text: string };
+  }>({});
+  const [subtitleTranslations, setSubtitleTranslations] = useState<{
+    [speakerId: string]: string;
+  }>({});
+  // The socket has been admitted to the room and may ask for translations
+  const [socketInRoom, setSocketInRoom] = useState(false);
+  // Language and dialect our speech is recognized in, from the profile
+  const [speechLanguage, setSpeechLanguage] = useState<string>(DEFAULT_SPEECH_LANGUAGE);
+  const speechLanguageRef = useRef(speechLanguage);
   const [copied, setCopied] = useState(false);
-  const [socket, setSocket] = useState<any>(null);
+  const [socket, setSocket] = useState<RoomSocket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesRef = useRef({ fetched: false });
+  const messageListRef = useRef<HTMLDivElement>(null);
+  // Older history is loaded a page at a time as the user scrolls up
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Scroll geometry captured before prepending a page, restored after render
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  // After jumping to a search result the list is a window into the past;
+  // newer pages load as the user scrolls down
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const hasNewerRef = useRef(false);
+  const suppressAutoScrollRef = useRef(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
   const roomJoinedRef = useRef(false);
   const socketConnectedRef = useRef(false);
   const subtitleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pendingSubtitles = useRef<{ [key: string]: string }>({});
+  // Segment currently being spoken by the local user
+  const captionSegmentRef = useRef<{ id: string; seq: number } | null>(null);
+  // When the utterance being recognized started and the language it is
+  // recognized in, for speech message metadata
+  const utteranceRef = useRef<{ start: string; language: string } | null>(null);
+  // Highest seq seen per remote segment, to drop out-of-order interim updates
+  const subtitleSeqRef = useRef<{ [segmentId: string]: number }>({});
+  const [captions, setCaptions] = useState<CaptionSegment[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  // People waiting in the lobby; only sent to hosts and co-hosts
+  const [lobby, setLobby] = useState<WaitingUser[]>([]);
+  const lobbyRef = useRef<WaitingUser[]>([]);
+  // How the room carries audio: the host's setting and what it resolves to
+  const [mediaModeSetting, setMediaModeSetting] = useState<MediaModeSetting>("auto");
+  const [mediaMode, setMediaMode] = useState<MediaModeEvent["mode"]>("mesh");
+  // Short-lived banner for moderation events
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
 
   // WebRTC and Speech-to-Text state variables
-  const peerConnectionsRef = useRef<{ [key: string]: RTCPeerConnection }>({});
+  const peersRef = useRef<{ [key: string]: Promise<Peer> }>({});
+  // Mode our connections are currently set up for
+  const mediaModeRef = useRef<MediaModeEvent["mode"]>("mesh");
+  const sfuSessionRef = useRef<SfuSession | null>(null);
+  // Latest sfu_publishers list, for a session that starts after it came
+  const sfuPublishersRef = useRef<string[]>([]);
   const localStreamRef = useRef<MediaStream | null>(null);
+  // Camera and screen share, sent to peer-to-peer connections only
+  const cameraTrackRef = useRef<MediaStreamTrack | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  // Microphone and camera go out together in this stream, kept across
+  // changes so the other end sees the same stream gain and lose tracks
+  const outgoingStreamRef = useRef<MediaStream | null>(null);
+  // Our own camera and screen share, for the preview tiles
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<{
     [key: string]: MediaStream;
   }>({});
+  const [remoteScreens, setRemoteScreens] = useState<{
+    [key: string]: MediaStream;
+  }>({});
+  // Measures our microphone and every stream we hear; the ref is for
+  // callbacks, the state for rendering
+  const levelMonitorRef = useRef<AudioLevelMonitor | null>(null);
+  const [levelMonitor, setLevelMonitor] = useState<AudioLevelMonitor | null>(null);
+  // Users found speaking by measuring their audio here, and as reported by
+  // their own clients over the socket
+  const [measuredSpeaking, setMeasuredSpeaking] = useState<{ [key: string]: boolean }>({});
+  const [reportedSpeaking, setReportedSpeaking] = useState<{ [key: string]: boolean }>({});
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  // Remote streams handed to the level monitor
+  const measuredStreamIdsRef = useRef<string[]>([]);
   const [subtitles, setSubtitles] = useState<{ [key: string]: string }>({});
   const [recognition, setRecognition] = useState<any>(null);
   const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  // Each connection in the room and the user it belongs to. Someone may be
+  // here from several tabs or devices, and media runs per connection.
+  const [connectionUsers, setConnectionUsers] = useState<{ [connectionId: string]: string }>({});
+  const connectionUsersRef = useRef<{ [connectionId: string]: string }>({});
+  // Connections gone from presence whose user may be reconnecting, and who
+  // they belonged to. We keep their media until the user is back or leaves.
+  const lingeringConnectionsRef = useRef<{ [connectionId: string]: string }>({});
   const audioElements = useRef<{ [key: string]: HTMLAudioElement | null }>({});
+  const microphoneRef = useRef<Microphone | null>(null);
+  // Devices are ids from enumerateDevices; "" is the browser's default
+  const [micDeviceId, setMicDeviceId] = useState(() => localStorage.getItem("micDeviceId") ?? "");
+  const [speakerDeviceId, setSpeakerDeviceId] = useState(
+    () => localStorage.getItem("speakerDeviceId") ?? ""
+  );
+  const [micGain, setMicGain] = useState(() => {
+    const saved = Number(localStorage.getItem("micGain"));
+    return saved > 0 ? saved : DEFAULT_MIC_GAIN;
+  });
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+  const [showAudioSettings, setShowAudioSettings] = useState(false);
+  const [participantAudio, setParticipantAudio] = useState<{
+    [key: string]: ParticipantAudio;
+  }>({});
+  // Output settings for audio elements created in callbacks
+  const audioOutputRef = useRef({ speakerDeviceId, participantAudio });
+  // With push-to-talk on, the microphone only sends while the key is held
+  const [pushToTalk, setPushToTalk] = useState(() => localStorage.getItem("pushToTalk") === "true");
+  const [talkKey, setTalkKey] = useState(
+    () => localStorage.getItem("talkKey") ?? DEFAULT_TALK_KEY
+  );
+  const [talkKeyHeld, setTalkKeyHeld] = useState(false);
+  const [choosingTalkKey, setChoosingTalkKey] = useState(false);
+  const micOpen = !pushToTalk || talkKeyHeld;
+  const micOpenRef = useRef(micOpen);
+  // Settings read when the microphone is opened from a callback
+  const micSettingsRef = useRef({ micDeviceId, micGain });
 
   // Keep track of participants in a ref for access in callbacks
   const participantsRef = useRef<Participant[]>([]);
@@ -88,12 +326,40 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     participantsRef.current = participants;
   }, [participants]);
 
+  const myRole = participants.find((p) => p.id === userId)?.role;
+  // Until a host or co-host unmutes us
+  const mutedByHost = participants.find((p) => p.id === userId)?.muted ?? false;
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // Puts the socket in the room on the first join and after every
+  // reconnect, and restores the listener language the server keeps per
+  // socket
+  const emitJoinRoom = useCallback((roomSocket: RoomSocket) => {
+    if (!roomCode) return;
+    roomSocket.emit("join_room", { roomCode }, (response) => {
+      if (!response.ok) {
+        console.error("Socket join_room rejected:", response.error.message);
+        return;
+      }
+      setSocketInRoom(true);
+      if (translationLanguageRef.current) {
+        roomSocket.emit("set_language", { roomCode, language: translationLanguageRef.current });
+      }
+    });
+  }, [roomCode]);
+
   // Initialize Socket.IO on mount with better error handling
   useEffect(() => {
-    const socketUrl = import.meta.env.VITE_BACKEND_URL;
+    const socketUrl = BACKEND_URL;
     
     try {
-      const newSocket = io(socketUrl, {
+      const newSocket: RoomSocket = io(socketUrl, {
+        auth: { token: getToken() },
         reconnectionAttempts: 5,
         timeout: 10000,
         transports: ['websocket', 'polling'],
@@ -109,14 +375,10 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
         // If we reconnected and the room was previously joined, rejoin it
         if (roomJoinedRef.current && roomCode) {
           console.log("Reconnected, rejoining room:", roomCode);
-          newSocket.emit("join_room", { 
-            roomCode, 
-            userId, 
-            displayName: username 
-          });
+          emitJoinRoom(newSocket);
           
           // Reinitialize audio connections if they were enabled
-          if (isAudioEnabled) {
+          if (isAudioEnabledRef.current) {
             initializeAudioConnections();
           }
         }
@@ -130,9 +392,13 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       newSocket.on('disconnect', (reason: string) => {
         console.log('Socket disconnected:', reason);
         socketConnectedRef.current = false;
+        // The server forgets the socket's rooms; the ack of the rejoin
+        // sets this again
+        setSocketInRoom(false);
       });
       
       setSocket(newSocket);
+      setSocketInRoom(false);
       
       return () => {
         console.log('Disconnecting socket');
@@ -141,51 +407,57 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     } catch (err) {
       console.error("Error initializing socket:", err);
     }
-  }, [roomCode, userId, username, isAudioEnabled]);
+  }, [roomCode, userId, username, emitJoinRoom]);
 
-  // Auto-scroll messages
+  // Bring a picked search result into view and flash it briefly
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    if (!highlightedMessageId) return;
+    document
+      .getElementById(`message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Keep the view steady when older messages are prepended, and follow
+  // the conversation only when something new arrives at the bottom
+  useLayoutEffect(() => {
+    const list = messageListRef.current;
+    const restore = scrollRestoreRef.current;
+    if (list && restore) {
+      list.scrollTop = list.scrollHeight - restore.height + restore.top;
+      scrollRestoreRef.current = null;
+    }
+
+    const last = messages[messages.length - 1];
+    if (suppressAutoScrollRef.current) {
+      suppressAutoScrollRef.current = false;
+    } else if (last && last.id !== lastMessageIdRef.current) {
+      const nearBottom =
+        !list || list.scrollHeight - list.scrollTop - list.clientHeight < 200;
+      // The first page and our own messages always scroll into view
+      if (!lastMessageIdRef.current || nearBottom || last.user_id === userId) {
+        messagesEndRef.current?.scrollIntoView({
+          behavior: lastMessageIdRef.current ? "smooth" : "auto",
+        });
+      }
+    }
+    lastMessageIdRef.current = last?.id ?? null;
+  }, [messages, userId]);
 
-  // Function to acquire microphone with increased sensitivity
+  // Open the chosen microphone at the chosen gain
   const getMicrophoneStream = async (): Promise<MediaStream | null> => {
+    const { micDeviceId, micGain } = micSettingsRef.current;
     try {
-      // Request microphone with optimized audio settings for increased sensitivity
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          // Attempting to increase sensitivity with these constraints
-          channelCount: 1,
-          sampleRate: 48000,
-          sampleSize: 16
-        }
+      microphoneRef.current?.close();
+      const microphone = await openMicrophone({
+        deviceId: micDeviceId || undefined,
+        gain: micGain,
       });
-      
-      console.log("Microphone stream acquired with optimized settings");
-      
-      // Attempt to boost audio gain if the browser supports it
-      try {
-        const audioContext = new AudioContext();
-        const source = audioContext.createMediaStreamSource(stream);
-        const gainNode = audioContext.createGain();
-        
-        // Increase gain (sensitivity)
-        gainNode.gain.value = 1.5; // Boost by 50%
-        
-        source.connect(gainNode);
-        const destination = audioContext.createMediaStreamDestination();
-        gainNode.connect(destination);
-        
-        // Return the boosted stream if successful
-        return destination.stream;
-      } catch (gainErr) {
-        console.warn("Could not apply gain boost, using original stream:", gainErr);
-        // Fall back to original stream if gain adjustment fails
-        return stream;
-      }
+      microphone.setOpen(micOpenRef.current);
+      microphoneRef.current = microphone;
+      console.log("Microphone stream acquired");
+      return microphone.stream;
     } catch (err) {
       console.error("Error accessing microphone:", err);
       return null;
@@ -207,19 +479,24 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       return false;
     }
     
-    localStreamRef.current = stream;
+    setLocalStream(stream);
     
     // Initialize speech recognition
-    const recognitionStarted = initSpeechRecognition();
+    const recognitionStarted = startTranscription(stream);
     if (!recognitionStarted) {
       console.warn("Speech recognition failed to start");
     }
     
+    if (mediaModeRef.current === "sfu") {
+      startSfu();
+      return true;
+    }
+    
     // Connect to online users
     console.log("Initiating connections with online users:", onlineUserIds);
-    onlineUserIds.forEach(targetUserId => {
-      if (targetUserId !== userId) {
-        initiatePeerConnection(targetUserId);
+    Object.keys(connectionUsersRef.current).forEach(connectionId => {
+      if (connectionId !== socket?.id) {
+        initiatePeerConnection(connectionId);
       }
     });
     
@@ -242,41 +519,13 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
         closeAllPeerConnections();
         
         // Stop speech recognition
-        if (recognition) {
-          recognition.stop();
-          setRecognition(null);
-        }
+        stopTranscription();
       }
     };
     
     setupAudio();
   }, [isAudioEnabled]);
 
-  // Function to close and clean up all peer connections
-  const closeAllPeerConnections = () => {
-    Object.values(peerConnectionsRef.current).forEach((pc) => {
-      if (pc && typeof pc.close === "function") {
-        pc.close();
-      }
-    });
-    peerConnectionsRef.current = {};
-    
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-      localStreamRef.current = null;
-    }
-    
-    setRemoteStreams({});
-    
-    // Clear subtitles when audio is disabled
-    setSubtitles({});
-    pendingSubtitles.current = {};
-    if (subtitleTimeoutRef.current) {
-      clearTimeout(subtitleTimeoutRef.current);
-      subtitleTimeoutRef.current = null;
-    }
-  };
-
   // Handle room leaving with proper cleanup
   const leaveRoom = async () => {
     if (!roomCode || !userId) return;
@@ -287,73 +536,26 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       closeAllPeerConnections();
       
       // Stop speech recognition if active
-      if (recognition) {
-        recognition.stop();
-        setRecognition(null);
-      }
+      stopTranscription();
       
       // Notify server about leaving
       if (socket && socket.connected) {
-        socket.emit("leave_room", { roomCode, userId });
+        socket.emit("leave_room", { roomCode });
       }
       
       // Update room joined state to prevent reconnection attempts
       roomJoinedRef.current = false;
       
       // Remove from room_members in database
-      const resp = await fetch(
-        `${import.meta.env.VITE_BACKEND_URL}/api/room-members/${roomCode}`,
-        {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ userId }),
-        }
-      );
+      const resp = await apiFetch(`/api/room-members/${roomCode}`, {
+        method: "DELETE",
+      });
       
       if (!resp.ok) {
         console.error("Failed to leave room:", await resp.text());
       } else {
+        // The server closes the room once it has sat empty for a while
         console.log("Left room successfully in database");
-
-        // Check if room should be marked as finished
-        const resMembers = await fetch(
-          `${import.meta.env.VITE_BACKEND_URL}/api/room-members/${roomCode}`
-        );
-        
-        if (resMembers.ok) {
-          const membersData = await resMembers.json();
-
-          if (Array.isArray(membersData) && membersData.length === 0) {
-            console.log("No members left in room, marking as finished");
-            const resFinish = await fetch(
-              `${import.meta.env.VITE_BACKEND_URL}/api/rooms/finish/${roomCode}`,
-              {
-                method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-              }
-            );
-            
-            if (!resFinish.ok) {
-              console.error("Failed to mark room as finished:", await resFinish.text());
-            } else {
-              console.log("Room marked as finished successfully");
-              
-              // Optionally delete messages
-              const resDeleteMessages = await fetch(
-                `${import.meta.env.VITE_BACKEND_URL}/api/messages/${roomCode}`,
-                {
-                  method: "DELETE",
-                }
-              );
-              
-              if (!resDeleteMessages.ok) {
-                console.error("Failed to delete messages:", await resDeleteMessages.text());
-              } else {
-                console.log("Messages deleted successfully");
-              }
-            }
-          }
-        }
       }
       
       // Execute onLeave callback
@@ -365,11 +567,13 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     }
   };
 
-  // Handle participant joining socket event
+  // Handle participants joining, dropping off and leaving. Their
+  // connections come and go with presence_update.
   useEffect(() => {
     if (!socket) return;
 
-    const handleParticipantJoined = (data: { participant: Participant }) => {
+    const handleParticipantJoined = (data: ParticipantJoinedEvent) => {
+      if (data.roomCode !== roomCode) return;
       console.log("Participant joined:", data.participant);
       
       setParticipants((prev) => {
@@ -382,7 +586,12 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
         
         // Update online status if already in list
         const updated = [...prev];
-        updated[existingIndex] = {...updated[existingIndex], isOnline: true};
+        updated[existingIndex] = {
+          ...updated[existingIndex],
+          isOnline: true,
+          reconnecting: false,
+          muted: data.participant.muted,
+        };
         return updated;
       });
       
@@ -393,38 +602,47 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
         }
         return prev;
       });
-      
-      // If audio is enabled, initiate connection with the new participant
-      if (isAudioEnabled && localStreamRef.current && data.participant.id !== userId) {
-        console.log("Initiating connection with new participant:", data.participant.id);
-        setTimeout(() => {
-          initiatePeerConnection(data.participant.id);
-        }, 1000); // Small delay to ensure socket connection is stable
-      }
     };
 
-    const handleParticipantLeft = (data: { userId: string }) => {
+    // Their audio may well come back by itself, so it is left running
+    const handleParticipantReconnecting = (data: ParticipantReconnectingEvent) => {
+      if (data.roomCode !== roomCode) return;
+      console.log("Participant reconnecting:", data.userId);
+      setParticipants(prev =>
+        prev.map(p =>
+          p.id === data.userId
+            ? {...p, isOnline: false, reconnecting: true, lastSeen: data.lastSeen}
+            : p
+        )
+      );
+    };
+
+    const handleParticipantLeft = (data: ParticipantLeftEvent) => {
+      if (data.roomCode !== roomCode) return;
       console.log("Participant left:", data.userId);
       
       // Update participant list
       setParticipants(prev => 
-        prev.map(p => p.id === data.userId ? {...p, isOnline: false} : p)
+        prev.map(p =>
+          p.id === data.userId
+            ? {
+                ...p,
+                isOnline: false,
+                reconnecting: false,
+                lastSeen: p.reconnecting ? p.lastSeen : new Date().toISOString(),
+              }
+            : p
+        )
       );
       
       // Update online users
       setOnlineUserIds(prev => prev.filter(id => id !== data.userId));
       
-      // Close peer connection
-      if (peerConnectionsRef.current[data.userId]) {
-        peerConnectionsRef.current[data.userId].close();
-        delete peerConnectionsRef.current[data.userId];
-      }
-      
-      // Remove remote stream
-      setRemoteStreams(prev => {
-        const newStreams = {...prev};
-        delete newStreams[data.userId];
-        return newStreams;
+      // Close the peer connections we kept while they were reconnecting
+      Object.entries(lingeringConnectionsRef.current).forEach(([connectionId, owner]) => {
+        if (owner !== data.userId) return;
+        delete lingeringConnectionsRef.current[connectionId];
+        closePeer(connectionId);
       });
       
       // Remove subtitle
@@ -436,33 +654,68 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     };
 
     socket.on("participant_joined", handleParticipantJoined);
+    socket.on("participant_reconnecting", handleParticipantReconnecting);
     socket.on("participant_left", handleParticipantLeft);
     
     return () => {
       socket.off("participant_joined", handleParticipantJoined);
+      socket.off("participant_reconnecting", handleParticipantReconnecting);
       socket.off("participant_left", handleParticipantLeft);
     };
-  }, [socket, userId, isAudioEnabled]);
+  }, [socket, roomCode]);
 
   // Listen for presence updates to track online users
   useEffect(() => {
     if (!socket) return;
     
-    const handlePresenceUpdate = (userIds: string[]) => {
-      console.log("Presence update received:", userIds);
-      setOnlineUserIds(userIds);
-      
-      // Update all participants' online status
+    const handlePresenceUpdate = (data: PresenceUpdate) => {
+      if (data.roomCode !== roomCode) return;
+      console.log("Presence update received:", data.userIds);
+      setOnlineUserIds(data.userIds);
+      const users = Object.fromEntries(
+        data.connections.map((connection) => [connection.connectionId, connection.userId])
+      );
+
+      // A connection we have media from that dropped out lingers while its
+      // user may be reconnecting. Once the user is here on another
+      // connection, e.g. the new socket after a reconnect, it is closed.
+      const lingering = lingeringConnectionsRef.current;
+      Object.entries(connectionUsersRef.current).forEach(([connectionId, owner]) => {
+        if (!users[connectionId] && connectionId in peersRef.current) {
+          lingering[connectionId] = owner;
+        }
+      });
+      Object.entries(lingering).forEach(([connectionId, owner]) => {
+        if (!data.userIds.includes(owner)) return;
+        delete lingering[connectionId];
+        closePeer(connectionId);
+      });
+      connectionUsersRef.current = users;
+      setConnectionUsers(users);
+      
+      // Update all participants' online status and when we last heard from
+      // them on any connection
+      const lastSeen: { [userId: string]: string } = {};
+      data.connections.forEach((connection) => {
+        if (!(lastSeen[connection.userId] >= connection.lastSeen)) {
+          lastSeen[connection.userId] = connection.lastSeen;
+        }
+      });
       setParticipants(prev => 
-        prev.map(p => ({...p, isOnline: userIds.includes(p.id)}))
+        prev.map(p =>
+          data.userIds.includes(p.id)
+            ? {...p, isOnline: true, reconnecting: false, lastSeen: lastSeen[p.id]}
+            : {...p, isOnline: false}
+        )
       );
       
-      // If audio is enabled, check for new users to connect to
+      // If audio is enabled, connect to new connections, including our own
+      // other tabs and devices
       if (isAudioEnabled && localStreamRef.current) {
-        userIds.forEach(targetId => {
-          if (targetId !== userId && !peerConnectionsRef.current[targetId]) {
-            console.log("New online user detected, initiating connection:", targetId);
-            initiatePeerConnection(targetId);
+        data.connections.forEach(({ connectionId }) => {
+          if (connectionId !== socket.id && !peersRef.current[connectionId]) {
+            console.log("New connection detected, initiating connection:", connectionId);
+            initiatePeerConnection(connectionId);
           }
         });
       }
@@ -473,241 +726,777 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     return () => {
       socket.off("presence_update", handlePresenceUpdate);
     };
-  }, [socket, userId, isAudioEnabled]);
+  }, [socket, roomCode, isAudioEnabled]);
+
+  // Tell the server this connection is alive; it drops ones that go quiet
+  useEffect(() => {
+    if (!socket) return;
+    const timer = setInterval(() => {
+      if (socket.connected) socket.emit("heartbeat", {});
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [socket]);
 
   // Handle incoming subtitles from other users
   useEffect(() => {
     if (!socket) return;
     
-    const handleSubtitle = (data: { userId: string; text: string; displayName: string }) => {
-      console.log("Received subtitle from", data.userId, ":", data.text);
-      
+    // One per speaker, pushed back by each update
+    const clearTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    const cancelClear = (speakerId: string) => {
+      clearTimeout(clearTimers.get(speakerId));
+      clearTimers.delete(speakerId);
+    };
+
+    const handleSubtitle = (data: CaptionSegment) => {
+      // Ignore updates older than one we've already shown for this segment
+      const lastSeq = subtitleSeqRef.current[data.segmentId];
+      if (lastSeq !== undefined && data.seq < lastSeq) return;
+      subtitleSeqRef.current[data.segmentId] = data.seq;
+
+      if (data.isFinal) {
+        cancelClear(data.speakerId);
+        delete subtitleSeqRef.current[data.segmentId];
+        setCaptions(prev => [...prev, data]);
+        setSubtitleTranslations(prev => {
+          const next = { ...prev };
+          delete next[data.speakerId];
+          return next;
+        });
+        setSubtitles(prev => {
+          const newSubs = {...prev};
+          delete newSubs[data.speakerId];
+          return newSubs;
+        });
+        return;
+      }
+
       // Update subtitles state with the received text
       setSubtitles(prev => ({
         ...prev,
-        [data.userId]: data.text
+        [data.speakerId]: data.text
       }));
       
       // Clear subtitle after a timeout if it's not updated
-      const clearTimer = setTimeout(() => {
+      cancelClear(data.speakerId);
+      clearTimers.set(data.speakerId, setTimeout(() => {
+        clearTimers.delete(data.speakerId);
         setSubtitles(prev => {
-          if (prev[data.userId] === data.text) {
-            const newSubs = {...prev};
-            delete newSubs[data.userId];
-            return newSubs;
-          }
-          return prev;
+          const newSubs = {...prev};
+          delete newSubs[data.speakerId];
+          return newSubs;
         });
-      }, 5000);
-      
-      // Store timer reference to clear on component unmount
-      return () => clearTimeout(clearTimer);
+      }, 5000));
+    };
+
+    // Final segments spoken before we joined
+    const handleCaptionHistory = (segments: CaptionSegment[]) => {
+      setCaptions(segments);
     };
     
     socket.on("subtitle", handleSubtitle);
+    socket.on("caption_history", handleCaptionHistory);
     
     return () => {
+      clearTimers.forEach(clearTimeout);
       socket.off("subtitle", handleSubtitle);
+      socket.off("caption_history", handleCaptionHistory);
     };
   }, [socket]);
 
-  // Create a WebRTC peer connection with improved ICE configurations
-  const createPeerConnection = (targetUserId: string): RTCPeerConnection => {
-    console.log("Creating peer connection for target:", targetUserId);
-    
-    // Close existing connection if any
-    if (peerConnectionsRef.current[targetUserId]) {
-      peerConnectionsRef.current[targetUserId].close();
-    }
+  // Attach a remote participant's audio, retrying playback browsers pause
+  const playRemoteStream = useCallback((connectionId: string, stream: MediaStream) => {
+    console.log(`Received stream from ${connectionId}`, stream);
     
-    // Create new connection with more STUN/TURN servers for better NAT traversal
-    const pc = new RTCPeerConnection({
-      iceServers: [
-        { urls: "stun:stun.l.google.com:19302" },
-        { urls: "stun:stun1.l.google.com:19302" },
-        { urls: "stun:stun2.l.google.com:19302" },
-        { urls: "stun:stun3.l.google.com:19302" },
-        { urls: "stun:stun4.l.google.com:19302" }
-        // Add TURN servers here if available
-        // { urls: 'turn:turn.example.org', username: 'user', credential: 'pass' }
-      ],
-      iceCandidatePoolSize: 10,
-      iceTransportPolicy: 'all',
-      rtcpMuxPolicy: 'require',
-      bundlePolicy: 'max-bundle'
-    });
+    // Create or update audio element immediately
+    const audioEl = audioElements.current[connectionId] || new Audio();
+    audioEl.srcObject = stream;
+    audioEl.autoplay = true;
+    const { speakerDeviceId, participantAudio } = audioOutputRef.current;
+    applyAudioOutput(
+      audioEl,
+      speakerDeviceId,
+      participantAudio[connectionUsersRef.current[connectionId]]
+    );
     
-    // Handle ICE candidates
-    pc.onicecandidate = (event) => {
-      if (event.candidate && socket && socket.connected) {
-        console.log("Generated ICE candidate for", targetUserId);
-        socket.emit("ice_candidate", {
-          fromUserId: userId,
-          targetUserId,
-          candidate: event.candidate,
-        } as IceCandidateData);
-      }
+    // Store reference
+    audioElements.current[connectionId] = audioEl;
+
+    // Handle audio play
+    const playAudio = () => {
+      audioEl.play().catch(err => 
+        console.error(`Audio play failed for ${connectionId}:`, err)
+      );
     };
+
+    // Attempt to play immediately
+    playAudio();
     
-    // Log gathering state changes to debug ICE issues
-    pc.onicegatheringstatechange = () => {
-      console.log(`ICE gathering state for ${targetUserId}: ${pc.iceGatheringState}`);
+    // Retry play if needed
+    audioEl.onloadedmetadata = playAudio;
+    audioEl.onpause = () => {
+      if (!audioEl.srcObject) return;
+      console.log(`Audio paused for ${connectionId}, attempting to resume`);
+      playAudio();
     };
-    
-    // Handle ICE connection state changes
-    pc.oniceconnectionstatechange = () => {
-      console.log(`ICE connection state for ${targetUserId}: ${pc.iceConnectionState}`);
-      if (pc.iceConnectionState === 'failed' || pc.iceConnectionState === 'disconnected') {
-        console.log("Trying to restart ICE for connection with", targetUserId);
-        pc.restartIce();
-      }
+
+    // Update state for UI
+    setRemoteStreams(prev => ({
+      ...prev,
+      [connectionId]: stream
+    }));
+  }, []);
+
+  const dropRemoteStream = useCallback((connectionId: string) => {
+    const audioEl = audioElements.current[connectionId];
+    if (audioEl) {
+      audioEl.srcObject = null;
+      delete audioElements.current[connectionId];
+    }
+    setRemoteStreams(prev => {
+      const newStreams = {...prev};
+      delete newStreams[connectionId];
+      return newStreams;
+    });
+    setRemoteScreens(prev => {
+      const newScreens = {...prev};
+      delete newScreens[connectionId];
+      return newScreens;
+    });
+  }, []);
+
+  // A screen share arrives as a stream of its own with no audio; anything
+  // else is the participant's microphone and camera
+  const handleRemoteTrack = useCallback((connectionId: string, event: RTCTrackEvent) => {
+    const stream = event.streams[0] ?? new MediaStream([event.track]);
+    if (event.track.kind !== "video" || stream.getAudioTracks().length > 0) {
+      playRemoteStream(connectionId, stream);
+      return;
+    }
+
+    setRemoteScreens(prev => ({ ...prev, [connectionId]: stream }));
+    // Renegotiation removes the track here when they stop sharing
+    stream.onremovetrack = () => {
+      if (stream.getVideoTracks().length > 0) return;
+      setRemoteScreens(prev => {
+        if (prev[connectionId] !== stream) return prev;
+        const newScreens = {...prev};
+        delete newScreens[connectionId];
+        return newScreens;
+      });
     };
-    
-    // Handle connection state changes
-    pc.onconnectionstatechange = () => {
-      console.log(`Connection state for ${targetUserId}: ${pc.connectionState}`);
-      if (pc.connectionState === 'failed') {
-        console.log("Attempting to reconnect with", targetUserId);
-        // Recreate the connection after a brief delay
-        setTimeout(() => {
-          if (isAudioEnabled && localStreamRef.current) {
-            initiatePeerConnection(targetUserId);
+  }, [playRemoteStream]);
+
+  // The connection to another socket, created on first use. Creating one
+  // waits for the ICE config, so the promise is stored right away and
+  // signals arriving meanwhile queue up behind it.
+  const getPeer = useCallback((connectionId: string): Promise<Peer> => {
+    const existing = peersRef.current[connectionId];
+    if (existing) return existing;
+
+    console.log("Creating peer connection for target:", connectionId);
+    const peer = getIceConfig().then((config) =>
+      // Both ends compare the same two ids, so exactly one is polite
+      createPeer(config, (socket?.id ?? "") > connectionId, {
+        onDescription: (description) => {
+          if (!socket?.connected) return;
+          if (description.type === "offer") {
+            socket.emit("offer", { targetConnectionId: connectionId, offer: description });
+          } else {
+            socket.emit("answer", { targetConnectionId: connectionId, answer: description });
           }
-        }, 2000);
-      }
-    };
-    
-    // Handle tracks from remote peer
-    pc.ontrack = (event) => {
-      console.log(`Received stream from ${targetUserId}`, event.streams[0]);
-      
-      // Create or update audio element immediately
-      const audioEl = audioElements.current[targetUserId] || new Audio();
-      audioEl.srcObject = event.streams[0];
-      audioEl.autoplay = true;
-      audioEl.muted = false; // Ensure audio isn't muted
-      
-      // Store reference
-      audioElements.current[targetUserId] = audioEl;
-
-      // Handle audio play
-      const playAudio = () => {
-        audioEl.play().catch(err => 
-          console.error(`Audio play failed for ${targetUserId}:`, err)
-        );
-      };
+        },
+        onCandidate: (candidate) => {
+          if (socket?.connected) {
+            socket.emit("ice_candidate", { targetConnectionId: connectionId, candidate });
+          }
+        },
+        onTrack: (event) => handleRemoteTrack(connectionId, event),
+      })
+    );
+    peersRef.current[connectionId] = peer;
+    return peer;
+  }, [socket, handleRemoteTrack]);
 
-      // Attempt to play immediately
-      playAudio();
-      
-      // Retry play if needed
-      audioEl.onloadedmetadata = playAudio;
-      audioEl.onpause = () => {
-        console.log(`Audio paused for ${targetUserId}, attempting to resume`);
-        playAudio();
-      };
+  // Close our end of a connection and drop the participant's audio
+  const closePeer = useCallback((connectionId: string) => {
+    const peer = peersRef.current[connectionId];
+    if (!peer) return;
+    delete peersRef.current[connectionId];
+    peer.then((p) => p.close()).catch(() => {});
+    dropRemoteStream(connectionId);
+  }, [dropRemoteStream]);
 
-      // Update state for UI
-      setRemoteStreams(prev => ({
-        ...prev,
-        [targetUserId]: event.streams[0]
-      }));
-    };
-    
-    return pc;
+  // What each peer-to-peer connection sends: microphone and camera as one
+  // stream, and a screen share as another
+  const outgoingStreams = useCallback(() => {
+    const main = (outgoingStreamRef.current ??= new MediaStream());
+    const tracks = [
+      ...(localStreamRef.current?.getAudioTracks() ?? []),
+      ...(cameraTrackRef.current ? [cameraTrackRef.current] : []),
+    ];
+    main.getTracks()
+      .filter((track) => !tracks.includes(track))
+      .forEach((track) => main.removeTrack(track));
+    tracks
+      .filter((track) => !main.getTracks().includes(track))
+      .forEach((track) => main.addTrack(track));
+    return screenStreamRef.current ? [main, screenStreamRef.current] : [main];
+  }, []);
+
+  // Each connection renegotiates as needed
+  const updateMeshTracks = useCallback(() => {
+    const streams = outgoingStreams();
+    Object.values(peersRef.current).forEach((peer) =>
+      peer.then((p) => p.setLocalStreams(streams)).catch((err) =>
+        console.error("Error updating local tracks:", err)
+      )
+    );
+  }, [outgoingStreams]);
+
+  // Swap the microphone we send to everyone
+  const setLocalStream = (stream: MediaStream | null) => {
+    localStreamRef.current = stream;
+    levelMonitorRef.current?.setStream(userId, stream);
+    updateMeshTracks();
+    sfuSessionRef.current?.setLocalStream(stream).catch((err) =>
+      console.error("Error updating published tracks:", err)
+    );
   };
 
-  // Initialize peer connection with a specific user
-  const initiatePeerConnection = async (targetUserId: string) => {
-    if (!localStreamRef.current || !socket || !socket.connected) {
-      console.warn("Cannot initiate connection: stream or socket not available");
+  // Close every peer-to-peer connection. The other ends are told to close
+  // theirs, so connecting again starts fresh.
+  const closeMeshPeers = useCallback(() => {
+    Object.keys(peersRef.current).forEach((connectionId) => {
+      if (socket?.connected) {
+        socket.emit("hangup", { targetConnectionId: connectionId });
+      }
+      closePeer(connectionId);
+    });
+  }, [socket, closePeer]);
+
+  // Send our microphone up to the SFU and listen to everyone publishing
+  const startSfu = useCallback(async () => {
+    if (sfuSessionRef.current || !socket || !roomCode) return;
+    const config = await getIceConfig();
+    // Things may have moved on while the config loaded
+    if (
+      sfuSessionRef.current ||
+      mediaModeRef.current !== "sfu" ||
+      !localStreamRef.current
+    ) {
       return;
     }
-    
+
+    const session = createSfuSession(
+      config,
+      {
+        publish: (offer) =>
+          new Promise((resolve, reject) =>
+            socket.emit("sfu_publish", { roomCode, offer }, (response) =>
+              response.ok ? resolve(response.data) : reject(new Error(response.error.message))
+            )
+          ),
+        subscribe: (publisherId, offer) =>
+          new Promise((resolve, reject) =>
+            socket.emit("sfu_subscribe", { roomCode, publisherId, offer }, (response) =>
+              response.ok ? resolve(response.data) : reject(new Error(response.error.message))
+            )
+          ),
+      },
+      { onTrack: playRemoteStream, onTrackEnded: dropRemoteStream }
+    );
+    sfuSessionRef.current = session;
+    session.setPublishers(sfuPublishersRef.current.filter((id) => id !== socket.id));
     try {
-      console.log(`Initiating connection with ${targetUserId}`);
-      const pc = createPeerConnection(targetUserId);
-      
-      // Add local tracks to the connection
-      localStreamRef.current.getTracks().forEach((track) => {
-        if (localStreamRef.current) {
-          console.log("Adding track to peer connection:", track.kind);
-          pc.addTrack(track, localStreamRef.current);
-        }
-      });
-      
-      // Store the connection
-      peerConnectionsRef.current[targetUserId] = pc;
-      
-      // Create and send offer with specific constraints for audio
-      const offer = await pc.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: false,
-        // voiceActivityDetection: true
+      await session.setLocalStream(localStreamRef.current);
+    } catch (err) {
+      console.error("Error publishing to the SFU:", err);
+      setNotice("Could not connect your microphone to the server");
+    }
+  }, [socket, roomCode, playRemoteStream, dropRemoteStream]);
+
+  const stopSfu = useCallback(() => {
+    if (!sfuSessionRef.current) return;
+    sfuSessionRef.current.close();
+    sfuSessionRef.current = null;
+    if (socket?.connected && roomCode) {
+      socket.emit("sfu_leave", { roomCode });
+    }
+  }, [socket, roomCode]);
+
+  const stopCamera = useCallback(() => {
+    if (!cameraTrackRef.current) return;
+    cameraTrackRef.current.stop();
+    cameraTrackRef.current = null;
+    setCameraStream(null);
+    updateMeshTracks();
+  }, [updateMeshTracks]);
+
+  const stopScreenShare = useCallback(() => {
+    if (!screenStreamRef.current) return;
+    screenStreamRef.current.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setScreenStream(null);
+    updateMeshTracks();
+  }, [updateMeshTracks]);
+
+  const toggleCamera = async () => {
+    if (cameraTrackRef.current) {
+      stopCamera();
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 640 }, height: { ideal: 360 }, frameRate: { ideal: 24 } },
       });
-      
-      await pc.setLocalDescription(offer);
-      console.log("Created and set local offer for", targetUserId);
-      
-      // Ensure we have a valid socket connection before sending
-      if (socket && socket.connected) {
-        socket.emit("offer", { 
-          fromUserId: userId, 
-          targetUserId, 
-          offer 
-        });
-      } else {
-        console.error("Socket not connected, cannot send offer");
-        // Clean up created peer connection
-        pc.close();
-        delete peerConnectionsRef.current[targetUserId];
-      }
+      const [track] = stream.getVideoTracks();
+      // The camera was unplugged or taken by another app
+      track.onended = () => {
+        if (cameraTrackRef.current === track) stopCamera();
+      };
+      cameraTrackRef.current = track;
+      setCameraStream(stream);
+      updateMeshTracks();
     } catch (err) {
-      console.error("Error initiating peer connection:", err);
+      console.error("Error accessing camera:", err);
+      setNotice("Could not start your camera");
     }
   };
 
-  // Initialize speech recognition with improved error handling and subtitle-to-chat functionality
-  const initSpeechRecognition = useCallback(() => {
-    // Only enable if audio is enabled and browser supports it
-    if (!isAudioEnabled) {
-      console.log("Speech recognition not started: audio is disabled");
-      return false;
+  const toggleScreenShare = async () => {
+    if (screenStreamRef.current) {
+      stopScreenShare();
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      // Sharing was stopped from the browser's own controls
+      stream.getVideoTracks()[0].onended = () => {
+        if (screenStreamRef.current === stream) stopScreenShare();
+      };
+      screenStreamRef.current = stream;
+      setScreenStream(stream);
+      updateMeshTracks();
+    } catch (err) {
+      // Cancelling the picker rejects too
+      if (err instanceof DOMException && err.name === "NotAllowedError") return;
+      console.error("Error sharing screen:", err);
+      setNotice("Could not share your screen");
     }
+  };
+
+  // Function to close and clean up all audio connections
+  const closeAllPeerConnections = useCallback(() => {
+    closeMeshPeers();
+    stopSfu();
     
-    if (!(window.webkitSpeechRecognition || window.SpeechRecognition)) {
-      console.warn("Speech recognition not supported in this browser");
-      return false;
+    if (localStreamRef.current) {
+      localStreamRef.current.getTracks().forEach(track => track.stop());
+      localStreamRef.current = null;
     }
+    microphoneRef.current?.close();
+    microphoneRef.current = null;
+    levelMonitorRef.current?.setStream(userId, null);
+    cameraTrackRef.current?.stop();
+    cameraTrackRef.current = null;
+    setCameraStream(null);
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setScreenStream(null);
     
-    try {
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      const recog = new SpeechRecognition();
-      
-      // Configure for increased sensitivity
-      recog.continuous = true;
-      recog.interimResults = true;
-      recog.maxAlternatives = 3;
-      recog.lang = "en-US";
-      
-      // Lower than default to capture more speech
-      // This is a non-standard property but works in some browsers
-      try {
-        // @ts-ignore - this is a non-standard property
-        recog.interimResultsTimeout = 500;
-      } catch (e) {
-        // Ignore if not supported
-      }
+    setRemoteStreams({});
+    setRemoteScreens({});
+    
+    // Clear subtitles when audio is disabled
+    setSubtitles({});
+    pendingSubtitles.current = {};
+    captionSegmentRef.current = null;
+    if (subtitleTimeoutRef.current) {
+      clearTimeout(subtitleTimeoutRef.current);
+      subtitleTimeoutRef.current = null;
+    }
+  }, [userId, closeMeshPeers, stopSfu]);
 
-      // Handle speech recognition results
-      recog.onresult = (event: any) => {
-        let finalTranscript = "";
-        let interimTranscript = "";
+  // Initialize peer connection with a specific connection. Negotiation starts by
+  // itself once our tracks are added.
+  const initiatePeerConnection = useCallback(async (connectionId: string) => {
+    // Everyone is reached through the server instead
+    if (mediaModeRef.current === "sfu") return;
+    if (!localStreamRef.current || !socket || !socket.connected) {
+      console.warn("Cannot initiate connection: stream or socket not available");
+      return;
+    }
+    
+    try {
+      console.log(`Initiating connection with ${connectionId}`);
+      const peer = await getPeer(connectionId);
+      peer.setLocalStreams(outgoingStreams());
+    } catch (err) {
+      console.error("Error initiating peer connection:", err);
+    }
+  }, [socket, getPeer, outgoingStreams]);
 
-        // Process results
+  useEffect(() => {
+    const monitor = createAudioLevelMonitor((id, speaking) =>
+      setMeasuredSpeaking(prev => ({ ...prev, [id]: speaking }))
+    );
+    levelMonitorRef.current = monitor;
+    setLevelMonitor(monitor);
+    return () => {
+      levelMonitorRef.current = null;
+      monitor.close();
+    };
+  }, []);
+
+  // Measure whoever we hear, whether peer to peer or through the SFU
+  useEffect(() => {
+    if (!levelMonitor) return;
+    measuredStreamIdsRef.current
+      .filter((id) => !remoteStreams[id])
+      .forEach((id) => levelMonitor.setStream(id, null));
+    Object.entries(remoteStreams).forEach(([id, stream]) => levelMonitor.setStream(id, stream));
+    measuredStreamIdsRef.current = Object.keys(remoteStreams);
+  }, [levelMonitor, remoteStreams]);
+
+  // Tell the room when we start and stop speaking, for those who don't
+  // hear us directly
+  const localSpeaking = Boolean(measuredSpeaking[userId]);
+  useEffect(() => {
+    if (!socket?.connected || !roomCode || !socketInRoom) return;
+    socket.emit("speaking", { roomCode, speaking: localSpeaking });
+  }, [socket, roomCode, socketInRoom, localSpeaking]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleSpeaking = (data: SpeakingEvent) => {
+      setReportedSpeaking(prev => ({ ...prev, [data.connectionId]: data.speaking }));
+    };
+
+    socket.on("speaking", handleSpeaking);
+    return () => {
+      socket.off("speaking", handleSpeaking);
+    };
+  }, [socket]);
+
+  // Whether a user speaks on any of their connections. We are measured
+  // under our user id, everyone else per connection; reports from
+  // connections that have since left are stale.
+  const isSpeaking = useCallback(
+    (id: string) =>
+      Boolean(measuredSpeaking[id]) ||
+      Object.entries(connectionUsers).some(
+        ([connectionId, owner]) =>
+          owner === id && (measuredSpeaking[connectionId] || reportedSpeaking[connectionId])
+      ),
+    [measuredSpeaking, reportedSpeaking, connectionUsers]
+  );
+
+  // The active speaker stays so until they stop, even if others join in
+  useEffect(() => {
+    setActiveSpeakerId((current) => {
+      if (current && isSpeaking(current)) return current;
+      return participantsRef.current.find((p) => isSpeaking(p.id))?.id ?? null;
+    });
+  }, [isSpeaking]);
+
+  useEffect(() => {
+    localStorage.setItem("micGain", String(micGain));
+    micSettingsRef.current = { micDeviceId, micGain };
+    microphoneRef.current?.setGain(micGain);
+  }, [micDeviceId, micGain]);
+
+  // Swap the input device under the track we send, so nobody reconnects
+  const changeMicDevice = async (deviceId: string) => {
+    const previous = micDeviceId;
+    setMicDeviceId(deviceId);
+    localStorage.setItem("micDeviceId", deviceId);
+    const microphone = microphoneRef.current;
+    if (!microphone) return;
+
+    try {
+      await microphone.setDevice(deviceId || undefined);
+      // Only differs when the microphone could not use Web Audio
+      setLocalStream(microphone.stream);
+    } catch (err) {
+      console.error("Error switching microphone:", err);
+      setNotice("Could not switch to that microphone");
+      setMicDeviceId(previous);
+      localStorage.setItem("micDeviceId", previous);
+    }
+  };
+
+  const changeSpeakerDevice = (deviceId: string) => {
+    setSpeakerDeviceId(deviceId);
+    localStorage.setItem("speakerDeviceId", deviceId);
+  };
+
+  const updateParticipantAudio = (targetUserId: string, change: Partial<ParticipantAudio>) => {
+    setParticipantAudio(prev => ({
+      ...prev,
+      [targetUserId]: { ...(prev[targetUserId] ?? { volume: 1, muted: false }), ...change },
+    }));
+  };
+
+  useEffect(() => {
+    audioOutputRef.current = { speakerDeviceId, participantAudio };
+    Object.entries(audioElements.current).forEach(([connectionId, audioEl]) => {
+      const setting = participantAudio[connectionUsersRef.current[connectionId]];
+      if (audioEl) applyAudioOutput(audioEl, speakerDeviceId, setting);
+    });
+  }, [speakerDeviceId, participantAudio]);
+
+  // Device labels are only filled in once the page may use the microphone
+  useEffect(() => {
+    if (!showAudioSettings) return;
+    const loadDevices = () => {
+      navigator.mediaDevices
+        .enumerateDevices()
+        .then(setAudioDevices)
+        .catch((err) => console.error("Error listing audio devices:", err));
+    };
+    loadDevices();
+    navigator.mediaDevices.addEventListener("devicechange", loadDevices);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", loadDevices);
+  }, [showAudioSettings]);
+
+  useEffect(() => {
+    localStorage.setItem("pushToTalk", JSON.stringify(pushToTalk));
+    localStorage.setItem("talkKey", talkKey);
+  }, [pushToTalk, talkKey]);
+
+  useEffect(() => {
+    micOpenRef.current = micOpen;
+    microphoneRef.current?.setOpen(micOpen);
+  }, [micOpen]);
+
+  // Hold the talk key to send; letting go or leaving the window stops
+  useEffect(() => {
+    if (!pushToTalk || choosingTalkKey) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== talkKey || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setTalkKeyHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === talkKey) setTalkKeyHeld(false);
+    };
+    const release = () => setTalkKeyHeld(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", release);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", release);
+      release();
+    };
+  }, [pushToTalk, talkKey, choosingTalkKey]);
+
+  // The next key pressed becomes the talk key; Escape keeps the old one
+  useEffect(() => {
+    if (!choosingTalkKey) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code !== "Escape") setTalkKey(e.code);
+      setChoosingTalkKey(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [choosingTalkKey]);
+
+  // The server decides between mesh and SFU as people come and go
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMediaMode = (data: MediaModeEvent) => {
+      setMediaModeSetting(data.setting);
+      setMediaMode(data.mode);
+    };
+
+    const handleSfuPublishers = (data: SfuPublishersEvent) => {
+      sfuPublishersRef.current = data.connectionIds;
+      sfuSessionRef.current?.setPublishers(data.connectionIds.filter((id) => id !== socket.id));
+    };
+
+    socket.on("media_mode", handleMediaMode);
+    socket.on("sfu_publishers", handleSfuPublishers);
+    return () => {
+      socket.off("media_mode", handleMediaMode);
+      socket.off("sfu_publishers", handleSfuPublishers);
+    };
+  }, [socket]);
+
+  // Move our audio over when the mode changes, keeping the microphone
+  useEffect(() => {
+    if (mediaModeRef.current === mediaMode) return;
+    mediaModeRef.current = mediaMode;
+    if (!isAudioEnabled || !localStreamRef.current) return;
+
+    if (mediaMode === "sfu") {
+      // The SFU only relays audio
+      stopCamera();
+      stopScreenShare();
+      closeMeshPeers();
+      startSfu();
+    } else {
+      stopSfu();
+      Object.keys(connectionUsers)
+        .filter((connectionId) => connectionId !== socket?.id)
+        .forEach((connectionId) => initiatePeerConnection(connectionId));
+    }
+  }, [
+    mediaMode,
+    isAudioEnabled,
+    connectionUsers,
+    socket,
+    closeMeshPeers,
+    startSfu,
+    stopSfu,
+    stopCamera,
+    stopScreenShare,
+    initiatePeerConnection,
+  ]);
+
+  // Show a message locally right away, then swap in the stored row's id
+  // once the server acknowledges it. Passing speech metadata posts the text
+  // as a final speech transcript rather than a typed message.
+  const sendChatMessage = useCallback((text: string, speech?: SpeechMetadata) => {
+    if (!socket || !roomCode) return;
+
+    const tempId = `temp-${crypto.randomUUID()}`;
+    const kind = speech ? "speech_final" : "typed";
+    const newMsg: Message = {
+      id: tempId,
+      user_id: userId,
+      content: text,
+      created_at: new Date().toISOString(),
+      display_name: username,
+      kind,
+      speech: speech ?? null,
+    };
+    // While looking at older history the message shows up once the user
+    // pages down to it
+    if (!hasNewerRef.current) {
+      setMessages(prev => [...prev, newMsg]);
+    }
+
+    socket.emit("chat_message", { roomCode, message: text, kind, speech }, (response) => {
+      if (!response.ok) {
+        console.error("Failed to send message:", response.error.message);
+        setMessages(prev => prev.filter(m => m.id !== tempId));
+        return;
+      }
+      const { id, timestamp } = response.data;
+      setMessages(prev =>
+        prev.map(m => (m.id === tempId ? { ...m, id, created_at: timestamp } : m))
+      );
+    });
+  }, [socket, roomCode, userId, username]);
+
+  // Initialize speech recognition with improved error handling and subtitle-to-chat functionality
+  const initSpeechRecognition = useCallback(() => {
+    // Only enable if audio is enabled and browser supports it
+    if (!isAudioEnabled || !roomCode) {
+      console.log("Speech recognition not started: audio is disabled");
+      return false;
+    }
+    
+    if (!(window.webkitSpeechRecognition || window.SpeechRecognition)) {
+      console.warn("Speech recognition not supported in this browser");
+      return false;
+    }
+    
+    try {
+      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+      const recog = new SpeechRecognition();
+      
+      // Configure for increased sensitivity
+      recog.continuous = true;
+      recog.interimResults = true;
+      recog.maxAlternatives = 3;
+      recog.lang = speechLanguageRef.current;
+      
+      // Lower than default to capture more speech
+      // This is a non-standard property but works in some browsers
+      try {
+        // @ts-ignore - this is a non-standard property
+        recog.interimResultsTimeout = 500;
+      } catch (e) {
+        // Ignore if not supported
+      }
+
+      // Send a caption segment update; a final update closes the segment
+      const emitSubtitle = (text: string, isFinal: boolean) => {
+        if (!captionSegmentRef.current) {
+          captionSegmentRef.current = { id: crypto.randomUUID(), seq: 0 };
+        }
+        const segment = captionSegmentRef.current;
+        const caption: CaptionSegment = {
+          roomCode,
+          speakerId: userId,
+          displayName: username,
+          segmentId: segment.id,
+          seq: segment.seq++,
+          text,
+          isFinal,
+          language: utteranceRef.current?.language ?? recog.lang,
+          timestamp: new Date().toISOString(),
+        };
+        socket?.emit("subtitle", {
+          roomCode: caption.roomCode,
+          segmentId: caption.segmentId,
+          seq: caption.seq,
+          text,
+          isFinal,
+          language: caption.language,
+        });
+        if (isFinal) {
+          captionSegmentRef.current = null;
+          setCaptions(prev => [...prev, caption]);
+        }
+      };
+
+      // Metadata for the utterance that just ended. The Web Speech API
+      // reports confidence per final result but no word timings.
+      const finishUtterance = (confidence?: number): SpeechMetadata => {
+        const utteranceEnd = new Date().toISOString();
+        const speech: SpeechMetadata = {
+          confidence,
+          // The language may have been switched since the utterance began
+          language: utteranceRef.current?.language ?? recog.lang,
+          utteranceStart: utteranceRef.current?.start ?? utteranceEnd,
+          utteranceEnd,
+        };
+        utteranceRef.current = null;
+        return speech;
+      };
+
+      // Handle speech recognition results
+      recog.onresult = (event: any) => {
+        // The recognizer listens to the microphone itself, even while
+        // push-to-talk keeps it from being sent
+        if (!micOpenRef.current) return;
+
+        let finalTranscript = "";
+        let interimTranscript = "";
+        const confidences: number[] = [];
+
+        if (!utteranceRef.current) {
+          utteranceRef.current = { start: new Date().toISOString(), language: recog.lang };
+        }
+
+        // Process results
         for (let i = event.resultIndex; i < event.results.length; ++i) {
           if (event.results[i].isFinal) {
             finalTranscript += event.results[i][0].transcript + " ";
+            // Some browsers report 0 when they have no estimate
+            if (event.results[i][0].confidence > 0) {
+              confidences.push(event.results[i][0].confidence);
+            }
           } else {
             interimTranscript += event.results[i][0].transcript + " ";
           }
@@ -734,25 +1523,11 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
           // Set timeout to promote to message after a period of silence
           subtitleTimeoutRef.current = setTimeout(() => {
             const finalText = pendingSubtitles.current[userId]?.trim();
+            if (finalText) {
+              emitSubtitle(finalText, true);
+            }
             if (finalText && finalText.length > 5) { // Only convert substantial content
-              const newMsg: Message = {
-                id: crypto.randomUUID(),
-                user_id: userId,
-                content: finalText,
-                created_at: new Date().toISOString(),
-                display_name: username,
-              };
-
-              // Add to local messages
-              setMessages(prev => [...prev, newMsg]);
-              
-              // Send to server
-              socket?.emit("chat_message", {
-                roomCode,
-                message: finalText,
-                userId,
-                displayName: username
-              });
+              sendChatMessage(finalText, finishUtterance());
 
               // Clear subtitle
               setSubtitles(prev => {
@@ -767,38 +1542,27 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
           }, 2000); // Promote after 2 seconds of silence
           
           // Emit subtitle to other users
-          socket?.emit("subtitle", {
-            roomCode,
-            userId,
-            text: trimmedInterim,
-            displayName: username
-          });
+          emitSubtitle(trimmedInterim, false);
         }
       
         // Handle final results
         if (finalTranscript.trim()) {
           const trimmed = finalTranscript.trim();
+
+          // Close the caption segment so the room stores it
+          emitSubtitle(trimmed, true);
+          if (subtitleTimeoutRef.current) {
+            clearTimeout(subtitleTimeoutRef.current);
+            subtitleTimeoutRef.current = null;
+          }
           
           // Only create a message if it's substantial
+          const confidence = confidences.length
+            ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+            : undefined;
+          const speech = finishUtterance(confidence);
           if (trimmed.length > 5) {
-            const newMsg: Message = {
-              id: crypto.randomUUID(),
-              user_id: userId,
-              content: trimmed,
-              created_at: new Date().toISOString(),
-              display_name: username,
-            };
-
-            // Add to local messages
-            setMessages(prev => [...prev, newMsg]);
-            
-            // Send to server
-            socket?.emit("chat_message", { 
-              roomCode, 
-              message: trimmed, 
-              userId,
-              displayName: username 
-            });
+            sendChatMessage(trimmed, speech);
           }
 
           // Clear any pending subtitles
@@ -863,24 +1627,170 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       console.error("Error initializing speech recognition:", err);
       return false;
     }
-  }, [isAudioEnabled, userId, roomCode, socket, username]);
+  }, [isAudioEnabled, userId, roomCode, socket, username, sendChatMessage]);
+
+  // Stream the microphone to the server's recognizer. Its captions and
+  // transcripts come back as ordinary subtitle and chat_message events.
+  const startServerTranscription = useCallback((stream: MediaStream) => {
+    if (!socket || !roomCode) return false;
+    serverTranscribingRef.current = true;
+
+    socket.emit("asr_start", { roomCode, language: speechLanguageRef.current }, async (response) => {
+      if (!response.ok) {
+        serverTranscribingRef.current = false;
+        setNotice(response.error.message);
+        return;
+      }
+      try {
+        const stop = await startPcmCapture(stream, (pcm) => {
+          socket.emit("asr_audio", { roomCode, audio: pcm.buffer });
+        });
+        // Transcription may have been stopped while the capture started
+        if (serverTranscribingRef.current) {
+          stopCaptureRef.current = stop;
+        } else {
+          stop();
+        }
+      } catch (err) {
+        console.error("Error capturing microphone audio:", err);
+        serverTranscribingRef.current = false;
+        socket.emit("asr_stop", { roomCode });
+        setNotice("Could not capture microphone audio for transcription");
+      }
+    });
+    return true;
+  }, [socket, roomCode]);
+
+  const stopServerTranscription = useCallback(() => {
+    if (!serverTranscribingRef.current) return;
+    serverTranscribingRef.current = false;
+    stopCaptureRef.current?.();
+    stopCaptureRef.current = null;
+    if (socket && roomCode) {
+      socket.emit("asr_stop", { roomCode });
+    }
+  }, [socket, roomCode]);
+
+  const startTranscription = useCallback(
+    (stream: MediaStream) =>
+      transcriptionMode === "server"
+        ? startServerTranscription(stream)
+        : initSpeechRecognition(),
+    [transcriptionMode, startServerTranscription, initSpeechRecognition]
+  );
+
+  const stopTranscription = useCallback(() => {
+    if (recognition) {
+      // Otherwise onend starts it right back up
+      recognition.onend = null;
+      recognition.stop();
+      setRecognition(null);
+    }
+    stopServerTranscription();
+  }, [recognition, stopServerTranscription]);
+
+  // Switching modes mid-call hands the microphone to the other recognizer
+  useEffect(() => {
+    localStorage.setItem("transcriptionMode", transcriptionMode);
+    if (transcriptionModeRef.current === transcriptionMode) return;
+    transcriptionModeRef.current = transcriptionMode;
+
+    if (isAudioEnabled && localStreamRef.current) {
+      stopTranscription();
+      startTranscription(localStreamRef.current);
+    }
+  }, [transcriptionMode, isAudioEnabled, startTranscription, stopTranscription]);
+
+  // Our speech language lives in the profile so it follows us across devices
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const res = await apiFetch("/api/auth/profile");
+        if (!res.ok) throw new Error(`Failed to fetch profile: ${res.status}`);
+        const profile: UserProfile = await res.json();
+        if (profile.speechLanguage) setSpeechLanguage(profile.speechLanguage);
+      } catch (error) {
+        console.error("Error fetching profile:", error);
+      }
+    };
+    loadProfile();
+  }, []);
+
+  const changeSpeechLanguage = async (language: string) => {
+    const previous = speechLanguage;
+    setSpeechLanguage(language);
+    try {
+      const res = await apiFetch("/api/auth/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ speechLanguage: language }),
+      });
+      if (!res.ok) throw new Error(`Failed to save profile: ${res.status}`);
+    } catch (error) {
+      console.error("Error saving speech language:", error);
+      setSpeechLanguage(previous);
+      setNotice("Could not change the speech language");
+    }
+  };
+
+  // Switch a running recognizer over without dropping the microphone. The
+  // browser's restarts from onend with the new language; the server's is
+  // started again while capture keeps streaming.
+  useEffect(() => {
+    if (speechLanguageRef.current === speechLanguage) return;
+    speechLanguageRef.current = speechLanguage;
+
+    if (recognition) {
+      recognition.lang = speechLanguage;
+      recognition.stop();
+    }
+    if (serverTranscribingRef.current && socket && roomCode) {
+      socket.emit("asr_start", { roomCode, language: speechLanguage }, (response) => {
+        if (!response.ok) setNotice(response.error.message);
+      });
+    }
+  }, [speechLanguage, recognition, socket, roomCode]);
 
-  // Handle WebRTC signaling - offers, answers, and ICE candidates
+  // The server gave up on our audio stream
   useEffect(() => {
     if (!socket) return;
 
-    // Handle incoming offers
-    const handleOffer = async (data: OfferData) => {
-      console.log("Received offer from", data.fromUserId);
-      const { fromUserId, offer } = data;
-      
-      // Only process if audio is enabled
-      if (!isAudioEnabled) {
-        console.log("Ignoring offer because audio is disabled");
+    const handleAsrError = (data: { message: string }) => {
+      serverTranscribingRef.current = false;
+      stopCaptureRef.current?.();
+      stopCaptureRef.current = null;
+      setNotice(data.message);
+    };
+
+    socket.on("asr_error", handleAsrError);
+    return () => {
+      socket.off("asr_error", handleAsrError);
+    };
+  }, [socket]);
+
+  // Handle WebRTC signaling - offers, answers, and ICE candidates. Every
+  // signal goes through the peer, which settles offers crossing each other.
+  useEffect(() => {
+    if (!socket) return;
+
+    // Handle incoming offers, including renegotiations and ICE restarts
+    const handleOffer = async (data: OfferEvent) => {
+      console.log("Received offer from", data.fromUserId, "on", data.fromConnectionId);
+      const { fromConnectionId, offer } = data;
+      
+      // Only process if audio is enabled and the room is peer to peer; the
+      // sender closes its end so we start fresh once we connect
+      if (!isAudioEnabled || mediaModeRef.current === "sfu") {
+        console.log("Declining offer because audio is disabled or relayed");
+        socket.emit("hangup", { targetConnectionId: fromConnectionId });
         return;
       }
       
       try {
+        // Registered before anything else is awaited so candidates that
+        // follow the offer find it
+        const peerPromise = getPeer(fromConnectionId);
+
         // Ensure we have local stream
         if (!localStreamRef.current) {
           console.log("Getting microphone access to answer offer");
@@ -889,103 +1799,72 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
             console.error("Failed to get microphone for answering offer");
             return;
           }
-          localStreamRef.current = stream;
+          setLocalStream(stream);
           
           // Initialize speech recognition if needed
-          if (!recognition) {
-            initSpeechRecognition();
-          }
-        }
-        
-        // Create peer connection
-        const pc = createPeerConnection(fromUserId);
-        
-        // Add local tracks
-        localStreamRef.current.getTracks().forEach((track) => {
-          if (localStreamRef.current) {
-            pc.addTrack(track, localStreamRef.current);
+          if (!recognition && !serverTranscribingRef.current) {
+            startTranscription(stream);
           }
-        });
-        
-        // Set remote description (the offer)
-        await pc.setRemoteDescription(new RTCSessionDescription(offer));
-        console.log("Set remote description for offer from", fromUserId);
-        
-        // Create answer
-        const answer = await pc.createAnswer();
-        await pc.setLocalDescription(answer);
-        console.log("Created and set local description for answer");
-        
-        // Send answer if socket is connected
-        if (socket && socket.connected) {
-          socket.emit("answer", {
-            fromUserId: userId,
-            targetUserId: fromUserId,
-            answer,
-          } as AnswerData);
-        } else {
-          console.error("Socket not connected, cannot send answer");
-          pc.close();
-          return;
         }
         
-        // Store the connection
-        peerConnectionsRef.current[fromUserId] = pc;
+        const peer = await peerPromise;
+        peer.setLocalStreams(outgoingStreams());
+        await peer.handleDescription(offer);
       } catch (error) {
         console.error("Error handling offer:", error);
       }
     };
 
     // Handle incoming answers
-    const handleAnswer = async (data: AnswerData) => {
-      console.log("Received answer from", data.fromUserId);
-      const { fromUserId, answer } = data;
-      const pc = peerConnectionsRef.current[fromUserId];
+    const handleAnswer = async (data: AnswerEvent) => {
+      console.log("Received answer from", data.fromUserId, "on", data.fromConnectionId);
+      const { fromConnectionId, answer } = data;
+      const peer = peersRef.current[fromConnectionId];
+      if (!peer) {
+        console.warn("No peer connection found for", fromConnectionId);
+        return;
+      }
       
-      if (pc) {
-        try {
-          await pc.setRemoteDescription(new RTCSessionDescription(answer));
-          console.log("Set remote description for answer from", fromUserId);
-        } catch (error) {
-          console.error("Error setting remote description for answer:", error);
-          // Try to recreate the connection
-          setTimeout(() => {
-            if (isAudioEnabled && localStreamRef.current) {
-              initiatePeerConnection(fromUserId);
-            }
-          }, 2000);
-        }
-      } else {
-        console.warn("No peer connection found for", fromUserId);
+      try {
+        await (await peer).handleDescription(answer);
+      } catch (error) {
+        console.error("Error setting remote description for answer:", error);
       }
     };
 
-    // Handle ICE candidates
-    const handleIceCandidate = async (data: IceCandidateData) => {
-      console.log("Received ICE candidate from", data.fromUserId);
-      const { fromUserId, candidate } = data;
-      const pc = peerConnectionsRef.current[fromUserId];
+    // Handle ICE candidates; the peer holds them until it has the
+    // description they belong to
+    const handleIceCandidate = async (data: IceCandidateEvent) => {
+      const { fromConnectionId, candidate } = data;
+      const peer = peersRef.current[fromConnectionId];
+      if (!peer) {
+        console.warn("No peer connection found for", fromConnectionId);
+        return;
+      }
       
-      if (pc) {
-        try {
-          await pc.addIceCandidate(new RTCIceCandidate(candidate));
-          console.log("Added ICE candidate from", fromUserId);
-        } catch (error) {
-          console.error("Error adding ICE candidate:", error);
-        }
-      } else {
-        console.warn("No peer connection found for", fromUserId);
+      try {
+        await (await peer).handleCandidate(candidate);
+      } catch (error) {
+        console.error("Error adding ICE candidate:", error);
       }
     };
 
+    // The other side closed its end
+    const handleHangup = (data: HangupEvent) => {
+      console.log("Peer hung up:", data.fromConnectionId);
+      closePeer(data.fromConnectionId);
+    };
+
     socket.on("offer", handleOffer);
     socket.on("answer", handleAnswer);
     socket.on("ice_candidate", handleIceCandidate);
+    socket.on("hangup", handleHangup);
 
     return () => {
       socket.off("offer", handleOffer);
       socket.off("answer", handleAnswer);
       socket.off("ice_candidate", handleIceCandidate);
+      socket.off("hangup", handleHangup);
     };
   }, [socket, userId, isAudioEnabled, recognition, initSpeechRecognition]);
 
@@ -994,9 +1873,7 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     if (!roomCode) return;
     try {
       console.log("Fetching participants for room:", roomCode);
-      const res = await fetch(
-        `${import.meta.env.VITE_BACKEND_URL}/api/room-members/${roomCode}`
-      );
+      const res = await apiFetch(`/api/room-members/${roomCode}`);
       
       if (!res.ok) {
         throw new Error(`Failed to fetch participants: ${res.status}`);
@@ -1031,14 +1908,9 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       console.log("Joining room:", roomCode, "as user:", userId);
       
       // Update database
-      const resp = await fetch(`${import.meta.env.VITE_BACKEND_URL}/api/rooms/join`, {
+      const resp = await apiFetch("/api/rooms/join", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          userId, 
-          roomCode,
-          displayName: username // Ensure username is sent
-        }),
+        body: JSON.stringify({ roomCode }),
       });
       
       if (!resp.ok) {
@@ -1053,14 +1925,15 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       }
       
       const data = await resp.json();
+      // Put in the lobby: JoinRoom is where people wait for the host
+      if (resp.status === 202) {
+        console.warn("Waiting for the host to admit us to", roomCode);
+        return;
+      }
       console.log("Joined room successfully in database:", data);
       
       // Join socket room
-      socket.emit("join_room", { 
-        roomCode, 
-        userId, 
-        displayName: username 
-      });
+      emitJoinRoom(socket);
       
       console.log("Emitted join_room event to socket");
       
@@ -1072,35 +1945,132 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     } catch (err) {
       console.error("Error joining room:", err);
     }
-  }, [roomCode, userId, socket, username, fetchParticipants]);
+  }, [roomCode, userId, socket, fetchParticipants, emitJoinRoom]);
 
-  // Fetch messages
+  // Fetch the newest page of messages
   const fetchMessages = useCallback(async () => {
     if (!roomCode) return;
     
     try {
       console.log("Fetching messages for room:", roomCode);
-      const res = await fetch(
-        `${import.meta.env.VITE_BACKEND_URL}/api/messages/${roomCode}?order=created_at.asc`
-      );
+      const res = await apiFetch(`/api/messages/${roomCode}?limit=${MESSAGE_PAGE_SIZE}`);
       
       if (!res.ok) throw new Error(`Failed to fetch messages: ${res.status}`);
       
-      const data = await res.json();
-      console.log(`Fetched ${data.length} messages`);
-      setMessages(data);
+      const data: MessagePage = await res.json();
+      console.log(`Fetched ${data.messages.length} messages`);
+      setMessages(data.messages);
+      setHasOlderMessages(data.hasMore);
+      hasNewerRef.current = false;
+      setHasNewerMessages(false);
       messagesRef.current.fetched = true;
     } catch (error) {
       console.error("Error fetching messages:", error);
     }
   }, [roomCode]);
 
+  // Fetch the page before the oldest message we have
+  const fetchOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!roomCode || !oldest || !hasOlderMessages || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const res = await apiFetch(
+        `/api/messages/${roomCode}?before=${oldest.id}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      if (!res.ok) throw new Error(`Failed to fetch messages: ${res.status}`);
+
+      const data: MessagePage = await res.json();
+      const list = messageListRef.current;
+      if (list) {
+        scrollRestoreRef.current = { height: list.scrollHeight, top: list.scrollTop };
+      }
+      setMessages((prev) => [...data.messages, ...prev]);
+      setHasOlderMessages(data.hasMore);
+    } catch (error) {
+      console.error("Error fetching older messages:", error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [roomCode, messages, hasOlderMessages, loadingOlder]);
+
+  // Fetch the page after the newest message we have, when viewing the past
+  const fetchNewerMessages = useCallback(async () => {
+    const newest = messages[messages.length - 1];
+    if (!roomCode || !newest || !hasNewerMessages || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const res = await apiFetch(
+        `/api/messages/${roomCode}?after=${newest.id}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      if (!res.ok) throw new Error(`Failed to fetch messages: ${res.status}`);
+
+      const data: MessagePage = await res.json();
+      suppressAutoScrollRef.current = true;
+      setMessages((prev) => [...prev, ...data.messages]);
+      hasNewerRef.current = data.hasMore;
+      setHasNewerMessages(data.hasMore);
+    } catch (error) {
+      console.error("Error fetching newer messages:", error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [roomCode, messages, hasNewerMessages, loadingOlder]);
+
+  const handleMessageListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const list = e.currentTarget;
+    if (list.scrollTop < 100) {
+      fetchOlderMessages();
+    } else if (list.scrollHeight - list.scrollTop - list.clientHeight < 100) {
+      fetchNewerMessages();
+    }
+  };
+
+  // Show a search hit in context: reuse the loaded history if it is there,
+  // otherwise load a page on either side of it
+  const jumpToMessage = async (result: SearchResult) => {
+    if (!roomCode) return;
+
+    if (!messages.some((m) => m.id === result.id)) {
+      try {
+        const [olderRes, newerRes] = await Promise.all([
+          apiFetch(`/api/messages/${roomCode}?before=${result.id}&limit=${MESSAGE_PAGE_SIZE}`),
+          apiFetch(`/api/messages/${roomCode}?after=${result.id}&limit=${MESSAGE_PAGE_SIZE}`),
+        ]);
+        if (!olderRes.ok || !newerRes.ok) {
+          throw new Error("Failed to fetch messages around the result");
+        }
+        const older: MessagePage = await olderRes.json();
+        const newer: MessagePage = await newerRes.json();
+
+        const hit: Message = {
+          id: result.id,
+          user_id: result.user_id,
+          content: result.content,
+          created_at: result.created_at,
+          display_name: result.display_name,
+        };
+        suppressAutoScrollRef.current = true;
+        setMessages([...older.messages, hit, ...newer.messages]);
+        setHasOlderMessages(older.hasMore);
+        hasNewerRef.current = newer.hasMore;
+        setHasNewerMessages(newer.hasMore);
+      } catch (error) {
+        console.error("Error jumping to message:", error);
+        return;
+      }
+    }
+    setHighlightedMessageId(result.id);
+  };
+
   // Fetch QR code
   const fetchRoomDetails = useCallback(async () => {
     if (!roomCode) return;
     try {
       console.log("Fetching room details for:", roomCode);
-      const res = await fetch(`${import.meta.env.VITE_BACKEND_URL}/api/rooms/${roomCode}`);
+      const res = await apiFetch(`/api/rooms/${roomCode}`);
       
       if (!res.ok) {
         throw new Error(`Failed to fetch room details: ${res.status}`);
@@ -1109,6 +2079,8 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
       const data = await res.json();
       console.log("Room details:", data);
       setQrCode(data.qr_code);
+      setIsLocked(Boolean(data.locked));
+      if (data.media_mode) setMediaModeSetting(data.media_mode);
     } catch (error) {
       console.error("Error fetching room details:", error);
     }
@@ -1136,31 +2108,165 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     // };
   }, [roomCode, userId, fetchMessages, joinRoom, fetchParticipants, fetchRoomDetails]);
 
+  // Edits, deletions and reactions from anyone in the room, ourselves included
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessageUpdated = (data: MessageUpdatedEvent) => {
+      setMessages(prev =>
+        prev.map(m =>
+          m.id === data.id
+            ? { ...m, content: data.content, edited_at: data.editedAt, deleted_at: data.deletedAt }
+            : m
+        )
+      );
+      // An edited message gets a fresh translation pushed after this
+      setTranslations(prev => {
+        const next = { ...prev };
+        delete next[data.id];
+        return next;
+      });
+    };
+
+    const handleMessageReaction = (data: MessageReactionEvent) => {
+      setMessages(prev =>
+        prev.map(m => {
+          if (m.id !== data.messageId) return m;
+          const reactions = (m.reactions ?? [])
+            .map(r =>
+              r.emoji !== data.emoji
+                ? r
+                : {
+                    ...r,
+                    userIds: data.added
+                      ? [...r.userIds.filter(id => id !== data.userId), data.userId]
+                      : r.userIds.filter(id => id !== data.userId),
+                  }
+            )
+            .filter(r => r.userIds.length > 0);
+          if (data.added && !reactions.some(r => r.emoji === data.emoji)) {
+            reactions.push({ emoji: data.emoji, userIds: [data.userId] });
+          }
+          return { ...m, reactions };
+        })
+      );
+    };
+
+    socket.on("message_updated", handleMessageUpdated);
+    socket.on("message_reaction", handleMessageReaction);
+    return () => {
+      socket.off("message_updated", handleMessageUpdated);
+      socket.off("message_reaction", handleMessageReaction);
+    };
+  }, [socket]);
+
+  // Tell the server which language we read in and start over with
+  // translations into it
+  useEffect(() => {
+    localStorage.setItem("translationLanguage", translationLanguage);
+    translationLanguageRef.current = translationLanguage;
+    setTranslations({});
+    setCaptionTranslations({});
+    setSubtitleTranslations({});
+    requestedTranslationsRef.current = new Set();
+
+    if (socket && roomCode && socketInRoom) {
+      socket.emit("set_language", { roomCode, language: translationLanguage || null });
+    }
+  }, [socket, roomCode, socketInRoom, translationLanguage]);
+
+  // Translate loaded history; live messages are translated as they arrive
+  useEffect(() => {
+    if (!socket || !roomCode || !socketInRoom || !translationLanguage) return;
+
+    const messageIds = messages
+      .filter(
+        (m) =>
+          !m.id.startsWith("temp-") &&
+          !m.deleted_at &&
+          !requestedTranslationsRef.current.has(m.id)
+      )
+      .map((m) => m.id)
+      .slice(0, MAX_MESSAGE_PAGE_SIZE);
+    if (messageIds.length === 0) return;
+
+    messageIds.forEach((id) => requestedTranslationsRef.current.add(id));
+    socket.emit(
+      "translate_messages",
+      { roomCode, messageIds, language: translationLanguage },
+      (response) => {
+        if (!response.ok) {
+          console.error("Failed to translate messages:", response.error.message);
+          return;
+        }
+        if (translationLanguageRef.current !== translationLanguage) return;
+        setTranslations((prev) => ({
+          ...prev,
+          ...Object.fromEntries(response.data.map((t) => [t.messageId, t.text])),
+        }));
+      }
+    );
+  }, [socket, roomCode, socketInRoom, translationLanguage, messages]);
+
+  // Translations the server pushes for live messages and captions
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessageTranslation = (data: MessageTranslation) => {
+      if (data.language !== translationLanguageRef.current) return;
+      setTranslations((prev) => ({ ...prev, [data.messageId]: data.text }));
+    };
+
+    const handleCaptionTranslation = (data: CaptionTranslation) => {
+      if (data.language !== translationLanguageRef.current) return;
+      setCaptionTranslations((prev) => {
+        const current = prev[data.segmentId];
+        if (current && current.seq > data.seq) return prev;
+        return { ...prev, [data.segmentId]: { seq: data.seq, text: data.text } };
+      });
+      // Only segments still being spoken show under the live subtitles
+      if (subtitleSeqRef.current[data.segmentId] !== undefined) {
+        setSubtitleTranslations((prev) => ({ ...prev, [data.speakerId]: data.text }));
+      }
+    };
+
+    socket.on("message_translation", handleMessageTranslation);
+    socket.on("caption_translation", handleCaptionTranslation);
+    return () => {
+      socket.off("message_translation", handleMessageTranslation);
+      socket.off("caption_translation", handleCaptionTranslation);
+    };
+  }, [socket]);
+
   // Handle chat messages from socket
   useEffect(() => {
     if (!socket) return;
     
-    const handleChatMessage = (data: { 
-      userId: string; 
-      message: string; 
-      timestamp: string;
-      displayName: string;
-    }) => {
+    const handleChatMessage = (data: ChatMessage) => {
       console.log("Received chat message:", data);
-      
-      // Only add if it's not from current user (to avoid duplicates)
-      if (data.userId !== userId) {
+      // The server pushes translations of live messages by itself
+      requestedTranslationsRef.current.add(data.id);
+      
+      // Only add if it's not from current user (to avoid duplicates) and
+      // we're showing the latest messages rather than a window into the past.
+      // Our own transcripts from the server's recognizer were never added
+      // locally, so those are shown too.
+      const fromServerRecognizer =
+        data.kind === "speech_final" && transcriptionModeRef.current === "server";
+      if ((data.userId !== userId || fromServerRecognizer) && !hasNewerRef.current) {
         // Use provided display name or fallback
         const displayName = data.displayName || 
           participantsRef.current.find(p => p.id === data.userId)?.displayName || 
           "Anonymous";
         
         const newMsg: Message = {
-          id: crypto.randomUUID(),
+          id: data.id,
           user_id: data.userId,
           content: data.message,
           created_at: data.timestamp || new Date().toISOString(),
           display_name: displayName,
+          kind: data.kind,
+          speech: data.speech,
         };
         
         setMessages((prev) => [...prev, newMsg]);
@@ -1173,31 +2279,203 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     };
   }, [socket, userId]);
 
+  // Moderation events pushed by the server
+  useEffect(() => {
+    if (!socket) return;
+
+    // We were removed or the meeting ended: tear down and go back
+    const exitRoom = (reason: string) => {
+      closeAllPeerConnections();
+      stopTranscription();
+      roomJoinedRef.current = false;
+      alert(reason);
+      onLeave();
+    };
+
+    const handleForceMute = () => {
+      setIsAudioEnabled(false);
+      setNotice("A host muted your microphone");
+    };
+
+    const setMuted = (targetUserId: string, muted: boolean) => {
+      setParticipants(prev => prev.map(p => (p.id === targetUserId ? { ...p, muted } : p)));
+    };
+
+    const handleParticipantMuted = (data: { userId: string }) => {
+      setMuted(data.userId, true);
+      if (data.userId === userId) return;
+      const name = participantsRef.current.find(p => p.id === data.userId)?.displayName;
+      setNotice(`${name || "A participant"} was muted by a host`);
+    };
+
+    const handleParticipantUnmuted = (data: { userId: string }) => {
+      setMuted(data.userId, false);
+      if (data.userId === userId) {
+        setNotice("A host unmuted you; you can turn your microphone back on");
+      }
+    };
+
+    const handleRemoved = (data: { reason: "removed" | "banned" }) => {
+      exitRoom(
+        data.reason === "banned"
+          ? "You have been banned from this room."
+          : "You have been removed from this room."
+      );
+    };
+
+    const handleRoomClosed = (data: { reason: "ended_by_host" | "idle" }) => {
+      exitRoom(
+        data.reason === "idle"
+          ? "This meeting was closed because nobody was in it."
+          : "The host has ended the meeting."
+      );
+    };
+
+    const handleRoomUpdated = (data: { locked: boolean }) => {
+      setIsLocked(data.locked);
+    };
+
+    const handleRoleChanged = (data: { userId: string; role: RoomRole }) => {
+      setParticipants(prev =>
+        prev.map(p => (p.id === data.userId ? { ...p, role: data.role } : p))
+      );
+    };
+
+    const handleLobbyUpdated = (data: LobbyUpdate) => {
+      if (data.roomCode !== roomCode) return;
+      const arrived = data.waiting.filter(w => !lobbyRef.current.some(p => p.id === w.id));
+      if (arrived.length === 1) {
+        setNotice(`${arrived[0].displayName} is waiting to join`);
+      } else if (arrived.length > 1) {
+        setNotice(`${arrived.length} people are waiting to join`);
+      }
+      lobbyRef.current = data.waiting;
+      setLobby(data.waiting);
+    };
+
+    socket.on("force_mute", handleForceMute);
+    socket.on("participant_muted", handleParticipantMuted);
+    socket.on("participant_unmuted", handleParticipantUnmuted);
+    socket.on("removed_from_room", handleRemoved);
+    socket.on("room_closed", handleRoomClosed);
+    socket.on("room_updated", handleRoomUpdated);
+    socket.on("role_changed", handleRoleChanged);
+    socket.on("lobby_updated", handleLobbyUpdated);
+
+    return () => {
+      socket.off("force_mute", handleForceMute);
+      socket.off("participant_muted", handleParticipantMuted);
+      socket.off("participant_unmuted", handleParticipantUnmuted);
+      socket.off("removed_from_room", handleRemoved);
+      socket.off("room_closed", handleRoomClosed);
+      socket.off("room_updated", handleRoomUpdated);
+      socket.off("role_changed", handleRoleChanged);
+      socket.off("lobby_updated", handleLobbyUpdated);
+    };
+  }, [socket, roomCode, userId, stopTranscription, closeAllPeerConnections, onLeave]);
+
+  // Host / co-host actions on another participant
+  const moderate = (
+    event:
+      | "mute_participant"
+      | "unmute_participant"
+      | "remove_participant"
+      | "ban_participant"
+      | "transfer_host",
+    target: Participant
+  ) => {
+    if (!socket || !roomCode) return;
+    if (event === "ban_participant" && !confirm(`Ban ${target.displayName} from this room?`)) return;
+    if (event === "transfer_host" && !confirm(`Make ${target.displayName} the host?`)) return;
+
+    socket.emit(event, { roomCode, targetUserId: target.id }, (response) => {
+      if (!response.ok) {
+        setNotice(response.error.message);
+      } else if (event === "remove_participant" || event === "ban_participant") {
+        fetchParticipants();
+      }
+    });
+  };
+
+  const decideLobby = (waiting: WaitingUser, admit: boolean) => {
+    if (!socket || !roomCode) return;
+    const event = admit ? "admit_participant" : "reject_participant";
+    socket.emit(event, { roomCode, targetUserId: waiting.id }, (response) => {
+      if (!response.ok) {
+        setNotice(response.error.message);
+      } else if (admit) {
+        fetchParticipants();
+      }
+    });
+  };
+
+  const setParticipantRole = (target: Participant, role: "cohost" | "participant") => {
+    if (!socket || !roomCode) return;
+    socket.emit("set_role", { roomCode, targetUserId: target.id, role }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
+  const toggleRoomLock = () => {
+    if (!socket || !roomCode) return;
+    socket.emit("set_room_lock", { roomCode, locked: !isLocked }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
+  const changeMediaMode = (mode: MediaModeSetting) => {
+    if (!socket || !roomCode) return;
+    socket.emit("set_media_mode", { roomCode, mode }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
+  const endMeeting = () => {
+    if (!socket || !roomCode) return;
+    if (!confirm("End the meeting for everyone?")) return;
+    socket.emit("end_meeting", { roomCode }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
   // Send text message
-  const handleSendMessage = (e: React.FormEvent) => {
+  const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim() || !socket || !socket.connected) return;
-    
-    const newMsg: Message = {
-      id: crypto.randomUUID(),
-      user_id: userId,
-      content: message,
-      created_at: new Date().toISOString(),
-      display_name: username,
-    };
-    
-    setMessages((prev) => [...prev, newMsg]);
-    
-    socket.emit("chat_message", { 
-      roomCode, 
-      message: message.trim(), 
-      userId,
-      displayName: username
-    });
+
+    // Sending from older history brings the conversation back to the end
+    if (hasNewerMessages) {
+      await fetchMessages();
+    }
+    sendChatMessage(message.trim());
     
     setMessage("");
   };
 
+  // The server broadcasts the result as message_updated/message_reaction,
+  // which is what updates our own view too
+  const editMessage = (messageId: string, content: string) => {
+    if (!socket || !roomCode) return;
+    socket.emit("edit_message", { roomCode, messageId, content }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
+  const deleteMessage = (messageId: string) => {
+    if (!socket || !roomCode) return;
+    if (!window.confirm("Delete this message?")) return;
+    socket.emit("delete_message", { roomCode, messageId }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
+  const toggleReaction = (messageId: string, emoji: string) => {
+    if (!socket || !roomCode) return;
+    socket.emit("toggle_reaction", { roomCode, messageId, emoji }, (response) => {
+      if (!response.ok) setNotice(response.error.message);
+    });
+  };
+
   // Copy QR to clipboard
   const handleCopyRoomCode = async () => {
     if (!qrCode) return;
@@ -1224,26 +2502,119 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
     }
   };
 
+  // Download the room transcript; the endpoint needs our session token,
+  // so fetch it and hand the browser a blob instead of linking directly
+  const downloadTranscript = async (format: TranscriptFormat) => {
+    setShowExportMenu(false);
+    if (!roomCode) return;
+
+    try {
+      const res = await apiFetch(`/api/rooms/${roomCode}/transcript?format=${format}`);
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `transcript-${roomCode}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to download transcript", err);
+      setNotice("Could not download the transcript");
+    }
+  };
+
+  // Video goes peer to peer alongside the microphone
+  const videoUnavailableReason = !isAudioEnabled
+    ? "Turn your microphone on to use video"
+    : mediaMode === "sfu"
+      ? "Video is off while audio goes through the server"
+      : null;
+  const videoAvailable = videoUnavailableReason === null;
+
+  const displayNameOf = (id: string) =>
+    participants.find((p) => p.id === id)?.displayName || "Unknown";
+  const captionOf = (id: string) => subtitleTranslations[id] || subtitles[id];
+  // Remote media is keyed by connection; these map it back to people
+  const userOf = (connectionId: string) => connectionUsers[connectionId] ?? connectionId;
+  const connectionsOf = (id: string) =>
+    Object.keys(connectionUsers).filter((connectionId) => connectionUsers[connectionId] === id);
+  const hearsFrom = (id: string) => connectionsOf(id).some((connectionId) => remoteStreams[connectionId]);
+  // What the level ring measures for a participant
+  const levelIdOf = (id: string) =>
+    id === userId ? id : connectionsOf(id).find((connectionId) => remoteStreams[connectionId]) ?? id;
+  const videoTiles: VideoTile[] = [
+    ...(screenStream
+      ? [{ id: "screen:local", userId, label: "Your screen", stream: screenStream, kind: "screen" as const }]
+      : []),
+    ...Object.entries(remoteScreens).map(([id, stream]) => ({
+      id: `screen:${id}`,
+      userId: userOf(id),
+      label: `${displayNameOf(userOf(id))}'s screen`,
+      stream,
+      kind: "screen" as const,
+      caption: captionOf(userOf(id)),
+    })),
+    ...(cameraStream
+      ? [{
+          id: "camera:local",
+          userId,
+          label: `${username} (you)`,
+          stream: cameraStream,
+          kind: "camera" as const,
+          caption: captionOf(userId),
+          mirrored: true,
+        }]
+      : []),
+    ...Object.entries(remoteStreams).map(([id, stream]) => ({
+      id: `camera:${id}`,
+      userId: userOf(id),
+      label: displayNameOf(userOf(id)),
+      stream,
+      kind: "camera" as const,
+      caption: captionOf(userOf(id)),
+    })),
+  ];
+
   // Render the UI
   return (
     <div className="min-h-screen flex flex-col">
       <header className="glass-panel py-4 px-6 shadow-md">
         <div className="container mx-auto flex items-center justify-between">
           <div>
-            <h1 className="text-lg font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            <h1 className="text-lg font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent flex items-center gap-2">
               Room: {roomCode}
+              {isLocked && (
+                <span title="Room is locked">
+                  <Lock className="w-4 h-4 text-muted-foreground" />
+                </span>
+              )}
             </h1>
             <p className="text-sm text-gray-400">Connected as {username}</p>
           </div>
           <div className="flex items-center gap-4">
             <button
-              onClick={() => setIsAudioEnabled(!isAudioEnabled)}
+              onClick={() => {
+                if (!isAudioEnabled && mutedByHost) {
+                  setNotice("A host muted you; ask them to unmute you");
+                  return;
+                }
+                setIsAudioEnabled(!isAudioEnabled);
+              }}
               className={`p-2 rounded-lg ${
                 isAudioEnabled
                   ? "bg-primary/30 text-primary"
                   : "bg-secondary/30 text-muted-foreground"
               } hover:bg-primary/20 transition`}
-              title={isAudioEnabled ? "Disable microphone" : "Enable microphone"}
+              title={
+                !isAudioEnabled
+                  ? "Enable microphone"
+                  : pushToTalk
+                    ? `Hold ${keyLabel(talkKey)} to talk; click to disable microphone`
+                    : "Disable microphone"
+              }
             >
               {isAudioEnabled ? (
                 <Mic className="w-5 h-5" />
@@ -1251,6 +2622,226 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
                 <MicOff className="w-5 h-5" />
               )}
             </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowAudioSettings(!showAudioSettings)}
+                className={`p-2 rounded-lg ${
+                  showAudioSettings
+                    ? "bg-primary/30 text-primary"
+                    : "bg-secondary/30 text-muted-foreground"
+                } hover:bg-primary/20 transition`}
+                title="Audio settings"
+              >
+                <SlidersHorizontal className="w-5 h-5" />
+              </button>
+              {showAudioSettings && (
+                <div className="absolute left-0 mt-2 w-72 glass-panel rounded-lg p-4 z-10 space-y-3 text-sm">
+                  <label className="block">
+                    <span className="text-muted-foreground">Microphone</span>
+                    <select
+                      value={micDeviceId}
+                      onChange={(e) => changeMicDevice(e.target.value)}
+                      className="mt-1 w-full rounded-lg input-style p-1"
+                    >
+                      <option value="">Default microphone</option>
+                      {audioDevices
+                        .filter((device) => device.kind === "audioinput" && device.deviceId !== "default")
+                        .map((device, index) => (
+                          <option key={device.deviceId} value={device.deviceId}>
+                            {device.label || `Microphone ${index + 1}`}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                  {sinkIdSupported() && (
+                    <label className="block">
+                      <span className="text-muted-foreground">Speaker</span>
+                      <select
+                        value={speakerDeviceId}
+                        onChange={(e) => changeSpeakerDevice(e.target.value)}
+                        className="mt-1 w-full rounded-lg input-style p-1"
+                      >
+                        <option value="">Default speaker</option>
+                        {audioDevices
+                          .filter((device) => device.kind === "audiooutput" && device.deviceId !== "default")
+                          .map((device, index) => (
+                            <option key={device.deviceId} value={device.deviceId}>
+                              {device.label || `Speaker ${index + 1}`}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="block">
+                    <span className="text-muted-foreground">
+                      Microphone gain: {Math.round(micGain * 100)}%
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={3}
+                      step={0.1}
+                      value={micGain}
+                      onChange={(e) => setMicGain(Number(e.target.value))}
+                      className="mt-1 w-full"
+                    />
+                  </label>
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={pushToTalk}
+                        onChange={(e) => setPushToTalk(e.target.checked)}
+                      />
+                      Push to talk
+                    </label>
+                    <button
+                      onClick={() => setChoosingTalkKey(true)}
+                      disabled={!pushToTalk}
+                      className="rounded-lg bg-secondary/30 px-2 py-1 hover:bg-primary/20 disabled:opacity-50"
+                      title="Change the talk key"
+                    >
+                      {choosingTalkKey ? "Press a key..." : keyLabel(talkKey)}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            <button
+              onClick={toggleCamera}
+              disabled={!videoAvailable}
+              className={`p-2 rounded-lg ${
+                cameraStream
+                  ? "bg-primary/30 text-primary"
+                  : "bg-secondary/30 text-muted-foreground"
+              } hover:bg-primary/20 transition disabled:opacity-50`}
+              title={videoUnavailableReason ?? (cameraStream ? "Turn camera off" : "Turn camera on")}
+            >
+              {cameraStream ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={toggleScreenShare}
+              disabled={!videoAvailable}
+              className={`p-2 rounded-lg ${
+                screenStream
+                  ? "bg-primary/30 text-primary"
+                  : "bg-secondary/30 text-muted-foreground"
+              } hover:bg-primary/20 transition disabled:opacity-50`}
+              title={videoUnavailableReason ?? (screenStream ? "Stop sharing" : "Share your screen")}
+            >
+              {screenStream ? (
+                <ScreenShareOff className="w-5 h-5" />
+              ) : (
+                <ScreenShare className="w-5 h-5" />
+              )}
+            </button>
+            <select
+              value={transcriptionMode}
+              onChange={(e) => setTranscriptionMode(e.target.value as TranscriptionMode)}
+              className="rounded-lg input-style p-1 text-sm"
+              title="Where your speech is transcribed"
+            >
+              <option value="browser" disabled={!browserRecognitionSupported()}>
+                Browser captions
+              </option>
+              <option value="server">Server captions</option>
+            </select>
+            <select
+              value={speechLanguage}
+              onChange={(e) => changeSpeechLanguage(e.target.value)}
+              className="rounded-lg input-style p-1 text-sm"
+              title="Language you speak in"
+            >
+              {Array.from(new Set(SPEECH_LANGUAGES.map(({ language }) => language)), (language) => (
+                <optgroup key={language} label={language}>
+                  {SPEECH_LANGUAGES.filter((option) => option.language === language).map(
+                    ({ code, dialect }) => (
+                      <option key={code} value={code}>
+                        {dialect}
+                      </option>
+                    )
+                  )}
+                </optgroup>
+              ))}
+            </select>
+            <select
+              value={translationLanguage}
+              onChange={(e) => setTranslationLanguage(e.target.value as TranslationLanguage | "")}
+              className="rounded-lg input-style p-1 text-sm"
+              title="Translate captions and messages into"
+            >
+              <option value="">No translation</option>
+              {TRANSLATION_LANGUAGES.map(({ code, label }) => (
+                <option key={code} value={code}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {isModerator(myRole) && (
+              <button
+                onClick={toggleRoomLock}
+                className={`p-2 rounded-lg ${
+                  isLocked
+                    ? "bg-primary/30 text-primary"
+                    : "bg-secondary/30 text-muted-foreground"
+                } hover:bg-primary/20 transition`}
+                title={isLocked ? "Unlock room" : "Lock room against new joins"}
+              >
+                {isLocked ? <Lock className="w-5 h-5" /> : <Unlock className="w-5 h-5" />}
+              </button>
+            )}
+            {isModerator(myRole) && (
+              <select
+                value={mediaModeSetting}
+                onChange={(e) => changeMediaMode(e.target.value as MediaModeSetting)}
+                className="rounded-lg input-style p-1 text-sm"
+                title={`How audio is carried; now ${
+                  mediaMode === "sfu" ? "through the server" : "peer to peer"
+                }`}
+              >
+                <option value="auto">Auto audio routing</option>
+                <option value="mesh">Peer-to-peer audio</option>
+                <option value="sfu">Server-relayed audio</option>
+              </select>
+            )}
+            <button
+              onClick={() => setShowSearch(!showSearch)}
+              className={`p-2 rounded-lg ${
+                showSearch ? "bg-primary/30 text-primary" : "bg-secondary/30 text-muted-foreground"
+              } hover:bg-primary/20 transition`}
+              title="Search messages"
+            >
+              <Search className="w-5 h-5" />
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="p-2 rounded-lg bg-secondary/30 text-muted-foreground hover:bg-primary/20 transition"
+                title="Download transcript"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-48 glass-panel rounded-lg py-1 z-10">
+                  {TRANSCRIPT_OPTIONS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadTranscript(format)}
+                      className="w-full text-left px-4 py-2 text-sm hover:bg-primary/20"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {roomCode && isModerator(myRole) && (
+              <InviteLinkMenu
+                roomCode={roomCode}
+                canInviteCohosts={myRole === "host"}
+                onError={setNotice}
+              />
+            )}
             <button
               onClick={handleCopyRoomCode}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
@@ -1268,64 +2859,74 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
             >
               Leave Room
             </button>
+            {myRole === "host" && (
+              <button
+                onClick={endMeeting}
+                className="flex items-center gap-2 py-2 px-4 rounded-lg bg-red-600/80 text-white font-semibold hover:bg-red-600 transition"
+                title="End the meeting for everyone"
+              >
+                <PhoneOff className="w-4 h-4" />
+                End Meeting
+              </button>
+            )}
           </div>
         </div>
       </header>
+      {notice && (
+        <div className="container mx-auto px-6 pt-4">
+          <p className="glass-panel rounded-lg px-4 py-2 text-sm">{notice}</p>
+        </div>
+      )}
       <main className="container mx-auto p-6 flex gap-6 h-[calc(100vh-90px)] overflow-hidden">
         <div className="flex-1 glass-panel rounded-lg flex flex-col overflow-hidden">
+          <VideoGrid tiles={videoTiles} activeSpeakerId={activeSpeakerId} />
           <div className="flex-1 p-4 space-y-4 overflow-y-auto rounded-lg scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-transparent" 
-           style={{scrollbarColor: "rgba(128, 128, 128, 0.3) transparent"}}>
+           style={{scrollbarColor: "rgba(128, 128, 128, 0.3) transparent"}}
+           ref={messageListRef}
+           onScroll={handleMessageListScroll}>
+            {loadingOlder && (
+              <p className="text-center text-xs text-muted-foreground">
+                Loading earlier messages...
+              </p>
+            )}
             <div className="mb-4">
               {Object.entries(subtitles).map(([speakerId, transcript]) => (
                 <p key={speakerId} className="text-sm text-gray-500">
                   {participants.find((p) => p.id === speakerId)?.displayName ||
                     "Unknown"}
                   : {transcript}
+                  {subtitleTranslations[speakerId] && (
+                    <span className="ml-2 border-l border-secondary pl-2">
+                      {subtitleTranslations[speakerId]}
+                    </span>
+                  )}
                 </p>
               ))}
             </div>
-            {messages.map((msg) => (
-              <div
+            {roomCode && messages.map((msg) => (
+              <MessageBubble
                 key={msg.id}
-                className={`flex items-start gap-3 ${
-                  msg.user_id === userId ? "flex-row-reverse" : ""
-                }`}
-              >
-                <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
-                  <User className="w-4 h-4" />
-                </div>
-                <div
-                  className={`glass-panel rounded-lg p-3 max-w-[70%] ${
-                    msg.user_id === userId ? "bg-primary/20" : ""
-                  }`}
-                >
-                  <div className="flex items-baseline gap-2">
-                    <span className="font-medium text-sm">
-                      {msg.display_name}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(msg.created_at).toLocaleTimeString()}
-                    </span>
-                  </div>
-                  <p>{msg.content}</p>
-                </div>
-              </div>
+                message={msg}
+                roomCode={roomCode}
+                currentUserId={userId}
+                highlighted={msg.id === highlightedMessageId}
+                translation={translations[msg.id]}
+                onEdit={(content) => editMessage(msg.id, content)}
+                onDelete={() => deleteMessage(msg.id)}
+                onToggleReaction={(emoji) => toggleReaction(msg.id, emoji)}
+              />
             ))}
             <div ref={messagesEndRef} />
           </div>
-          {/* Audio elements for remote streams */}
-          {Object.entries(remoteStreams).map(([userId, stream]) => (
-            <audio
-              key={userId}
-              ref={(audio) => {
-                if (audio) {
-                  audio.srcObject = stream;
-                  console.log(`Playing stream for ${userId}`);
-                }
-              }}
-              autoPlay
-            />
-          ))}
+          {hasNewerMessages && (
+            <button
+              onClick={fetchMessages}
+              className="mx-auto -mt-12 mb-2 flex items-center gap-1 rounded-full bg-secondary/80 px-3 py-1 text-sm hover:bg-primary/30 transition"
+            >
+              <ArrowDown className="w-4 h-4" />
+              Jump to latest
+            </button>
+          )}
           <form
             onSubmit={handleSendMessage}
             className="border-t border-secondary p-4"
@@ -1348,26 +2949,218 @@ export function ChatRoom({ username, userId, onLeave }: ChatRoomProps) {
             </div>
           </form>
         </div>
+        {showSearch && roomCode && (
+          <SearchPanel
+            roomCode={roomCode}
+            participants={participants}
+            onClose={() => setShowSearch(false)}
+            onJump={jumpToMessage}
+          />
+        )}
         <div className="w-80 glass-panel rounded-lg p-6 min-h-[400px] overflow-y-auto">
+          {isModerator(myRole) && lobby.length > 0 && (
+            <>
+              <h2 className="font-semibold mb-4">Waiting to join ({lobby.length})</h2>
+              <div className="space-y-2 mb-6">
+                {lobby.map((w) => (
+                  <div key={w.id} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50">
+                    <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                      <User className="w-4 h-4 text-primary" />
+                    </div>
+                    <span
+                      className="flex-1 truncate"
+                      title={`Waiting since ${new Date(w.requestedAt).toLocaleTimeString()}`}
+                    >
+                      {w.displayName}
+                    </span>
+                    <div className="flex items-center gap-1 text-muted-foreground">
+                      <button
+                        onClick={() => decideLobby(w, true)}
+                        className="p-1 rounded hover:bg-green-500/20 hover:text-green-500"
+                        title="Admit"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => decideLobby(w, false)}
+                        className="p-1 rounded hover:bg-red-500/20 hover:text-red-500"
+                        title="Reject"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
           <h2 className="font-semibold mb-4">Participants</h2>
           <div className="space-y-2">
             {participants.map((p) => (
               <div
                 key={p.id}
-                className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50"
+                className={`flex items-center gap-3 p-2 rounded-lg bg-secondary/50 ${
+                  p.id === activeSpeakerId ? "ring-1 ring-green-400/70" : ""
+                }`}
               >
-                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                  <User className="w-4 h-4 text-primary" />
-                </div>
-                <span className="flex-1">
-                  {p.displayName} {p.id === userId && "(You)"}
+                <LevelRing monitor={levelMonitor} id={levelIdOf(p.id)} speaking={isSpeaking(p.id)}>
+                  <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                    <User className="w-4 h-4 text-primary" />
+                  </div>
+                </LevelRing>
+                <span className="flex-1 flex items-center gap-1 min-w-0">
+                  <span
+                    className="truncate"
+                    title={
+                      !p.isOnline && p.lastSeen
+                        ? `Last seen ${new Date(p.lastSeen).toLocaleString()}`
+                        : undefined
+                    }
+                  >
+                    {p.displayName} {p.id === userId && "(You)"}
+                  </span>
+                  {p.role === "host" && (
+                    <span title="Host">
+                      <Crown className="w-4 h-4 text-yellow-400" />
+                    </span>
+                  )}
+                  {p.role === "cohost" && (
+                    <span title="Co-host">
+                      <Shield className="w-4 h-4 text-primary" />
+                    </span>
+                  )}
                 </span>
                 {p.isOnline && (
                   <span className="inline-block w-2 h-2 rounded-full bg-green-500" title="Online"></span>
                 )}
+                {p.reconnecting && (
+                  <span
+                    className="inline-block w-2 h-2 rounded-full bg-yellow-400 animate-pulse"
+                    title="Reconnecting…"
+                  ></span>
+                )}
+                {p.id !== userId && hearsFrom(p.id) && (
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    <button
+                      onClick={() =>
+                        updateParticipantAudio(p.id, { muted: !participantAudio[p.id]?.muted })
+                      }
+                      className="p-1 rounded hover:bg-primary/20 hover:text-primary"
+                      title={participantAudio[p.id]?.muted ? "Unmute for me" : "Mute for me"}
+                    >
+                      {participantAudio[p.id]?.muted ? (
+                        <VolumeX className="w-4 h-4" />
+                      ) : (
+                        <Volume2 className="w-4 h-4" />
+                      )}
+                    </button>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={participantAudio[p.id]?.volume ?? 1}
+                      onChange={(e) => updateParticipantAudio(p.id, { volume: Number(e.target.value) })}
+                      className="w-14"
+                      title="Volume"
+                    />
+                  </div>
+                )}
+                {p.id !== userId && canModerate(myRole, p.role) && (
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    {p.muted ? (
+                      <button
+                        onClick={() => moderate("unmute_participant", p)}
+                        className="p-1 rounded text-primary hover:bg-primary/20"
+                        title="Unmute"
+                      >
+                        <Mic className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      p.isOnline && (
+                        <button
+                          onClick={() => moderate("mute_participant", p)}
+                          className="p-1 rounded hover:bg-primary/20 hover:text-primary"
+                          title="Mute"
+                        >
+                          <MicOff className="w-4 h-4" />
+                        </button>
+                      )
+                    )}
+                    <button
+                      onClick={() => moderate("remove_participant", p)}
+                      className="p-1 rounded hover:bg-primary/20 hover:text-primary"
+                      title="Remove from room"
+                    >
+                      <UserMinus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moderate("ban_participant", p)}
+                      className="p-1 rounded hover:bg-red-500/20 hover:text-red-500"
+                      title="Ban from room"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </button>
+                    {myRole === "host" && (
+                      <>
+                        <button
+                          onClick={() =>
+                            setParticipantRole(p, p.role === "cohost" ? "participant" : "cohost")
+                          }
+                          className="p-1 rounded hover:bg-primary/20 hover:text-primary"
+                          title={p.role === "cohost" ? "Remove co-host" : "Make co-host"}
+                        >
+                          {p.role === "cohost" ? (
+                            <ShieldOff className="w-4 h-4" />
+                          ) : (
+                            <Shield className="w-4 h-4" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() => moderate("transfer_host", p)}
+                          className="p-1 rounded hover:bg-yellow-400/20 hover:text-yellow-400"
+                          title="Make host"
+                        >
+                          <Crown className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
+          <h2 className="font-semibold mt-6 mb-4">Captions</h2>
+          <div className="space-y-2">
+            {captions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No captions yet</p>
+            )}
+            {captions.map((caption) => {
+              const translated = captionTranslations[caption.segmentId]?.text;
+              return (
+                <div
+                  key={caption.segmentId}
+                  className={`text-sm ${translated ? "grid grid-cols-2 gap-3" : ""}`}
+                >
+                  <p>
+                    <span className="text-xs text-muted-foreground mr-2">
+                      {new Date(caption.timestamp).toLocaleTimeString()}
+                    </span>
+                    <span className="font-medium">{caption.displayName}:</span>{" "}
+                    {caption.text}
+                  </p>
+                  {translated && (
+                    <p
+                      className="border-l border-secondary pl-3 text-muted-foreground"
+                      title="Machine translation"
+                    >
+                      {translated}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { Navigate, useLocation, useParams, useSearchParams } from "react-router-dom";
+import { UserCircle } from "lucide-react";
+import { apiFetch, type SessionUser } from "../lib/api";
+import { JoinRoom } from "./JoinRoom";
+
+interface InviteLandingProps {
+  user: SessionUser | null;
+  // A guest account was created for someone without one
+  onGuestSignIn: (userData: SessionUser, token: string) => void;
+  // Sign in with an existing account, then come back to `returnTo`
+  onSignIn: (returnTo: string) => void;
+  onBack: () => void;
+  onJoin: (roomCode: string) => void;
+}
+
+/**
+ * Where invite links (/join/:roomCode?token=...) land. Signed-in users
+ * join straight away; anyone else with a signed link only picks a name.
+ */
+export function InviteLanding({ user, onGuestSignIn, onSignIn, onBack, onJoin }: InviteLandingProps) {
+  const { roomCode = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const inviteToken = searchParams.get("token") ?? undefined;
+  const returnTo = location.pathname + location.search;
+
+  const [displayName, setDisplayName] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  if (user) {
+    return (
+      <JoinRoom
+        onBack={onBack}
+        onJoin={onJoin}
+        initialCode={roomCode.toUpperCase()}
+        inviteToken={inviteToken}
+      />
+    );
+  }
+
+  // Guests need a signed link; plain room links need an account
+  if (!inviteToken) {
+    return <Navigate to="/" replace state={{ from: returnTo }} />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (displayName.trim().length < 3) {
+      setError("Display name must be at least 3 characters long");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      const response = await apiFetch("/api/auth/guest", {
+        method: "POST",
+        body: JSON.stringify({ displayName: displayName.trim(), inviteToken }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Failed to join");
+      }
+      onGuestSignIn(data.user, data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="glass-panel rounded-xl w-full max-w-md p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <UserCircle className="w-16 h-16 mx-auto text-primary" />
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            You're invited
+          </h1>
+          <p className="text-muted-foreground">
+            Pick a name to join room <span className="font-mono">{roomCode.toUpperCase()}</span>
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="displayName" className="text-sm text-muted-foreground">
+              Display Name
+            </label>
+            <input
+              id="displayName"
+              type="text"
+              autoComplete="nickname"
+              value={displayName}
+              onChange={(e) => {
+                setDisplayName(e.target.value);
+                setError("");
+              }}
+              maxLength={30}
+              className="w-full rounded-lg input-style p-2"
+              placeholder="How others will see you"
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          <button
+            type="submit"
+            className="button-gradient w-full py-3 px-4 rounded-lg text-white font-medium"
+            disabled={loading}
+          >
+            {loading ? "Joining..." : "Join room"}
+          </button>
+        </form>
+
+        <p className="text-center text-sm text-muted-foreground">
+          Have an account?{" "}
+          <button
+            type="button"
+            onClick={() => onSignIn(returnTo)}
+            className="text-primary hover:underline"
+          >
+            Sign in
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Copy, Link } from "lucide-react";
+import { apiFetch } from "../lib/api";
+import type { InviteLink, InviteRole } from "../../shared/invites";
+
+interface InviteLinkMenuProps {
+  roomCode: string;
+  // Only the host may hand out co-host links
+  canInviteCohosts: boolean;
+  onError: (message: string) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { seconds: 60 * 60, label: "1 hour" },
+  { seconds: 24 * 60 * 60, label: "1 day" },
+  { seconds: 7 * 24 * 60 * 60, label: "7 days" },
+];
+
+/**
+ * Lets hosts and co-hosts create signed invite links that skip the
+ * passphrase and the lobby, with a QR code to scan from a phone
+ */
+export function InviteLinkMenu({ roomCode, canInviteCohosts, onError }: InviteLinkMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState<InviteRole>("participant");
+  const [expiresInSeconds, setExpiresInSeconds] = useState(EXPIRY_OPTIONS[1].seconds);
+  // Empty for no limit
+  const [maxUses, setMaxUses] = useState("");
+  const [link, setLink] = useState<InviteLink | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const createLink = async () => {
+    try {
+      const res = await apiFetch(`/api/rooms/${roomCode}/invites`, {
+        method: "POST",
+        body: JSON.stringify({
+          role,
+          expiresInSeconds,
+          maxUses: maxUses ? Number(maxUses) : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Could not create an invite link");
+      }
+      setLink(data);
+      setCopied(false);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy invite link", err);
+      onError("Could not copy the invite link");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 rounded-lg bg-secondary/30 text-muted-foreground hover:bg-primary/20 transition"
+        title="Invite link"
+      >
+        <Link className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 glass-panel rounded-lg p-4 space-y-3 z-10 text-sm">
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">Expires after</span>
+            <select
+              value={expiresInSeconds}
+              onChange={(e) => setExpiresInSeconds(Number(e.target.value))}
+              className="rounded input-style p-1"
+            >
+              {EXPIRY_OPTIONS.map(({ seconds, label }) => (
+                <option key={seconds} value={seconds}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">Max uses</span>
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              placeholder="No limit"
+              className="w-24 rounded input-style p-1"
+            />
+          </label>
+          {canInviteCohosts && (
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">Join as</span>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as InviteRole)}
+                className="rounded input-style p-1"
+              >
+                <option value="participant">Participant</option>
+                <option value="cohost">Co-host</option>
+              </select>
+            </label>
+          )}
+          <button
+            onClick={createLink}
+            className="button-gradient w-full py-2 rounded-lg text-white font-medium"
+          >
+            Create link
+          </button>
+          {link && (
+            <div className="space-y-2 text-center">
+              <img src={link.qrCode} alt="Invite QR code" className="mx-auto w-40 h-40 rounded" />
+              <button
+                onClick={copyLink}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-secondary/30 hover:bg-primary/20"
+              >
+                <Copy className="w-4 h-4" />
+                {copied ? "Copied!" : "Copy link"}
+              </button>
+              <p className="text-xs text-muted-foreground">
+                Expires {new Date(link.expiresAt).toLocaleString()}
+                {link.maxUses !== null && ` · ${link.maxUses} ${link.maxUses === 1 ? "use" : "uses"}`}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,80 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import QrScanner from "qr-scanner";
+import { io, type Socket } from "socket.io-client";
+import { Loader2 } from "lucide-react";
+import { apiFetch, BACKEND_URL, getToken } from "../lib/api";
+import { parseInviteUrl } from "../../shared/invites";
+import type {
+  ClientToServerEvents,
+  LobbyDecision,
+  ServerToClientEvents,
+} from "../../shared/socketEvents";
 
 interface JoinRoomProps {
   onBack: () => void;
   onJoin: (roomCode: string) => void;
+  // Joined straight away, e.g. from an invite link
+  initialCode?: string;
+  inviteToken?: string;
 }
 
-export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
-  const [roomCode, setRoomCode] = useState("");
+type LobbySocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// What POST /api/rooms/join did with us
+type JoinResult =
+  | { status: "joined" }
+  | { status: "waiting" }
+  | { status: "refused"; error: string; passphraseRequired: boolean; inviteInvalid: boolean };
+
+async function requestJoin(
+  roomCode: string,
+  { passphrase, inviteToken }: { passphrase: string; inviteToken?: string }
+): Promise<JoinResult> {
+  try {
+    const res = await apiFetch("/api/rooms/join", {
+      method: "POST",
+      body: JSON.stringify({ roomCode, passphrase: passphrase || undefined, inviteToken }),
+    });
+    const data = await res.json();
+    if (res.status === 202) return { status: "waiting" };
+    if (res.ok) return { status: "joined" };
+    return {
+      status: "refused",
+      error: data.error || "Could not join the room.",
+      passphraseRequired: data.passphraseRequired === true,
+      inviteInvalid: data.inviteInvalid === true,
+    };
+  } catch (error) {
+    console.error("Join room error:", error);
+    return {
+      status: "refused",
+      error: "Could not join the room.",
+      passphraseRequired: false,
+      inviteInvalid: false,
+    };
+  }
+}
+
+export function JoinRoom({ onBack, onJoin, initialCode, inviteToken }: JoinRoomProps) {
+  const [roomCode, setRoomCode] = useState(initialCode ?? "");
   const [error, setError] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  // Dropped once the server turns it down, so the code alone can be tried
+  const [invite, setInvite] = useState(inviteToken);
+  // Room whose lobby we are waiting in for a host
+  const [waitingFor, setWaitingFor] = useState<string | null>(null);
+  // Read by the waiting socket, which outlives renders
+  const passphraseRef = useRef(passphrase);
+  passphraseRef.current = passphrase;
+  const inviteRef = useRef(invite);
+  inviteRef.current = invite;
+  const onJoinRef = useRef(onJoin);
+  onJoinRef.current = onJoin;
 
   const validateRoomCode = async (code: string): Promise<boolean> => {
     try {
-      const res = await fetch(`${import.meta.env.VITE_BACKEND_URL}/api/rooms/${code}`);
+      const res = await apiFetch(`/api/rooms/${code}`);
       if (!res.ok) {
         setError("Room not found.");
         return false;
@@ -23,6 +85,7 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
         setError("Meeting is finished.");
         return false;
       }
+      if (data.has_passphrase) setNeedsPassphrase(true);
       return true;
     } catch (error) {
       console.error("Room validation error:", error);
@@ -31,17 +94,91 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
     }
   };  
 
+  const enterRoom = async (code: string, inviteToken = invite) => {
+    if (!(await validateRoomCode(code))) return;
+    const result = await requestJoin(code, { passphrase, inviteToken });
+    if (result.status === "joined") {
+      onJoin(code);
+    } else if (result.status === "waiting") {
+      setWaitingFor(code);
+    } else {
+      if (result.passphraseRequired) setNeedsPassphrase(true);
+      if (result.inviteInvalid) setInvite(undefined);
+      setError(result.error);
+    }
+  };
+  const enterRoomRef = useRef(enterRoom);
+  enterRoomRef.current = enterRoom;
+
+  useEffect(() => {
+    if (initialCode) enterRoomRef.current(initialCode);
+  }, [initialCode]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (roomCode.trim().length !== 6) {
       setError("Please enter a valid room code");
       return;
     }
-    const code = roomCode.toUpperCase();
-    const isValid = await validateRoomCode(code);
-    if (isValid) {
-      onJoin(code);
-    }
+    await enterRoom(roomCode.toUpperCase());
+  };
+
+  // Waits over a socket of its own for a host to decide. Each (re)connect
+  // asks to join again, since a dropped socket gives up its place.
+  useEffect(() => {
+    if (!waitingFor) return;
+    const code = waitingFor;
+    const socket: LobbySocket = io(BACKEND_URL, { auth: { token: getToken() } });
+
+    const stopWaiting = (message: string) => {
+      setError(message);
+      setWaitingFor(null);
+    };
+
+    const handleConnect = async () => {
+      const result = await requestJoin(code, {
+        passphrase: passphraseRef.current,
+        inviteToken: inviteRef.current,
+      });
+      if (result.status === "joined") {
+        onJoinRef.current(code);
+        return;
+      }
+      if (result.status === "refused") {
+        stopWaiting(result.error);
+        return;
+      }
+      socket.emit("wait_in_lobby", { roomCode: code }, (response) => {
+        if (!response.ok) {
+          stopWaiting(response.error.message);
+        } else if (response.data === "admitted") {
+          onJoinRef.current(code);
+        }
+      });
+    };
+
+    const handleDecision = (data: LobbyDecision) => {
+      if (data.roomCode !== code) return;
+      if (data.admitted) {
+        onJoinRef.current(code);
+      } else {
+        stopWaiting("The host did not let you in.");
+      }
+    };
+
+    socket.on("connect", handleConnect);
+    socket.on("lobby_decision", handleDecision);
+
+    return () => {
+      socket.off("connect", handleConnect);
+      socket.off("lobby_decision", handleDecision);
+      socket.disconnect();
+    };
+  }, [waitingFor]);
+
+  const cancelWaiting = () => {
+    // Disconnecting the waiting socket gives up our place in the lobby
+    setWaitingFor(null);
   };
 
   const handlePaste = async (e: React.ClipboardEvent<HTMLDivElement>) => {
@@ -58,12 +195,16 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
     if (file) {
       try {
         const scannedCode = await QrScanner.scanImage(file);
+        // Room QR codes hold a link; older ones only the code
+        const link = parseInviteUrl(scannedCode);
         const code = scannedCode.toUpperCase();
-        if (code && code.length === 6) {
-          const isValid = await validateRoomCode(code);
-          if (isValid) {
-            onJoin(code);
-          }
+        if (link) {
+          setRoomCode(link.roomCode);
+          setInvite(link.token);
+          await enterRoom(link.roomCode, link.token);
+        } else if (code && code.length === 6) {
+          setRoomCode(code);
+          await enterRoom(code);
         } else {
           setError("Scanned QR code does not represent a valid room code.");
         }
@@ -76,6 +217,32 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
     }
   };
 
+  if (waitingFor) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="glass-panel rounded-xl w-full max-w-md p-8 space-y-6 text-center">
+          <Loader2 className="w-10 h-10 mx-auto text-primary animate-spin" />
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Waiting for host
+            </h1>
+            <p className="text-muted-foreground">
+              You will join <span className="font-mono">{waitingFor}</span> as soon as a host
+              lets you in.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={cancelWaiting}
+            className="w-full py-2 px-4 rounded-lg border border-secondary hover:bg-secondary/50 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="glass-panel rounded-xl w-full max-w-md p-8 space-y-6">
@@ -99,6 +266,8 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
               value={roomCode}
               onChange={(e) => {
                 setRoomCode(e.target.value.toUpperCase());
+                setNeedsPassphrase(false);
+                setInvite(undefined);
                 setError("");
               }}
               maxLength={6}
@@ -108,6 +277,27 @@ export function JoinRoom({ onBack, onJoin }: JoinRoomProps) {
             {error && <p className="text-sm text-red-500">{error}</p>}
           </div>
 
+          {needsPassphrase && (
+            <div className="space-y-2">
+              <label htmlFor="passphrase" className="text-sm text-muted-foreground">
+                Passphrase
+              </label>
+              <input
+                id="passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => {
+                  setPassphrase(e.target.value);
+                  setError("");
+                }}
+                maxLength={128}
+                autoComplete="off"
+                className="w-full rounded-lg input-style p-2"
+                placeholder="Ask the host for it"
+              />
+            </div>
+          )}
+
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
               <div className="w-full border-t border-secondary"></div>
@@ -0,0 +1,46 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import type { AudioLevelMonitor } from "../lib/audioLevels";
+
+interface LevelRingProps {
+  // Measures `id`'s audio, when we receive it
+  monitor: AudioLevelMonitor | null;
+  id: string;
+  speaking: boolean;
+  children: ReactNode;
+}
+
+/**
+ * A ring around an avatar while its owner speaks, swelling with their
+ * level. Without a measured level, as for someone we only hear about over
+ * the socket, it pulses instead.
+ */
+export function LevelRing({ monitor, id, speaking, children }: LevelRingProps) {
+  const ringRef = useRef<HTMLDivElement>(null);
+
+  // Drawn outside React so the level doesn't re-render the list every frame
+  useEffect(() => {
+    const ring = ringRef.current;
+    if (!ring || !monitor?.measures(id) || !speaking) return;
+
+    let frame = requestAnimationFrame(function draw() {
+      ring.style.transform = `scale(${1 + monitor.level(id) * 0.4})`;
+      frame = requestAnimationFrame(draw);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      ring.style.transform = "";
+    };
+  }, [monitor, id, speaking]);
+
+  return (
+    <div className="relative">
+      <div
+        ref={ringRef}
+        className={`absolute -inset-1 rounded-full border-2 border-green-400 transition-opacity ${
+          speaking ? "opacity-100" : "opacity-0"
+        } ${speaking && !monitor?.measures(id) ? "animate-pulse" : ""}`}
+      />
+      {children}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 import React, { useState } from "react";
 import { UserCircle } from "lucide-react";
+import { apiFetch, type SessionUser } from "../lib/api";
 
 interface LoginProps {
-  // onLogin now expects a full user object with id and displayName.
-  onLogin: (userData: { id: string; displayName: string }) => void;
+  // onLogin receives the signed-in user and their session token.
+  onLogin: (userData: SessionUser, token: string) => void;
 }
 
+type Mode = "login" | "register";
+
 export function Login({ onLogin }: LoginProps) {
+  const [mode, setMode] = useState<Mode>("login");
   const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -17,49 +22,56 @@ export function Login({ onLogin }: LoginProps) {
       setError("Display name must be at least 3 characters long");
       return;
     }
+    if (mode === "register" && password.length < 8) {
+      setError("Password must be at least 8 characters long");
+      return;
+    }
 
     setLoading(true);
     setError("");
 
     try {
-      const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/api/auth/register`, {
+      const response = await apiFetch(`/api/auth/${mode}`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ displayName }),
+        body: JSON.stringify({ displayName: displayName.trim(), password }),
       });
       const data = await response.json();
 
       if (!response.ok) {
-        // If the error indicates the display name is already taken and an id is returned,
-        // assume the user already exists and proceed.
-        if (data.error === "Display name already taken" && data.id) {
-          const userObj = { id: data.id, displayName };
-          localStorage.setItem("user", JSON.stringify(userObj));
-          onLogin(userObj);
-          return;
-        }
-        throw new Error(data.error || "Failed to register");
+        throw new Error(
+          typeof data.error === "string"
+            ? data.error
+            : mode === "login"
+            ? "Failed to sign in"
+            : "Failed to register"
+        );
       }
-      // On success, assume the backend returns an object with { id, displayName }
-      localStorage.setItem("user", JSON.stringify(data));
-      onLogin(data);
-    } catch (err: any) {
-      setError(err.message);
+      // The backend returns { user: { id, displayName }, token }
+      onLogin(data.user, data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   };
 
+  const switchMode = () => {
+    setMode(mode === "login" ? "register" : "login");
+    setError("");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="glass-panel rounded-xl w-full max-w-md p-8 space-y-6">
         <div className="text-center space-y-2">
           <UserCircle className="w-16 h-16 mx-auto text-primary" />
           <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-            Welcome
+            {mode === "login" ? "Welcome back" : "Create an account"}
           </h1>
           <p className="text-muted-foreground">
-            Enter your display name to continue
+            {mode === "login"
+              ? "Sign in with your display name and password"
+              : "Pick a display name and password to continue"}
           </p>
         </div>
 
@@ -74,6 +86,7 @@ export function Login({ onLogin }: LoginProps) {
             <input
               id="displayName"
               type="text"
+              autoComplete="username"
               value={displayName}
               onChange={(e) => {
                 setDisplayName(e.target.value);
@@ -82,6 +95,23 @@ export function Login({ onLogin }: LoginProps) {
               className="w-full rounded-lg input-style p-2"
               placeholder="Enter your display name"
             />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="password" className="text-sm text-muted-foreground">
+              Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete={mode === "login" ? "current-password" : "new-password"}
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                setError("");
+              }}
+              className="w-full rounded-lg input-style p-2"
+              placeholder="Enter your password"
+            />
             {error && <p className="text-sm text-red-500">{error}</p>}
           </div>
 
@@ -90,9 +120,22 @@ export function Login({ onLogin }: LoginProps) {
             className="button-gradient w-full py-3 px-4 rounded-lg text-white font-medium"
             disabled={loading}
           >
-            {loading ? "Registering..." : "Continue"}
+            {loading
+              ? mode === "login"
+                ? "Signing in..."
+                : "Registering..."
+              : mode === "login"
+              ? "Sign in"
+              : "Create account"}
           </button>
         </form>
+
+        <p className="text-center text-sm text-muted-foreground">
+          {mode === "login" ? "New here?" : "Already have an account?"}{" "}
+          <button type="button" onClick={switchMode} className="text-primary hover:underline">
+            {mode === "login" ? "Create an account" : "Sign in"}
+          </button>
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,306 @@
+import React, { useState } from "react";
+import { Check, Mic, Pencil, SmilePlus, Trash2, User, X } from "lucide-react";
+import { apiFetch } from "../lib/api";
+import type {
+  MessageKind,
+  ReactionSummary,
+  SpeechMetadata,
+} from "../../shared/socketEvents";
+
+export interface Message {
+  id: string;
+  user_id: string;
+  // Empty once the message is deleted
+  content: string;
+  created_at: string;
+  display_name: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reactions?: ReactionSummary[];
+  kind?: MessageKind;
+  speech?: SpeechMetadata | null;
+}
+
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "👏"];
+
+// Recognizer confidence below this is flagged as a possible mistake
+const LOW_CONFIDENCE = 0.6;
+
+const LOW_CONFIDENCE_CLASS = "underline decoration-wavy decoration-yellow-500";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Speech text with doubtful words (or the whole utterance, when there are
+// no word timings) marked
+function SpeechText({ content, speech }: { content: string; speech: SpeechMetadata }) {
+  const words = speech.words?.filter((word) => word.confidence !== undefined);
+  if (words && words.length > 0) {
+    return (
+      <p>
+        {speech.words!.map((word, index) => {
+          const low = word.confidence !== undefined && word.confidence < LOW_CONFIDENCE;
+          return (
+            <React.Fragment key={index}>
+              {index > 0 && " "}
+              <span
+                className={low ? LOW_CONFIDENCE_CLASS : undefined}
+                title={word.confidence !== undefined ? percent(word.confidence) : undefined}
+              >
+                {word.word}
+              </span>
+            </React.Fragment>
+          );
+        })}
+      </p>
+    );
+  }
+
+  const low = speech.confidence !== undefined && speech.confidence < LOW_CONFIDENCE;
+  return <p className={low ? LOW_CONFIDENCE_CLASS : undefined}>{content}</p>;
+}
+
+interface MessageBubbleProps {
+  message: Message;
+  roomCode: string;
+  currentUserId: string;
+  highlighted: boolean;
+  // The message in the reader's language, when it reads differently
+  translation?: string;
+  onEdit: (content: string) => void;
+  onDelete: () => void;
+  onToggleReaction: (emoji: string) => void;
+}
+
+export function MessageBubble({
+  message,
+  roomCode,
+  currentUserId,
+  highlighted,
+  translation,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+}: MessageBubbleProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [showPicker, setShowPicker] = useState(false);
+  const [history, setHistory] = useState<
+    { previous_content: string; edited_at: string }[] | null
+  >(null);
+
+  const isOwn = message.user_id === currentUserId;
+  const isDeleted = Boolean(message.deleted_at);
+  const speech = message.kind === "speech_final" ? message.speech : null;
+  // Optimistic messages have no stored row to change yet
+  const isSaved = !message.id.startsWith("temp-");
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (content && content !== message.content) {
+      onEdit(content);
+    }
+    setEditing(false);
+  };
+
+  // The "edited" marker toggles the list of earlier versions
+  const toggleHistory = async () => {
+    if (history) {
+      setHistory(null);
+      return;
+    }
+    try {
+      const res = await apiFetch(`/api/messages/${roomCode}/${message.id}/edits`);
+      if (!res.ok) throw new Error(`Failed to fetch edits: ${res.status}`);
+      setHistory(await res.json());
+    } catch (error) {
+      console.error("Error fetching message edits:", error);
+    }
+  };
+
+  if (message.kind === "system") {
+    return (
+      <p
+        id={`message-${message.id}`}
+        className="text-center text-xs text-muted-foreground"
+      >
+        {message.content} · {new Date(message.created_at).toLocaleTimeString()}
+      </p>
+    );
+  }
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`group flex items-start gap-3 ${isOwn ? "flex-row-reverse" : ""}`}
+    >
+      <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
+        <User className="w-4 h-4" />
+      </div>
+      <div className={`max-w-[70%] flex flex-col ${isOwn ? "items-end" : "items-start"}`}>
+        <div
+          className={`glass-panel rounded-lg p-3 transition ${
+            isOwn ? "bg-primary/20" : ""
+          } ${speech ? "border border-dashed border-primary/40" : ""} ${
+            highlighted ? "ring-2 ring-primary" : ""
+          }`}
+        >
+          <div className="flex items-baseline gap-2">
+            <span className="font-medium text-sm">{message.display_name}</span>
+            <span className="text-xs text-muted-foreground">
+              {new Date(message.created_at).toLocaleTimeString()}
+            </span>
+            {speech && (
+              <span
+                className="flex items-center gap-1 text-xs text-muted-foreground"
+                title={[
+                  "Transcribed speech",
+                  speech.confidence !== undefined &&
+                    `confidence ${percent(speech.confidence)}`,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+              >
+                <Mic className="w-3 h-3" />
+                {speech.language}
+              </span>
+            )}
+            {message.edited_at && !isDeleted && (
+              <button
+                onClick={toggleHistory}
+                className="text-xs text-muted-foreground hover:underline"
+                title={`Edited ${new Date(message.edited_at).toLocaleString()}`}
+              >
+                (edited)
+              </button>
+            )}
+          </div>
+
+          {isDeleted ? (
+            <p className="italic text-muted-foreground">This message was deleted</p>
+          ) : editing ? (
+            <form onSubmit={saveEdit} className="flex items-center gap-2 mt-1">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setEditing(false)}
+                className="flex-1 rounded-lg input-style p-1 text-sm"
+                maxLength={1000}
+                autoFocus
+              />
+              <button type="submit" className="p-1 rounded hover:bg-primary/20" title="Save">
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="p-1 rounded hover:bg-primary/20"
+                title="Cancel"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </form>
+          ) : translation ? (
+            <div className="grid grid-cols-2 gap-3">
+              {speech ? (
+                <SpeechText content={message.content} speech={speech} />
+              ) : (
+                <p>{message.content}</p>
+              )}
+              <p
+                className="border-l border-secondary pl-3 text-muted-foreground"
+                title="Machine translation"
+              >
+                {translation}
+              </p>
+            </div>
+          ) : speech ? (
+            <SpeechText content={message.content} speech={speech} />
+          ) : (
+            <p>{message.content}</p>
+          )}
+
+          {history && (
+            <ul className="mt-2 border-t border-secondary pt-2 space-y-1 text-xs text-muted-foreground">
+              {history.map((edit) => (
+                <li key={edit.edited_at}>
+                  <span>{new Date(edit.edited_at).toLocaleTimeString()}: </span>
+                  <span className="line-through">{edit.previous_content}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {!isDeleted && (
+          <div className="flex flex-wrap items-center gap-1 mt-1">
+            {message.reactions?.map((reaction) => (
+              <button
+                key={reaction.emoji}
+                onClick={() => onToggleReaction(reaction.emoji)}
+                className={`rounded-full px-2 py-0.5 text-xs ${
+                  reaction.userIds.includes(currentUserId)
+                    ? "bg-primary/30"
+                    : "bg-secondary/50"
+                } hover:bg-primary/20`}
+              >
+                {reaction.emoji} {reaction.userIds.length}
+              </button>
+            ))}
+
+            {isSaved && (
+              <div className="relative opacity-0 group-hover:opacity-100 transition flex gap-1">
+                <button
+                  onClick={() => setShowPicker(!showPicker)}
+                  className="p-1 rounded text-muted-foreground hover:bg-primary/20"
+                  title="Add reaction"
+                >
+                  <SmilePlus className="w-4 h-4" />
+                </button>
+                {isOwn && !editing && (
+                  <>
+                    <button
+                      onClick={startEditing}
+                      className="p-1 rounded text-muted-foreground hover:bg-primary/20"
+                      title="Edit message"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={onDelete}
+                      className="p-1 rounded text-muted-foreground hover:bg-red-500/20 hover:text-red-500"
+                      title="Delete message"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                {showPicker && (
+                  <div className="absolute bottom-full mb-1 flex gap-1 glass-panel rounded-lg p-1 z-10">
+                    {REACTION_EMOJIS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        onClick={() => {
+                          onToggleReaction(emoji);
+                          setShowPicker(false);
+                        }}
+                        className="p-1 rounded hover:bg-primary/20"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,31 @@
-// import React from 'react';
-import { Plus, Users } from "lucide-react";
+import { useState } from "react";
+import { ChevronDown, ChevronUp, LogOut, Plus, Shield, Users } from "lucide-react";
+
+// Who may get into a new room besides its host
+export interface CreateRoomOptions {
+  passphrase?: string;
+  // Joiners wait until a host lets them in
+  lobby: boolean;
+}
 
 interface RoomOptionsProps {
-  onCreateRoom: () => Promise<void>;
+  onCreateRoom: (options: CreateRoomOptions) => Promise<void>;
   onJoinRoom: () => Promise<void>;
+  onLogout: () => void;
 }
 
-export function RoomOptions({ onCreateRoom, onJoinRoom }: RoomOptionsProps) {
+export function RoomOptions({ onCreateRoom, onJoinRoom, onLogout }: RoomOptionsProps) {
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [lobby, setLobby] = useState(false);
+
+  const passphraseTooShort = passphrase.length > 0 && passphrase.length < 4;
+
+  const createRoom = () => {
+    if (passphraseTooShort) return;
+    onCreateRoom({ passphrase: passphrase || undefined, lobby });
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="glass-panel rounded-xl w-full max-w-md p-8 space-y-6">
@@ -15,8 +34,9 @@ export function RoomOptions({ onCreateRoom, onJoinRoom }: RoomOptionsProps) {
         </h1>
         <div className="grid gap-4">
           <button
-            onClick={onCreateRoom}
-            className="glass-panel hover:bg-secondary/50 transition-colors p-6 rounded-xl flex items-center gap-4"
+            onClick={createRoom}
+            disabled={passphraseTooShort}
+            className="glass-panel hover:bg-secondary/50 transition-colors p-6 rounded-xl flex items-center gap-4 disabled:opacity-50"
           >
             <div className="p-3 rounded-full bg-primary/20">
               <Plus className="w-6 h-6 text-primary" />
@@ -28,6 +48,47 @@ export function RoomOptions({ onCreateRoom, onJoinRoom }: RoomOptionsProps) {
               </p>
             </div>
           </button>
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowPrivacy((show) => !show)}
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+            >
+              <Shield className="w-4 h-4" />
+              Privacy
+              {showPrivacy ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+            {showPrivacy && (
+              <div className="mt-3 space-y-3">
+                <div className="space-y-1">
+                  <label htmlFor="passphrase" className="text-sm text-muted-foreground">
+                    Passphrase (optional)
+                  </label>
+                  <input
+                    id="passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    maxLength={128}
+                    autoComplete="new-password"
+                    className="w-full rounded-lg input-style p-2"
+                    placeholder="Anyone joining must enter it"
+                  />
+                  {passphraseTooShort && (
+                    <p className="text-sm text-red-500">Use at least 4 characters</p>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={lobby}
+                    onChange={(e) => setLobby(e.target.checked)}
+                  />
+                  Let people in from a lobby
+                </label>
+              </div>
+            )}
+          </div>
           <button
             onClick={onJoinRoom}
             className="glass-panel hover:bg-secondary/50 transition-colors p-6 rounded-xl flex items-center gap-4"
@@ -43,6 +104,13 @@ export function RoomOptions({ onCreateRoom, onJoinRoom }: RoomOptionsProps) {
             </div>
           </button>
         </div>
+        <button
+          onClick={onLogout}
+          className="w-full flex items-center justify-center gap-2 py-2 px-4 rounded-lg border border-secondary hover:bg-secondary/50 transition-colors text-sm text-muted-foreground"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { Search, X } from "lucide-react";
+import { apiFetch } from "../lib/api";
+import type { SearchResponse, SearchResult } from "../../shared/search";
+
+interface SearchPanelProps {
+  roomCode: string;
+  participants: { id: string; displayName: string }[];
+  onClose: () => void;
+  // Called when a result from this room is picked
+  onJump: (result: SearchResult) => void;
+}
+
+type Scope = "room" | "all";
+
+export function SearchPanel({ roomCode, participants, onClose, onJump }: SearchPanelProps) {
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState<Scope>("room");
+  const [speakerId, setSpeakerId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    const params = new URLSearchParams({ q: query.trim() });
+    if (scope === "room") params.set("roomCode", roomCode);
+    if (speakerId) params.set("speakerId", speakerId);
+    // datetime-local values are local time; the API wants ISO timestamps
+    if (from) params.set("from", new Date(from).toISOString());
+    if (to) params.set("to", new Date(to).toISOString());
+
+    setLoading(true);
+    setError("");
+    try {
+      const res = await apiFetch(`/api/search?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Search failed");
+      }
+      setResults((data as SearchResponse).results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setResults(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-80 glass-panel rounded-lg p-6 flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold">Search</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-primary/20"
+          title="Close search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSearch} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="flex-1 rounded-lg input-style p-2 text-sm"
+            placeholder='Words, "a phrase" or prefix*'
+          />
+          <button
+            type="submit"
+            className="button-gradient p-2 rounded-lg text-white"
+            disabled={loading}
+            title="Search"
+          >
+            <Search className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex gap-2 text-sm">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as Scope)}
+            className="flex-1 rounded-lg input-style p-1"
+          >
+            <option value="room">This room</option>
+            <option value="all">All my rooms</option>
+          </select>
+          <select
+            value={speakerId}
+            onChange={(e) => setSpeakerId(e.target.value)}
+            className="flex-1 rounded-lg input-style p-1"
+          >
+            <option value="">Anyone</option>
+            {participants.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          From
+          <input
+            type="datetime-local"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="flex-1 rounded-lg input-style p-1"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          To
+          <input
+            type="datetime-local"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="flex-1 rounded-lg input-style p-1"
+          />
+        </label>
+      </form>
+
+      {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto mt-4 space-y-2">
+        {results?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No matches.</p>
+        )}
+        {results?.map((result) => {
+          const inThisRoom = result.room_code === roomCode;
+          return (
+            <button
+              key={result.id}
+              onClick={() => inThisRoom && onJump(result)}
+              disabled={!inThisRoom}
+              className={`w-full text-left rounded-lg p-2 bg-secondary/30 ${
+                inThisRoom ? "hover:bg-primary/20" : "cursor-default"
+              }`}
+            >
+              <div className="flex items-baseline gap-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{result.display_name}</span>
+                <span>{new Date(result.created_at).toLocaleString()}</span>
+                {!inThisRoom && <span>in {result.room_code}</span>}
+              </div>
+              <p className="text-sm">
+                {result.snippet.map((part, index) =>
+                  part.match ? (
+                    <mark key={index} className="bg-primary/40 text-inherit rounded px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { MonitorUp, Pin, PinOff, User } from "lucide-react";
+
+export interface VideoTile {
+  // Unique among the tiles, e.g. "camera:<connectionId>"
+  id: string;
+  userId: string;
+  label: string;
+  stream: MediaStream;
+  kind: "camera" | "screen";
+  // Live caption shown over the video
+  caption?: string;
+  // Flipped horizontally, as people expect to see their own camera
+  mirrored?: boolean;
+}
+
+interface VideoGridProps {
+  tiles: VideoTile[];
+  // Their camera tile is outlined
+  activeSpeakerId?: string | null;
+}
+
+const hasVideo = (stream: MediaStream) =>
+  stream.getVideoTracks().some((track) => track.readyState === "live");
+
+// Re-renders whenever a track is added to or removed from any of the streams
+function useTrackChanges(streams: MediaStream[]) {
+  const [, setVersion] = useState(0);
+  useEffect(() => {
+    const bump = () => setVersion((version) => version + 1);
+    streams.forEach((stream) => {
+      stream.addEventListener("addtrack", bump);
+      stream.addEventListener("removetrack", bump);
+      stream.getTracks().forEach((track) => track.addEventListener("ended", bump));
+    });
+    return () => {
+      streams.forEach((stream) => {
+        stream.removeEventListener("addtrack", bump);
+        stream.removeEventListener("removetrack", bump);
+        stream.getTracks().forEach((track) => track.removeEventListener("ended", bump));
+      });
+    };
+  }, [streams]);
+}
+
+function VideoTileView({
+  tile,
+  large,
+  pinned,
+  speaking,
+  onTogglePin,
+}: {
+  tile: VideoTile;
+  large: boolean;
+  pinned: boolean;
+  speaking: boolean;
+  onTogglePin: () => void;
+}) {
+  return (
+    <div
+      className={`relative rounded-lg overflow-hidden bg-black group ${
+        large ? "w-full h-full" : "aspect-video"
+      } ${speaking ? "ring-2 ring-green-400" : ""}`}
+    >
+      <video
+        ref={(video) => {
+          if (video && video.srcObject !== tile.stream) video.srcObject = tile.stream;
+        }}
+        autoPlay
+        playsInline
+        // Sound plays through the participant's audio element
+        muted
+        className={`w-full h-full ${tile.kind === "screen" ? "object-contain" : "object-cover"} ${
+          tile.mirrored ? "-scale-x-100" : ""
+        }`}
+      />
+      <span className="absolute top-2 left-2 flex items-center gap-1 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+        {tile.kind === "screen" ? <MonitorUp className="w-3 h-3" /> : <User className="w-3 h-3" />}
+        {tile.label}
+      </span>
+      <button
+        onClick={onTogglePin}
+        className="absolute top-2 right-2 rounded bg-black/60 p-1 text-white opacity-0 group-hover:opacity-100 transition"
+        title={pinned ? "Unpin" : "Pin"}
+      >
+        {pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+      </button>
+      {tile.caption && (
+        <p
+          className={`absolute bottom-2 left-1/2 -translate-x-1/2 max-w-[90%] rounded bg-black/70 px-2 py-1 text-center text-white ${
+            large ? "text-base" : "text-xs"
+          }`}
+        >
+          {tile.caption}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Cameras and screen shares in the room. Tiles without live video are left
+ * out. A screen share is pinned large above the others unless the user
+ * pins something else.
+ */
+export function VideoGrid({ tiles, activeSpeakerId }: VideoGridProps) {
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  // The user unpinned the screen share that was pinned for them
+  const [unpinned, setUnpinned] = useState(false);
+  useTrackChanges(tiles.map((tile) => tile.stream));
+
+  const visible = tiles.filter((tile) => hasVideo(tile.stream));
+  if (visible.length === 0) return null;
+
+  const pinned =
+    visible.find((tile) => tile.id === pinnedId) ??
+    (unpinned ? undefined : visible.find((tile) => tile.kind === "screen"));
+  const others = visible.filter((tile) => tile !== pinned);
+
+  const isActiveSpeaker = (tile: VideoTile) =>
+    tile.kind === "camera" && tile.userId === activeSpeakerId;
+
+  const togglePin = (tile: VideoTile) => {
+    if (tile === pinned) {
+      setPinnedId(null);
+      setUnpinned(true);
+    } else {
+      setPinnedId(tile.id);
+      setUnpinned(false);
+    }
+  };
+
+  if (!pinned) {
+    return (
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-2 p-4 border-b border-secondary max-h-[50%] overflow-y-auto">
+        {visible.map((tile) => (
+          <VideoTileView
+            key={tile.id}
+            tile={tile}
+            large={false}
+            pinned={false}
+            speaking={isActiveSpeaker(tile)}
+            onTogglePin={() => togglePin(tile)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4 border-b border-secondary h-[55%]">
+      <div className="flex-1 min-h-0">
+        <VideoTileView
+          tile={pinned}
+          large
+          pinned
+          speaking={isActiveSpeaker(pinned)}
+          onTogglePin={() => togglePin(pinned)}
+        />
+      </div>
+      {others.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {others.map((tile) => (
+            <div key={tile.id} className="w-40 shrink-0">
+              <VideoTileView
+                tile={tile}
+                large={false}
+                pinned={false}
+                speaking={isActiveSpeaker(tile)}
+                onTogglePin={() => togglePin(tile)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// Session storage and authenticated requests to the backend
+
+export const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
+
+export interface SessionUser {
+  id: string;
+  displayName: string;
+}
+
+const TOKEN_KEY = "authToken";
+const USER_KEY = "user";
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function getStoredUser(): SessionUser | null {
+  const storedUser = localStorage.getItem(USER_KEY);
+  return storedUser && getToken() ? JSON.parse(storedUser) : null;
+}
+
+export function saveSession(user: SessionUser, token: string) {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearSession() {
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * fetch() against the backend with the session token attached.
+ * `path` is relative to the backend root, e.g. "/api/rooms/ABC123".
+ */
+export function apiFetch(path: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  if (init.body && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  return fetch(`${BACKEND_URL}${path}`, { ...init, headers });
+}
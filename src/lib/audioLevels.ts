@@ -0,0 +1,114 @@
+// Loudness of local and remote audio streams, measured with Web Audio
+// analysers, and who is speaking as a result
+
+// RMS amplitude above which a stream counts as speech
+const SPEAKING_THRESHOLD = 0.03;
+// Speaking state holds this long after the level drops, to ride over the
+// gaps between words
+const SPEAKING_HOLD_MS = 500;
+const POLL_INTERVAL_MS = 100;
+// RMS amplitude reported as a full level of 1
+const FULL_SCALE = 0.25;
+
+export interface AudioLevelMonitor {
+  // Measures `stream` under `id`, replacing what was measured there;
+  // null stops measuring it
+  setStream(id: string, stream: MediaStream | null): void;
+  measures(id: string): boolean;
+  // Latest level from 0 to 1; 0 for ids without a stream
+  level(id: string): number;
+  close(): void;
+}
+
+interface Entry {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+  level: number;
+  speaking: boolean;
+  lastLoudAt: number;
+}
+
+/**
+ * Polls every measured stream and reports when one starts or stops
+ * speaking. The audio context is created on first use, so the first
+ * stream should be set from a user gesture.
+ */
+export function createAudioLevelMonitor(
+  onSpeakingChange: (id: string, speaking: boolean) => void
+): AudioLevelMonitor {
+  let context: AudioContext | null = null;
+  const entries = new Map<string, Entry>();
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entries.delete(id);
+    entry.source.disconnect();
+    if (entry.speaking) onSpeakingChange(id, false);
+  };
+
+  const poll = () => {
+    const now = Date.now();
+    entries.forEach((entry, id) => {
+      entry.analyser.getFloatTimeDomainData(entry.samples);
+      let sum = 0;
+      for (const sample of entry.samples) sum += sample * sample;
+      const rms = Math.sqrt(sum / entry.samples.length);
+      entry.level = Math.min(1, rms / FULL_SCALE);
+
+      if (rms > SPEAKING_THRESHOLD) entry.lastLoudAt = now;
+      const speaking = now - entry.lastLoudAt < SPEAKING_HOLD_MS;
+      if (speaking !== entry.speaking) {
+        entry.speaking = speaking;
+        onSpeakingChange(id, speaking);
+      }
+    });
+  };
+  const timer = setInterval(poll, POLL_INTERVAL_MS);
+
+  return {
+    setStream(id, stream) {
+      if (entries.get(id)?.stream === stream) return;
+      remove(id);
+      if (!stream || stream.getAudioTracks().length === 0) return;
+
+      try {
+        context ??= new AudioContext();
+        // Suspended until the page has had a user gesture
+        if (context.state === "suspended") context.resume().catch(() => {});
+        const source = context.createMediaStreamSource(stream);
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 512;
+        source.connect(analyser);
+        entries.set(id, {
+          stream,
+          source,
+          analyser,
+          samples: new Float32Array(analyser.fftSize),
+          level: 0,
+          speaking: false,
+          lastLoudAt: 0,
+        });
+      } catch (err) {
+        console.warn(`Could not measure audio level for ${id}:`, err);
+      }
+    },
+
+    measures(id) {
+      return entries.has(id);
+    },
+
+    level(id) {
+      return entries.get(id)?.level ?? 0;
+    },
+
+    close() {
+      clearInterval(timer);
+      Array.from(entries.keys()).forEach(remove);
+      context?.close().catch(() => {});
+      context = null;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+// ICE configuration for peer connections, from the backend
+
+import type { IceConfig } from "../../shared/ice";
+import { apiFetch } from "./api";
+
+// Refetch this long before TURN credentials expire, so a connection set up
+// just before expiry can still allocate a relay
+const REFRESH_MARGIN_MS = 60_000;
+
+// Used when the backend cannot be reached; direct and STUN paths only
+const FALLBACK_CONFIG: IceConfig = {
+  iceServers: [{ urls: ["stun:stun.l.google.com:19302"] }],
+  iceTransportPolicy: "all",
+  expiresAt: null,
+};
+
+let cached: Promise<IceConfig> | null = null;
+let cachedUntil = 0;
+
+async function fetchIceConfig(): Promise<IceConfig> {
+  const res = await apiFetch("/api/ice-servers");
+  if (!res.ok) throw new Error(`Failed to fetch ICE servers: ${res.status}`);
+  return res.json();
+}
+
+/**
+ * The ICE configuration to create RTCPeerConnections with. Shared between
+ * callers and refetched only once its TURN credentials are about to expire.
+ */
+export function getIceConfig(): Promise<IceConfig> {
+  if (cached && Date.now() < cachedUntil) return cached;
+
+  cachedUntil = Infinity;
+  cached = fetchIceConfig().then(
+    (config) => {
+      cachedUntil = config.expiresAt
+        ? new Date(config.expiresAt).getTime() - REFRESH_MARGIN_MS
+        : Infinity;
+      return config;
+    },
+    (error) => {
+      console.error("Error fetching ICE servers:", error);
+      // Try the backend again next time
+      cachedUntil = 0;
+      return FALLBACK_CONFIG;
+    }
+  );
+  return cached;
+}
@@ -0,0 +1,107 @@
+// The local microphone, run through a gain stage so its level and input
+// device can change without touching the track we send
+
+export interface MicrophoneOptions {
+  // The browser's default device when missing
+  deviceId?: string;
+  gain: number;
+}
+
+export interface Microphone {
+  // What we send and transcribe. Its track stays the same across gain and
+  // device changes unless Web Audio is unavailable.
+  readonly stream: MediaStream;
+  setGain(gain: number): void;
+  // Switches the input device in place
+  setDevice(deviceId: string | undefined): Promise<void>;
+  // Sends silence while closed, e.g. for push-to-talk
+  setOpen(open: boolean): void;
+  close(): void;
+}
+
+const getInput = (deviceId: string | undefined) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      channelCount: 1,
+      sampleRate: 48000,
+      sampleSize: 16,
+    },
+  });
+
+/**
+ * Opens the microphone. Without Web Audio the device's own stream is used
+ * as it is: gain has no effect and switching devices swaps its track.
+ */
+export async function openMicrophone({ deviceId, gain }: MicrophoneOptions): Promise<Microphone> {
+  let input = await getInput(deviceId);
+  let open = true;
+
+  let pipeline: {
+    context: AudioContext;
+    source: MediaStreamAudioSourceNode;
+    gainNode: GainNode;
+    output: MediaStream;
+  } | null = null;
+  try {
+    const context = new AudioContext();
+    // Suspended when created outside a user gesture
+    if (context.state === "suspended") context.resume().catch(() => {});
+    const source = context.createMediaStreamSource(input);
+    const gainNode = context.createGain();
+    gainNode.gain.value = gain;
+    const destination = context.createMediaStreamDestination();
+    source.connect(gainNode);
+    gainNode.connect(destination);
+    pipeline = { context, source, gainNode, output: destination.stream };
+  } catch (err) {
+    console.warn("Could not apply microphone gain, using the device stream:", err);
+  }
+
+  const stream = pipeline?.output ?? input;
+
+  return {
+    stream,
+
+    setGain(value) {
+      if (pipeline) pipeline.gainNode.gain.value = value;
+    },
+
+    async setDevice(id) {
+      const next = await getInput(id);
+      const previousTracks = input.getTracks();
+      input = next;
+
+      if (pipeline) {
+        pipeline.source.disconnect();
+        pipeline.source = pipeline.context.createMediaStreamSource(next);
+        pipeline.source.connect(pipeline.gainNode);
+      } else {
+        previousTracks.forEach((track) => stream.removeTrack(track));
+        next.getTracks().forEach((track) => {
+          track.enabled = open;
+          stream.addTrack(track);
+        });
+      }
+      previousTracks.forEach((track) => track.stop());
+    },
+
+    setOpen(value) {
+      open = value;
+      stream.getAudioTracks().forEach((track) => {
+        track.enabled = value;
+      });
+    },
+
+    close() {
+      input.getTracks().forEach((track) => track.stop());
+      if (pipeline) {
+        pipeline.output.getTracks().forEach((track) => track.stop());
+        pipeline.context.close().catch(() => {});
+      }
+    },
+  };
+}
@@ -0,0 +1,81 @@
+// Microphone audio as raw PCM, for server-side transcription
+
+import { ASR_SAMPLE_RATE } from "../../shared/socketEvents";
+
+// Audio sent per chunk
+const CHUNK_MS = 250;
+
+// Runs on the audio thread and hands each block of samples to the page
+const TAP_PROCESSOR = `
+class PcmTap extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice());
+    return true;
+  }
+}
+registerProcessor("pcm-tap", PcmTap);
+`;
+
+/**
+ * Streams a microphone as 16-bit mono PCM at ASR_SAMPLE_RATE, one chunk per
+ * CHUNK_MS. The audio context keeps the device's rate (Firefox refuses to
+ * mix rates between a stream and its context) and samples are averaged
+ * down here. Resolves to a function that stops the capture.
+ */
+export async function startPcmCapture(
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void
+): Promise<() => void> {
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(
+    new Blob([TAP_PROCESSOR], { type: "text/javascript" })
+  );
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (err) {
+    await context.close();
+    throw err;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const tap = new AudioWorkletNode(context, "pcm-tap");
+
+  // Input samples per output sample
+  const ratio = context.sampleRate / ASR_SAMPLE_RATE;
+  const chunk = new Int16Array((ASR_SAMPLE_RATE * CHUNK_MS) / 1000);
+  let filled = 0;
+  // Where the next output sample starts, relative to the current block
+  let position = 0;
+
+  tap.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const input = event.data;
+    for (; position + ratio <= input.length; position += ratio) {
+      const from = Math.max(0, Math.floor(position));
+      const to = Math.max(from + 1, Math.floor(position + ratio));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += input[i];
+      const sample = Math.max(-1, Math.min(1, sum / (to - from)));
+      chunk[filled++] = Math.round(sample * 32767);
+
+      if (filled === chunk.length) {
+        onChunk(chunk.slice());
+        filled = 0;
+      }
+    }
+    position -= input.length;
+  };
+
+  source.connect(tap);
+  // The tap outputs silence; being connected keeps it processing
+  tap.connect(context.destination);
+
+  return () => {
+    tap.port.onmessage = null;
+    source.disconnect();
+    tap.disconnect();
+    context.close();
+  };
+}
@@ -0,0 +1,155 @@
+// One WebRTC connection to another participant, negotiated with the
+// "perfect negotiation" pattern so either side may offer at any time
+
+import type { IceConfig } from "../../shared/ice";
+
+// A disconnected connection often recovers by itself; ICE is restarted if
+// it has not after this long
+const DISCONNECTED_GRACE_MS = 3000;
+
+export interface PeerCallbacks {
+  // An offer or answer for the other side's handleDescription
+  onDescription(description: RTCSessionDescriptionInit): void;
+  onCandidate(candidate: RTCIceCandidateInit): void;
+  onTrack(event: RTCTrackEvent): void;
+}
+
+export interface Peer {
+  readonly pc: RTCPeerConnection;
+  handleDescription(description: RTCSessionDescriptionInit): Promise<void>;
+  handleCandidate(candidate: RTCIceCandidateInit): Promise<void>;
+  // Sends exactly the tracks of `streams`, each labelled with its stream,
+  // renegotiating when they change
+  setLocalStreams(streams: MediaStream[]): void;
+  close(): void;
+}
+
+/**
+ * Creates a peer connection that offers whenever it needs negotiating.
+ * When both sides offer at once, the polite side rolls its offer back and
+ * answers; the impolite side ignores the other offer. The two ends of a
+ * connection must disagree on `polite`.
+ */
+export function createPeer(
+  config: IceConfig,
+  polite: boolean,
+  callbacks: PeerCallbacks
+): Peer {
+  const pc = new RTCPeerConnection({
+    iceServers: config.iceServers,
+    iceTransportPolicy: config.iceTransportPolicy,
+    iceCandidatePoolSize: 10,
+    rtcpMuxPolicy: "require",
+    bundlePolicy: "max-bundle",
+  });
+
+  let makingOffer = false;
+  let ignoreOffer = false;
+  let settingRemoteAnswer = false;
+  // Candidates that arrived before the description they belong to
+  let pendingCandidates: RTCIceCandidateInit[] = [];
+  let disconnectedTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const addCandidate = async (candidate: RTCIceCandidateInit) => {
+    try {
+      await pc.addIceCandidate(candidate);
+    } catch (err) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!ignoreOffer) console.error("Error adding ICE candidate:", err);
+    }
+  };
+
+  pc.onnegotiationneeded = async () => {
+    try {
+      makingOffer = true;
+      await pc.setLocalDescription();
+      callbacks.onDescription(pc.localDescription!.toJSON());
+    } catch (err) {
+      console.error("Error creating offer:", err);
+    } finally {
+      makingOffer = false;
+    }
+  };
+
+  pc.onicecandidate = ({ candidate }) => {
+    if (candidate) callbacks.onCandidate(candidate.toJSON());
+  };
+
+  // Restarting ICE renegotiates over the existing connection, keeping its
+  // tracks, rather than tearing it down
+  pc.oniceconnectionstatechange = () => {
+    if (disconnectedTimer) {
+      clearTimeout(disconnectedTimer);
+      disconnectedTimer = null;
+    }
+    if (pc.iceConnectionState === "failed") {
+      pc.restartIce();
+    } else if (pc.iceConnectionState === "disconnected") {
+      disconnectedTimer = setTimeout(() => {
+        disconnectedTimer = null;
+        if (pc.iceConnectionState === "disconnected") pc.restartIce();
+      }, DISCONNECTED_GRACE_MS);
+    }
+  };
+
+  pc.ontrack = callbacks.onTrack;
+
+  return {
+    pc,
+
+    async handleDescription(description) {
+      const readyForOffer =
+        !makingOffer && (pc.signalingState === "stable" || settingRemoteAnswer);
+      const offerCollision = description.type === "offer" && !readyForOffer;
+      ignoreOffer = !polite && offerCollision;
+      if (ignoreOffer) return;
+
+      // A polite peer's own offer is rolled back implicitly here
+      settingRemoteAnswer = description.type === "answer";
+      try {
+        await pc.setRemoteDescription(description);
+      } finally {
+        settingRemoteAnswer = false;
+      }
+
+      const queued = pendingCandidates;
+      pendingCandidates = [];
+      for (const candidate of queued) await addCandidate(candidate);
+
+      if (description.type === "offer") {
+        await pc.setLocalDescription();
+        callbacks.onDescription(pc.localDescription!.toJSON());
+      }
+    },
+
+    async handleCandidate(candidate) {
+      if (!pc.remoteDescription) {
+        pendingCandidates.push(candidate);
+        return;
+      }
+      await addCandidate(candidate);
+    },
+
+    setLocalStreams(streams) {
+      const tracks = streams.flatMap((stream) => stream.getTracks());
+      const senders = pc.getSenders();
+      for (const sender of senders) {
+        if (sender.track && !tracks.includes(sender.track)) pc.removeTrack(sender);
+      }
+      for (const stream of streams) {
+        for (const track of stream.getTracks()) {
+          if (!senders.some((sender) => sender.track === track)) pc.addTrack(track, stream);
+        }
+      }
+    },
+
+    close() {
+      if (disconnectedTimer) clearTimeout(disconnectedTimer);
+      pc.onnegotiationneeded = null;
+      pc.onicecandidate = null;
+      pc.oniceconnectionstatechange = null;
+      pc.ontrack = null;
+      pc.close();
+    },
+  };
+}
@@ -0,0 +1,176 @@
+// Audio through the server's SFU: one connection up carrying our
+// microphone, one down per participant we listen to
+
+import type { IceConfig } from "../../shared/ice";
+import type { SfuAnswer } from "../../shared/socketEvents";
+
+// The SFU takes no trickled candidates, so offers wait for gathering to
+// finish, or this long at most
+const GATHERING_TIMEOUT_MS = 3000;
+// Wait before setting up a failed connection again
+const RETRY_DELAY_MS = 2000;
+
+type SdpOffer = { type: "offer"; sdp: string };
+
+export interface SfuSignals {
+  publish(offer: SdpOffer): Promise<SfuAnswer>;
+  subscribe(publisherId: string, offer: SdpOffer): Promise<SfuAnswer>;
+}
+
+export interface SfuCallbacks {
+  onTrack(connectionId: string, stream: MediaStream): void;
+  onTrackEnded(connectionId: string): void;
+}
+
+export interface SfuSession {
+  // Publishes the stream's tracks, swapping them in place where it can
+  setLocalStream(stream: MediaStream | null): Promise<void>;
+  // Listens to exactly these publishing connections
+  setPublishers(connectionIds: string[]): void;
+  close(): void;
+}
+
+function waitForGathering(pc: RTCPeerConnection) {
+  return new Promise<void>((resolve) => {
+    if (pc.iceGatheringState === "complete") return resolve();
+    const timer = setTimeout(done, GATHERING_TIMEOUT_MS);
+    function done() {
+      clearTimeout(timer);
+      pc.removeEventListener("icegatheringstatechange", check);
+      resolve();
+    }
+    function check() {
+      if (pc.iceGatheringState === "complete") done();
+    }
+    pc.addEventListener("icegatheringstatechange", check);
+  });
+}
+
+/**
+ * Connects to the SFU for one room. Connections that fail are set up again
+ * from scratch; the server replaces its end when offered anew.
+ */
+export function createSfuSession(
+  config: IceConfig,
+  signals: SfuSignals,
+  callbacks: SfuCallbacks
+): SfuSession {
+  let closed = false;
+  let upstream: RTCPeerConnection | null = null;
+  let localStream: MediaStream | null = null;
+  const downstreams = new Map<string, RTCPeerConnection>();
+
+  const createConnection = () =>
+    new RTCPeerConnection({
+      iceServers: config.iceServers,
+      iceTransportPolicy: config.iceTransportPolicy,
+      bundlePolicy: "max-bundle",
+    });
+
+  // Offers, waits for candidates and applies the SFU's answer
+  const negotiate = async (
+    pc: RTCPeerConnection,
+    send: (offer: SdpOffer) => Promise<SfuAnswer>
+  ) => {
+    await pc.setLocalDescription(await pc.createOffer());
+    await waitForGathering(pc);
+    const answer = await send({ type: "offer", sdp: pc.localDescription!.sdp });
+    if (pc.signalingState !== "closed") await pc.setRemoteDescription(answer);
+  };
+
+  const retryOnFailure = (pc: RTCPeerConnection, retry: () => void) => {
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState !== "failed") return;
+      setTimeout(() => {
+        if (!closed) retry();
+      }, RETRY_DELAY_MS);
+    };
+  };
+
+  const publish = async () => {
+    upstream?.close();
+    upstream = null;
+    const tracks = localStream?.getTracks() ?? [];
+    if (tracks.length === 0) return;
+
+    const pc = createConnection();
+    upstream = pc;
+    tracks.forEach((track) => pc.addTransceiver(track, { direction: "sendonly" }));
+    retryOnFailure(pc, () => {
+      if (upstream === pc) publish().catch((err) => console.error("Error republishing:", err));
+    });
+    await negotiate(pc, signals.publish);
+  };
+
+  const unsubscribe = (connectionId: string) => {
+    const pc = downstreams.get(connectionId);
+    if (!pc) return;
+    downstreams.delete(connectionId);
+    pc.close();
+    callbacks.onTrackEnded(connectionId);
+  };
+
+  const subscribe = async (connectionId: string) => {
+    const pc = createConnection();
+    downstreams.set(connectionId, pc);
+    pc.addTransceiver("audio", { direction: "recvonly" });
+    pc.ontrack = (event) => {
+      callbacks.onTrack(connectionId, event.streams[0] ?? new MediaStream([event.track]));
+    };
+    retryOnFailure(pc, () => {
+      if (downstreams.get(connectionId) !== pc) return;
+      unsubscribe(connectionId);
+      subscribe(connectionId).catch((err) => console.error("Error resubscribing:", err));
+    });
+
+    try {
+      await negotiate(pc, (offer) => signals.subscribe(connectionId, offer));
+    } catch (err) {
+      if (downstreams.get(connectionId) === pc) unsubscribe(connectionId);
+      throw err;
+    }
+  };
+
+  return {
+    async setLocalStream(stream) {
+      localStream = stream;
+      const tracks = stream?.getTracks() ?? [];
+      const senders = upstream?.getSenders() ?? [];
+      const sameKinds =
+        upstream !== null &&
+        tracks.length === senders.length &&
+        tracks.every((track) => senders.some((sender) => sender.track?.kind === track.kind));
+
+      if (sameKinds) {
+        // A different device or processed stream needs no new offer
+        await Promise.all(
+          tracks.map((track) =>
+            senders.find((sender) => sender.track?.kind === track.kind)!.replaceTrack(track)
+          )
+        );
+      } else {
+        await publish();
+      }
+    },
+
+    setPublishers(connectionIds) {
+      Array.from(downstreams.keys())
+        .filter((connectionId) => !connectionIds.includes(connectionId))
+        .forEach(unsubscribe);
+      connectionIds
+        .filter((connectionId) => !downstreams.has(connectionId))
+        .forEach((connectionId) =>
+          subscribe(connectionId).catch((err) =>
+            console.error(`Error subscribing to ${connectionId}:`, err)
+          )
+        );
+    },
+
+    close() {
+      closed = true;
+      upstream?.close();
+      upstream = null;
+      Array.from(downstreams.keys()).forEach(unsubscribe);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+-- Final caption segments, kept apart from chat messages so late joiners
+-- can catch up on captions they missed
+CREATE TABLE speech_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_code CHAR(6) REFERENCES rooms(code),
+  speaker_id UUID REFERENCES users(id),
+  segment_id UUID NOT NULL,
+  seq INTEGER NOT NULL DEFAULT 0,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(room_code, segment_id)
+);
+
+CREATE INDEX idx_speech_segments_room_code ON speech_segments(room_code);
+CREATE INDEX idx_speech_segments_created_at ON speech_segments(created_at);
@@ -0,0 +1,3 @@
+-- Password hashes for signed session login. Existing users have none
+-- until they register again under their display name, which claims it.
+ALTER TABLE users ADD COLUMN password_hash TEXT;
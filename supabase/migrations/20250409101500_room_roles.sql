@@ -0,0 +1,20 @@
+-- Host / co-host roles, room locking and bans
+ALTER TABLE room_members
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'participant'
+  CHECK (role IN ('host', 'cohost', 'participant'));
+
+-- Existing creators become the host of their rooms
+UPDATE room_members rm
+SET role = 'host'
+FROM rooms r
+WHERE r.code = rm.room_code AND r.creator_id = rm.user_id;
+
+ALTER TABLE rooms ADD COLUMN locked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE room_bans (
+  room_code CHAR(6) REFERENCES rooms(code),
+  user_id UUID REFERENCES users(id),
+  banned_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (room_code, user_id)
+);
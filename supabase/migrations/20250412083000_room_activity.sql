@@ -0,0 +1,8 @@
+-- Rooms remember when someone was last present so the server can close
+-- the ones nobody has been in for a while
+ALTER TABLE rooms
+  ADD COLUMN last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE INDEX rooms_active_last_active_at_idx
+  ON rooms (last_active_at)
+  WHERE active;
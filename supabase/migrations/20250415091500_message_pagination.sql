@@ -0,0 +1,3 @@
+-- Keyset pagination walks a room's messages by (created_at, id)
+CREATE INDEX idx_messages_room_created_at_id
+  ON messages (room_code, created_at, id);
@@ -0,0 +1,5 @@
+-- Full-text search over chat messages. The "simple" config skips stemming
+-- and stop words, so phrase and prefix queries behave the same in any
+-- language people speak in a room.
+CREATE INDEX idx_messages_content_fts
+  ON messages USING GIN (to_tsvector('simple', content));
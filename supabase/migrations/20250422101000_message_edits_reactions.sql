@@ -0,0 +1,23 @@
+-- Authors can edit and soft-delete their messages; every earlier version
+-- is kept in message_edits
+ALTER TABLE messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  -- The content before this edit
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_message_edits_message_id ON message_edits(message_id);
+
+CREATE TABLE message_reactions (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, user_id, emoji)
+);
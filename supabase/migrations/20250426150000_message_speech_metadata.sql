@@ -0,0 +1,12 @@
+-- Where a message came from, and for speech what the recognizer knew
+ALTER TABLE messages
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'typed'
+    CHECK (kind IN ('typed', 'speech_final', 'system')),
+  -- 0..1 as reported by the recognizer
+  ADD COLUMN confidence REAL,
+  -- BCP 47 tag, e.g. en-US
+  ADD COLUMN language TEXT,
+  ADD COLUMN utterance_start_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN utterance_end_at TIMESTAMP WITH TIME ZONE,
+  -- [{ word, startMs, endMs, confidence? }], offsets from utterance start
+  ADD COLUMN word_timings JSONB;
@@ -0,0 +1,10 @@
+-- Machine translations of chat messages, one per target language, so each
+-- message is translated at most once per language
+CREATE TABLE message_translations (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  -- Language subtag the content was translated into, e.g. "es"
+  language TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (message_id, language)
+);
@@ -0,0 +1,3 @@
+-- The language and dialect a user speaks in meetings, as a BCP 47 tag
+-- (e.g. "es-MX"); null means the default, en-US
+ALTER TABLE users ADD COLUMN speech_language TEXT;
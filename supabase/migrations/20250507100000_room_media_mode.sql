@@ -0,0 +1,5 @@
+-- Whether a room's audio goes peer to peer or through the server's SFU.
+-- "auto" switches to the SFU once enough people are present.
+ALTER TABLE rooms
+  ADD COLUMN media_mode TEXT NOT NULL DEFAULT 'auto'
+  CHECK (media_mode IN ('auto', 'mesh', 'sfu'));
@@ -0,0 +1,22 @@
+-- Private rooms: an optional passphrase, a lobby where a host admits
+-- people, and invite-only rooms that let in nobody but the listed users
+ALTER TABLE rooms
+  ADD COLUMN passphrase_hash TEXT,
+  ADD COLUMN lobby_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN invite_only BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE room_invites (
+  room_code CHAR(6) REFERENCES rooms(code),
+  user_id UUID REFERENCES users(id),
+  invited_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (room_code, user_id)
+);
+
+-- People waiting for a host or co-host to let them in
+CREATE TABLE room_lobby (
+  room_code CHAR(6) REFERENCES rooms(code),
+  user_id UUID REFERENCES users(id),
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (room_code, user_id)
+);
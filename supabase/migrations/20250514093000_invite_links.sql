@@ -0,0 +1,9 @@
+-- Who has joined through each signed invite link. The link's token
+-- carries its limits; this is only what counts against them.
+CREATE TABLE invite_uses (
+  invite_id UUID,
+  room_code CHAR(6) REFERENCES rooms(code),
+  user_id UUID REFERENCES users(id),
+  used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (invite_id, user_id)
+);
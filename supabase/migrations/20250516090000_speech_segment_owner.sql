@@ -0,0 +1,6 @@
+-- Segment ids come from the speaker's client, so they are only unique per
+-- speaker. Keying on them alone let anyone overwrite someone else's caption.
+ALTER TABLE speech_segments
+  DROP CONSTRAINT speech_segments_room_code_segment_id_key,
+  ADD CONSTRAINT speech_segments_room_code_speaker_id_segment_id_key
+    UNIQUE (room_code, speaker_id, segment_id);
@@ -0,0 +1,3 @@
+-- Accounts made by opening an invite link have no password and end with
+-- their session. After that their display name can be taken again.
+ALTER TABLE users ADD COLUMN guest_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,9 @@
+-- Muted by a host or co-host. Kept apart from room_members so leaving and
+-- joining again does not lift it; only a moderator can.
+CREATE TABLE room_mutes (
+  room_code CHAR(6) REFERENCES rooms(code),
+  user_id UUID REFERENCES users(id),
+  muted_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (room_code, user_id)
+);
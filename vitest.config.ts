@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Server and shared code only; the server runs against the memory store
+export default defineConfig({
+  test: {
+    include: ['server/**/*.test.ts', 'shared/**/*.test.ts'],
+    environment: 'node',
+    env: {
+      DB_DRIVER: 'memory',
+      AUTH_SECRET: 'test-secret',
+    },
+  },
+});